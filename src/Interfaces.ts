@@ -29,6 +29,8 @@ import {
   SelectionNode,
   VariableDefinitionNode,
   ASTNode,
+  IntrospectionQuery,
+  GraphQLError,
 } from 'graphql';
 
 import { TypeMap } from 'graphql/type/schema';
@@ -152,6 +154,7 @@ export interface IFetcherOperation {
   operationName?: string;
   variables?: { [key: string]: any };
   context?: { [key: string]: any };
+  extensions?: { [key: string]: any };
 }
 
 /**
@@ -164,6 +167,7 @@ export type Dispatcher = (context: any) => ApolloLink | Fetcher;
  */
 export interface SubschemaConfig {
   schema: GraphQLSchema;
+  name?: string;
   rootValue?: Record<string, any>;
   executor?: Delegator;
   subscriber?: Delegator;
@@ -172,6 +176,105 @@ export interface SubschemaConfig {
   dispatcher?: Dispatcher;
   transforms?: Array<Transform>;
   merge?: Record<string, MergedTypeConfig>;
+  batch?: boolean;
+  /**
+   * Milliseconds after which a request to the subschema fails with an error
+   * with the `SUBSCHEMA_TIMEOUT` code.
+   */
+  timeout?: number;
+  retry?: SubschemaRetryOptions;
+  circuitBreaker?: SubschemaCircuitBreakerOptions;
+  /**
+   * Extensions to add to errors from the subschema, either the `subschema`
+   * name, the `operationName` and the `originalPath` of the error within the
+   * subschema result if `true`, or those returned by the given function.
+   */
+  errorExtensions?:
+    | boolean
+    | ((details: SubschemaErrorDetails) => Record<string, any>);
+  /**
+   * Masks errors from the subschema whose code is not explicitly allowed, see
+   * the `MaskErrors` transform.
+   */
+  errorPolicy?: ErrorPolicy;
+  /**
+   * Whether the subschema supports persisted queries, in which case the hash
+   * of each delegated operation is sent along with the operation within the
+   * `persistedQuery` extension. If the executor, fetcher or link of the
+   * subschema supports automatic persisted queries, `'automatic'` sends the
+   * hash alone first, and the operation only if the subschema responds with a
+   * `PersistedQueryNotFound` error.
+   */
+  persistedQueries?: boolean | 'automatic';
+}
+
+/**
+ * @category Schema Wrapping
+ */
+export interface ErrorPolicy {
+  /**
+   * Codes within the extensions of errors passed through unchanged.
+   */
+  allowedCodes?: Array<string>;
+  /**
+   * Message replacing that of masked errors, defaults to
+   * `Internal server error`.
+   */
+  message?: string;
+  /**
+   * Code of masked errors, defaults to `INTERNAL_SERVER_ERROR`.
+   */
+  code?: string;
+  /**
+   * Receives each masked error, with its `correlationId` within extensions.
+   */
+  logger?: ILogger;
+  createCorrelationId?: () => string;
+}
+
+/**
+ * @category Schema Delegation
+ */
+export interface SubschemaErrorDetails {
+  error: GraphQLError;
+  subschema: string;
+  operation: Operation;
+  operationName: string;
+  fieldName: string;
+  path: ReadonlyArray<string | number>;
+}
+
+/**
+ * Retries failed or timed out queries to a subschema up to `attempts` times,
+ * waiting `delay` milliseconds before the first retry, doubling up to
+ * `maxDelay` with each further retry. Mutations are never retried.
+ *
+ * @category Schema Delegation
+ */
+export interface SubschemaRetryOptions {
+  attempts: number;
+  delay?: number;
+  maxDelay?: number;
+}
+
+/**
+ * Once `failureThreshold` consecutive requests to a subschema have failed,
+ * timed out or returned a result counted as a failure, further requests fail immediately with an error with the
+ * `SUBSCHEMA_UNAVAILABLE` code for `resetTimeout` milliseconds, after which
+ * a single request is let through to test whether the subschema recovered.
+ * Without a `timeout`, this trial request times out after `resetTimeout`
+ * milliseconds.
+ *
+ * @category Schema Delegation
+ */
+export interface SubschemaCircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeout: number;
+  /**
+   * Whether a result returned by the subschema counts as a failure, by
+   * default if it has errors but no data.
+   */
+  isFailure?: (result: ExecutionResult) => boolean;
 }
 
 /**
@@ -181,9 +284,54 @@ export interface MergedTypeConfig {
   selectionSet?: string;
   fieldName?: string;
   args?: (originalResult: any) => Record<string, any>;
+  /**
+   * Returns the key of the object to fetch, in place of `args`. Keys of
+   * objects merged at the same path within the same tick are fetched with a
+   * single request, batched within the same context, or without a context
+   * within the same execution of the operation.
+   */
+  key?: (originalResult: any) => any;
+  /**
+   * Returns the arguments of the field fetching the objects of a batch of
+   * keys.
+   */
+  argsFromKeys?: (keys: ReadonlyArray<any>) => Record<string, any>;
+  valuesFromResults?: (results: any, keys: ReadonlyArray<any>) => Array<any>;
   resolve?: MergedTypeResolver;
+  /**
+   * Designates this subschema as the owner of all fields of the type that it
+   * shares with other subschemas, or only of the listed fields.
+   */
+  canonical?: boolean | Array<string>;
+  /**
+   * Selects the owner of shared fields without a canonical subschema among
+   * the subschemas with merged type configuration for the type.
+   */
+  prefer?: 'first' | 'last' | MergedFieldSelector;
+  /**
+   * Throws if shared fields differ in their arguments, description,
+   * nullability or deprecation.
+   */
+  failOnFieldConflict?: boolean;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface MergedFieldCandidate {
+  field: GraphQLField<any, any>;
+  subschema: SubschemaConfig;
 }
 
+/**
+ * @category Schema Stitching
+ */
+export type MergedFieldSelector = (
+  candidates: Array<MergedFieldCandidate>,
+  typeName: string,
+  fieldName: string,
+) => MergedFieldCandidate;
+
 /**
  * @category Schema Stitching
  */
@@ -240,6 +388,29 @@ export interface IDelegateToSchemaOptions<TContext = { [key: string]: any }> {
   skipTypeMerging?: boolean;
 }
 
+/**
+ * @category Schema Delegation
+ */
+export interface IBatchDelegateOptions<K = any, V = any>
+  extends IDelegateToSchemaOptions {
+  key: K;
+  argsFromKeys?: (keys: ReadonlyArray<K>) => Record<string, any>;
+  valuesFromResults?: (results: any, keys: ReadonlyArray<K>) => Array<V>;
+}
+
+/**
+ * @category Schema Delegation
+ */
+export interface DelegationPlanNode {
+  subschemaName?: string;
+  operation: Operation;
+  fieldName: string;
+  path: Array<string | number>;
+  document: string;
+  variables: Record<string, any>;
+  children: Array<DelegationPlanNode>;
+}
+
 /**
  * @category Schema Delegation
  */
@@ -281,12 +452,68 @@ export type Delegator = ({
   document,
   context,
   variables,
+  extensions,
 }: {
   document: DocumentNode;
   context?: { [key: string]: any };
   variables?: { [key: string]: any };
+  extensions?: { [key: string]: any };
 }) => any;
 
+/**
+ * A request to execute a persisted operation, identified by `hash`, by the
+ * `sha256Hash` of the `persistedQuery` extension, or by the operation itself.
+ *
+ * @category Schema Delegation
+ */
+export interface PersistedQueryRequest {
+  hash?: string;
+  query?: string | DocumentNode;
+  extensions?: {
+    persistedQuery?: { version?: number; sha256Hash: string };
+    [key: string]: any;
+  };
+  variables?: { [key: string]: any };
+  operationName?: string;
+  context?: { [key: string]: any };
+  rootValue?: any;
+}
+
+/**
+ * @category Schema Delegation
+ */
+export interface PersistedQueries {
+  hashes: Array<string>;
+  getDocument: (hash: string) => DocumentNode;
+  execute: (request: PersistedQueryRequest) => Promise<ExecutionResult>;
+  executor: Delegator;
+}
+
+/**
+ * Options for `createWorkerExecutor`. `schemaModule` is the path of a module
+ * exporting, under `exportName`, the schema or a function returning it or a
+ * promise of it. Only the context fields listed in `contextFields`, or
+ * returned by it when a function, are passed to the worker.
+ *
+ * @category Schema Delegation
+ */
+export interface WorkerExecutorOptions {
+  schemaModule: string;
+  exportName?: string;
+  contextFields?:
+    | Array<string>
+    | ((context: Record<string, any>) => Record<string, any>);
+}
+
+/**
+ * @category Schema Delegation
+ */
+export interface WorkerExecutor {
+  executor: Delegator;
+  subscriber: Delegator;
+  terminate: () => Promise<void>;
+}
+
 /**
  * @category Schema Stitching
  */
@@ -328,14 +555,238 @@ export interface ReplacementFragmentMapping {
  */
 export interface MergedTypeInfo {
   subschemas: Array<SubschemaConfig>;
+  mergedTypeConfigs: Map<SubschemaConfig, MergedTypeConfig>;
   selectionSet?: SelectionSetNode;
   uniqueFields: Record<string, SubschemaConfig>;
   nonUniqueFields: Record<string, Array<SubschemaConfig>>;
   typeMaps: Map<SubschemaConfig, TypeMap>;
   selectionSets: Map<SubschemaConfig, SelectionSetNode>;
+  fieldSelectionSets: Map<SubschemaConfig, Array<SelectionSetNode>>;
+  fieldOwners: Record<string, SubschemaConfig>;
   containsSelectionSet: Map<SubschemaConfig, Map<SelectionSetNode, boolean>>;
 }
 
+/**
+ * Cost of a field, overriding any `@cost` directive within the SDL.
+ *
+ * @category Schema Stitching
+ */
+export interface FieldCostConfig {
+  /**
+   * Cost of resolving the field itself, excluding its selections.
+   */
+  value?: number;
+  /**
+   * Arguments whose value is the number of items returned by the field, e.g.
+   * `first` for paginated fields.
+   */
+  multipliers?: Array<string>;
+  /**
+   * Number of items assumed to be returned by the field when none of its
+   * multiplier arguments are set.
+   */
+  listSize?: number;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface CostAnalysisOptions {
+  variables?: Record<string, any>;
+  operationName?: string;
+  /**
+   * Field cost configuration by type name and field name.
+   */
+  fieldCosts?: Record<string, Record<string, FieldCostConfig>>;
+  /**
+   * Cost of fields returning composite types, defaults to 1.
+   */
+  defaultCost?: number;
+  /**
+   * Cost of fields returning scalars or enums, defaults to 0.
+   */
+  defaultLeafCost?: number;
+  /**
+   * Number of items assumed to be returned by list fields without a list
+   * size hint, defaults to 10.
+   */
+  defaultListSize?: number;
+  /**
+   * Arguments used as multipliers when not configured for a field, defaults
+   * to `first`, `last` and `limit`.
+   */
+  listSizeArguments?: Array<string>;
+  /**
+   * Cost of each delegation required to resolve the fields of a merged type
+   * from another subschema, defaults to 1.
+   */
+  delegationCost?: number;
+  /**
+   * Merged types used to count delegations, by default those of the schema
+   * if created by `mergeSchemas`.
+   */
+  mergedTypes?: Record<string, MergedTypeInfo>;
+  maximumCost?: number;
+  maximumDepth?: number;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface OperationCost {
+  cost: number;
+  depth: number;
+  /**
+   * Estimated number of delegations to other subschemas required to resolve
+   * the fields of merged types.
+   */
+  delegations: number;
+}
+
+/**
+ * Loads the current subschemas of a `StitchedGateway`, optionally notifying
+ * the gateway when they may have changed.
+ *
+ * @category Schema Stitching
+ */
+export interface SubschemaLoader {
+  load: () => Array<SubschemaConfig> | Promise<Array<SubschemaConfig>>;
+  watch?: (onChange: () => void) => () => void;
+}
+
+/**
+ * A schema stored by an `IntrospectionCache`, either as SDL or as the result
+ * of an introspection query, along with the time at which it was fetched.
+ *
+ * @category Schema Stitching
+ */
+export interface IntrospectionCacheEntry {
+  sdl?: string;
+  introspection?: IntrospectionQuery;
+  timestamp: number;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface IntrospectionCache {
+  read: (
+    key: string,
+  ) => IntrospectionCacheEntry | undefined | Promise<IntrospectionCacheEntry>;
+  write: (key: string, entry: IntrospectionCacheEntry) => void | Promise<void>;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface IntrospectionCacheOptions {
+  cache: IntrospectionCache;
+  key: string;
+  format?: 'sdl' | 'introspection';
+  maxAge?: number;
+  linkContext?: Record<string, any>;
+}
+
+/**
+ * The schema returned by `introspectSchemaWithCache`. Schemas served from the
+ * cache because the live introspection query failed are `stale`, with the
+ * failure as `error`. When a live schema differs from the cached one,
+ * `changes` lists the differences from the cached schema.
+ *
+ * @category Schema Stitching
+ */
+export interface CachedIntrospectionResult {
+  schema: GraphQLSchema;
+  source: 'live' | 'cache';
+  stale: boolean;
+  timestamp: number;
+  error?: Error;
+  cacheError?: Error;
+  changes?: Array<SchemaChange>;
+}
+
+/**
+ * The subset of the WebSocket API used by `createWebSocketSubscriber`,
+ * implemented both by browsers and by the `ws` package.
+ *
+ * @category Schema Delegation
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: (event: any) => void;
+  onmessage: (event: { data: any }) => void;
+  onclose: (event: { code: number; reason: string }) => void;
+  onerror: (event: any) => void;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * @category Schema Delegation
+ */
+export type WebSocketImpl = new (
+  url: string,
+  protocols?: string | Array<string>,
+) => WebSocketLike;
+
+/**
+ * Options for `createWebSocketSubscriber`. `'graphql-ws'` is the protocol of
+ * the `graphql-ws` package, `'subscriptions-transport-ws'` the legacy Apollo
+ * protocol. Connection params may be derived from the GraphQL context;
+ * operations with equal connection params share a connection.
+ *
+ * @category Schema Delegation
+ */
+export interface WebSocketSubscriberOptions {
+  url: string;
+  protocol?: 'graphql-ws' | 'subscriptions-transport-ws';
+  connectionParams?:
+    | Record<string, any>
+    | ((
+        context: Record<string, any>,
+      ) => Record<string, any> | Promise<Record<string, any>>);
+  webSocketImpl?: WebSocketImpl;
+  retryAttempts?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface MergedSchemasValidationReport {
+  valid: boolean;
+  typeConflicts: Array<MergedSchemasTypeConflict>;
+  issues: Array<MergedSchemasValidationIssue>;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface MergedSchemasTypeConflict {
+  typeName: string;
+  subschemas: Array<string>;
+  resolution: 'merged' | 'onTypeConflict' | 'last';
+  selectedSubschema?: string;
+}
+
+/**
+ * @category Schema Stitching
+ */
+export interface MergedSchemasValidationIssue {
+  kind:
+    | 'mergeError'
+    | 'invalidFieldName'
+    | 'invalidArgs'
+    | 'unsatisfiableSelectionSet'
+    | 'unreachableField';
+  message: string;
+  typeName?: string;
+  fieldName?: string;
+  subschema?: string;
+  error?: Error;
+}
+
 /**
  * @category Schema Generation
  */
@@ -424,6 +875,48 @@ export interface IConnectors<TContext = any> {
   [key: string]: IConnector<TContext>;
 }
 
+/**
+ * Either the roles of which one is required, any authenticated user being
+ * authorized if empty, or a predicate authorizing the resolution of a field.
+ *
+ * @category Schema Generation
+ */
+export type AuthorizationRule<TContext = any> =
+  | { requires: Array<string> }
+  | ((
+      context: TContext,
+      args: Record<string, any>,
+      parent: any,
+      info: GraphQLResolveInfo,
+    ) => boolean | Promise<boolean>);
+
+/**
+ * Authorization rules by type name, either applying to all fields of the
+ * type, or by field name.
+ *
+ * @category Schema Generation
+ */
+export type AuthorizationRules<TContext = any> = Record<
+  string,
+  AuthorizationRule<TContext> | Record<string, AuthorizationRule<TContext>>
+>;
+
+/**
+ * @category Schema Generation
+ */
+export interface AuthorizationOptions<TContext = any> {
+  rules?: AuthorizationRules<TContext>;
+  /**
+   * Name of the directive declaring the roles required to access a type or
+   * field, defaults to `auth`.
+   */
+  directiveName?: string;
+  /**
+   * Returns the roles of the current user, or `null` if not authenticated.
+   */
+  getRoles?: (context: TContext) => Array<string>;
+}
+
 /**
  * @category Schema Generation
  */
@@ -509,6 +1002,94 @@ export interface IMockOptions {
   schema?: GraphQLSchema;
   mocks?: IMocks;
   preserveResolvers?: boolean;
+  seed?: number;
+  store?: IMockStore;
+  mutations?: boolean | IMockMutationOptions;
+  generators?: boolean | Array<IMockGenerator>;
+}
+
+/**
+ * Generator of realistic values of scalar and enum fields whose name and
+ * whose type name match the given patterns, if any. Generated values that
+ * cannot be serialized by the type of the field are ignored.
+ *
+ * @category Schema Mocking
+ */
+export interface IMockGenerator {
+  fieldName?: RegExp;
+  typeName?: RegExp;
+  generate: (random: () => number) => any;
+}
+
+/**
+ * Rule of a mocked mutation, creating, updating or deleting an entity of the
+ * mock store of the given type, by default the return type of the mutation.
+ *
+ * @category Schema Mocking
+ */
+export interface IMockMutationRule {
+  kind: 'create' | 'update' | 'delete';
+  typeName?: string;
+}
+
+/**
+ * Options of mocked mutations, with rules by mutation field name.
+ *
+ * @category Schema Mocking
+ */
+export interface IMockMutationOptions {
+  rules?: Record<string, IMockMutationRule>;
+}
+
+/**
+ * Reference to an entity of a mock store, as returned by `IMockStore.get`.
+ *
+ * @category Schema Mocking
+ */
+export interface IMockRef {
+  $ref: { typeName: string; key: string };
+}
+
+/**
+ * Entities of a mock store, by type name and key, each a map of field values.
+ *
+ * @category Schema Mocking
+ */
+export type IMockFixtures = Record<string, Record<string, Record<string, any>>>;
+
+/**
+ * Store of mocked entities, identified by their type name and key, whose
+ * field values are generated on first access and then remembered. Values of
+ * fields queried with arguments are remembered for each set of arguments,
+ * while `set` sets the values of fields queried without arguments.
+ *
+ * @category Schema Mocking
+ */
+export interface IMockStore {
+  get(typeName: string, key: string): IMockRef;
+  get(
+    typeName: string,
+    key: string,
+    fieldName: string,
+    args?: Record<string, any>,
+  ): any;
+  set(typeName: string, key: string, values: Record<string, any>): void;
+  set(typeName: string, key: string, fieldName: string, value: any): void;
+  insert(typeName: string, values: Record<string, any>): IMockRef;
+  delete(typeName: string, key: string): void;
+  has(typeName: string, key: string): boolean;
+  reset(): void;
+}
+
+/**
+ * @category Schema Mocking
+ */
+export interface IMockStoreOptions {
+  schema: GraphQLSchema;
+  mocks?: IMocks;
+  seed?: number;
+  fixtures?: IMockFixtures;
+  generators?: boolean | Array<IMockGenerator>;
 }
 
 /**
@@ -838,8 +1419,63 @@ export type DirectiveMapper = (
 /**
  * @category Schema Generation
  */
-export function isASTNode(
-  astNode: any,
-): astNode is ASTNode {
+export function isASTNode(astNode: any): astNode is ASTNode {
   return (astNode as ASTNode).kind !== undefined;
 }
+
+/**
+ * @category Schema Utility
+ */
+export enum SchemaChangeCriticality {
+  BREAKING = 'BREAKING',
+  DANGEROUS = 'DANGEROUS',
+  SAFE = 'SAFE',
+}
+
+/**
+ * @category Schema Utility
+ */
+export enum SchemaChangeType {
+  ROOT_TYPE_CHANGED = 'ROOT_TYPE_CHANGED',
+  TYPE_ADDED = 'TYPE_ADDED',
+  TYPE_REMOVED = 'TYPE_REMOVED',
+  TYPE_KIND_CHANGED = 'TYPE_KIND_CHANGED',
+  TYPE_DESCRIPTION_CHANGED = 'TYPE_DESCRIPTION_CHANGED',
+  FIELD_ADDED = 'FIELD_ADDED',
+  FIELD_REMOVED = 'FIELD_REMOVED',
+  FIELD_TYPE_CHANGED = 'FIELD_TYPE_CHANGED',
+  FIELD_DESCRIPTION_CHANGED = 'FIELD_DESCRIPTION_CHANGED',
+  FIELD_DEPRECATION_CHANGED = 'FIELD_DEPRECATION_CHANGED',
+  FIELD_DEFAULT_VALUE_CHANGED = 'FIELD_DEFAULT_VALUE_CHANGED',
+  ARG_ADDED = 'ARG_ADDED',
+  ARG_REMOVED = 'ARG_REMOVED',
+  ARG_TYPE_CHANGED = 'ARG_TYPE_CHANGED',
+  ARG_DESCRIPTION_CHANGED = 'ARG_DESCRIPTION_CHANGED',
+  ARG_DEFAULT_VALUE_CHANGED = 'ARG_DEFAULT_VALUE_CHANGED',
+  ENUM_VALUE_ADDED = 'ENUM_VALUE_ADDED',
+  ENUM_VALUE_REMOVED = 'ENUM_VALUE_REMOVED',
+  ENUM_VALUE_DESCRIPTION_CHANGED = 'ENUM_VALUE_DESCRIPTION_CHANGED',
+  ENUM_VALUE_DEPRECATION_CHANGED = 'ENUM_VALUE_DEPRECATION_CHANGED',
+  UNION_MEMBER_ADDED = 'UNION_MEMBER_ADDED',
+  UNION_MEMBER_REMOVED = 'UNION_MEMBER_REMOVED',
+  INTERFACE_IMPLEMENTATION_ADDED = 'INTERFACE_IMPLEMENTATION_ADDED',
+  INTERFACE_IMPLEMENTATION_REMOVED = 'INTERFACE_IMPLEMENTATION_REMOVED',
+  DIRECTIVE_ADDED = 'DIRECTIVE_ADDED',
+  DIRECTIVE_REMOVED = 'DIRECTIVE_REMOVED',
+  DIRECTIVE_LOCATION_ADDED = 'DIRECTIVE_LOCATION_ADDED',
+  DIRECTIVE_LOCATION_REMOVED = 'DIRECTIVE_LOCATION_REMOVED',
+}
+
+/**
+ * A difference between two schemas, as returned by `diffSchemas`. The path
+ * identifies the changed schema element, e.g. `User.name`, `Query.user.id`
+ * or `@auth.requires`.
+ *
+ * @category Schema Utility
+ */
+export interface SchemaChange {
+  type: SchemaChangeType;
+  criticality: SchemaChangeCriticality;
+  path: string;
+  message: string;
+}
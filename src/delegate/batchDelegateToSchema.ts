@@ -0,0 +1,131 @@
+import DataLoader from 'dataloader';
+import {
+  FieldNode,
+  GraphQLList,
+  GraphQLSchema,
+  print,
+  responsePathAsArray,
+} from 'graphql';
+
+import {
+  IBatchDelegateOptions,
+  IDelegateToSchemaOptions,
+  SubschemaConfig,
+} from '../Interfaces';
+
+import delegateToSchema from './delegateToSchema';
+
+type LoaderCache = WeakMap<
+  ReadonlyArray<FieldNode>,
+  WeakMap<GraphQLSchema | SubschemaConfig, Record<string, DataLoader<any, any>>>
+>;
+
+const loaderCaches: WeakMap<Record<string, any>, LoaderCache> = new WeakMap();
+
+/**
+ * Delegates to a root field on the subschema that accepts a list of keys,
+ * collecting all keys requested within the same tick into a single
+ * delegated request.
+ *
+ * Keys are only collected for the same field at the same path within the
+ * response, ignoring list indices, and within the same context, or without a
+ * context within the same execution of the operation. The options of the
+ * first request of each batch, other than its key, apply to the whole batch.
+ *
+ * @category Schema Delegation
+ */
+export default function batchDelegateToSchema<K = any, V = any>(
+  options: IBatchDelegateOptions<K, V>,
+): any {
+  const { key } = options;
+  if (key == null) {
+    return null;
+  }
+
+  return getLoader(options).load(key);
+}
+
+function getLoader<K, V>(
+  options: IBatchDelegateOptions<K, V>,
+): DataLoader<K, V> {
+  const { context, info, schema, fieldName = info.fieldName } = options;
+
+  // without a context, the coerced variable values, created for each
+  // execution, identify the execution, falling back to the operation
+  const cacheKey =
+    context != null
+      ? context
+      : info.variableValues != null
+      ? info.variableValues
+      : info.operation;
+
+  let fieldNodesCache = loaderCaches.get(cacheKey);
+  if (fieldNodesCache == null) {
+    fieldNodesCache = new WeakMap();
+    loaderCaches.set(cacheKey, fieldNodesCache);
+  }
+
+  let subschemaCache = fieldNodesCache.get(info.fieldNodes);
+  if (subschemaCache == null) {
+    subschemaCache = new WeakMap();
+    fieldNodesCache.set(info.fieldNodes, subschemaCache);
+  }
+
+  let loaders = subschemaCache.get(schema);
+  if (loaders == null) {
+    loaders = Object.create(null);
+    subschemaCache.set(schema, loaders);
+  }
+
+  const pathKey = responsePathAsArray(info.path)
+    .filter((segment) => typeof segment === 'string')
+    .join('.');
+  const loaderKey =
+    options.selectionSet != null
+      ? `${pathKey}:${fieldName}${print(options.selectionSet)}`
+      : `${pathKey}:${fieldName}`;
+
+  let loader = loaders[loaderKey];
+  if (loader == null) {
+    loader = createLoader(options);
+    loaders[loaderKey] = loader;
+  }
+
+  return loader;
+}
+
+function createLoader<K, V>(
+  options: IBatchDelegateOptions<K, V>,
+): DataLoader<K, V> {
+  return new DataLoader(
+    (keys: ReadonlyArray<K>) => batchDelegate(keys, options),
+    { cache: false },
+  );
+}
+
+function batchDelegate<K, V>(
+  keys: ReadonlyArray<K>,
+  {
+    argsFromKeys = (ks: ReadonlyArray<K>) => ({ ids: ks }),
+    valuesFromResults = (results: any) => results,
+    returnType,
+    ...options
+  }: IBatchDelegateOptions<K, V>,
+): Promise<Array<V | Error>> {
+  const delegationOptions: IDelegateToSchemaOptions = {
+    ...options,
+    returnType: new GraphQLList(
+      returnType != null ? returnType : options.info.returnType,
+    ),
+    args: argsFromKeys(keys),
+  };
+
+  return Promise.resolve(delegateToSchema(delegationOptions)).then(
+    (results) => {
+      if (results == null || results instanceof Error) {
+        return keys.map(() => results);
+      }
+      return valuesFromResults(results, keys);
+    },
+  );
+}
@@ -0,0 +1,363 @@
+import DataLoader from 'dataloader';
+import {
+  ASTNode,
+  DocumentNode,
+  ExecutionResult,
+  FragmentDefinitionNode,
+  GraphQLError,
+  InlineFragmentNode,
+  Kind,
+  OperationDefinitionNode,
+  OperationTypeNode,
+  SelectionNode,
+  SelectionSetNode,
+  VariableDefinitionNode,
+  visit,
+} from 'graphql';
+
+import { Delegator, SubschemaConfig } from '../Interfaces';
+import { relocatedError } from '../stitch/errors';
+
+type ExecutionParams = {
+  document: DocumentNode;
+  context?: Record<string, any>;
+  variables?: Record<string, any>;
+  extensions?: Record<string, any>;
+};
+
+// results of remote subschemas may have extensions, e.g. tracing data
+type ExecutionResultWithExtensions = ExecutionResult & {
+  extensions?: Record<string, any>;
+};
+
+const batchingExecutors: WeakMap<
+  Record<string, any>,
+  WeakMap<SubschemaConfig, Delegator>
+> = new WeakMap();
+
+/**
+ * Returns an executor that collects all requests to the given subschema
+ * within the same tick, sending them as a single merged operation. Requests
+ * are only batched within the same context, so that requests without a
+ * context are sent as is.
+ */
+export function getBatchingExecutor(
+  context: Record<string, any>,
+  subschemaConfig: SubschemaConfig,
+  executor: Delegator,
+): Delegator {
+  if (context == null) {
+    return executor;
+  }
+
+  let executors = batchingExecutors.get(context);
+  if (executors == null) {
+    executors = new WeakMap();
+    batchingExecutors.set(context, executors);
+  }
+
+  let batchingExecutor = executors.get(subschemaConfig);
+  if (batchingExecutor == null) {
+    batchingExecutor = createBatchingExecutor(executor);
+    executors.set(subschemaConfig, batchingExecutor);
+  }
+
+  return batchingExecutor;
+}
+
+function createBatchingExecutor(executor: Delegator): Delegator {
+  const loaders: Partial<Record<
+    OperationTypeNode,
+    DataLoader<ExecutionParams, ExecutionResult>
+  >> = {};
+
+  return (params: ExecutionParams) => {
+    const operation = getOperationDefinition(params.document).operation;
+    let loader = loaders[operation];
+    if (loader == null) {
+      loader = new DataLoader(
+        (requests: ReadonlyArray<ExecutionParams>) =>
+          executeMergedRequests(requests, executor),
+        { cache: false },
+      );
+      loaders[operation] = loader;
+    }
+    return loader.load(params);
+  };
+}
+
+function executeMergedRequests(
+  requests: ReadonlyArray<ExecutionParams>,
+  executor: Delegator,
+): Promise<Array<ExecutionResult>> {
+  if (requests.length === 1) {
+    return Promise.resolve(executor(requests[0])).then((result) => [result]);
+  }
+
+  const { document, variables, extensions } = mergeRequests(requests);
+
+  return Promise.resolve(
+    executor({
+      document,
+      variables,
+      context: requests[0].context,
+      extensions,
+    }),
+  ).then((result: ExecutionResult) => splitResult(result, requests.length));
+}
+
+function getOperationDefinition(
+  document: DocumentNode,
+): OperationDefinitionNode {
+  return document.definitions.find(
+    (def) => def.kind === Kind.OPERATION_DEFINITION,
+  ) as OperationDefinitionNode;
+}
+
+function createPrefix(index: number): string {
+  return `_${String(index)}_`;
+}
+
+function parseKey(prefixedKey: string): { index: number; key: string } {
+  const match = /^_(\d+)_(.*)$/.exec(prefixedKey);
+  if (match != null) {
+    return { index: Number(match[1]), key: match[2] };
+  }
+  return null;
+}
+
+// the merged operation is named after the named operations, if any, and
+// holds the extensions of all the requests
+function mergeRequests(
+  requests: ReadonlyArray<ExecutionParams>,
+): {
+  document: DocumentNode;
+  variables: Record<string, any>;
+  extensions: Record<string, any>;
+} {
+  let operation: OperationTypeNode;
+  const operationNames: Array<string> = [];
+  let variableDefinitions: Array<VariableDefinitionNode> = [];
+  let selections: Array<SelectionNode> = [];
+  let fragmentDefinitions: Array<FragmentDefinitionNode> = [];
+  const variables = Object.create(null);
+  let extensions: Record<string, any>;
+
+  requests.forEach((request, index) => {
+    const prefix = createPrefix(index);
+    const prefixedDocument = prefixDocument(request.document, prefix);
+
+    const fragments: Record<string, FragmentDefinitionNode> = Object.create(
+      null,
+    );
+    prefixedDocument.definitions.forEach((def) => {
+      if (def.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments[def.name.value] = def;
+        fragmentDefinitions.push(def);
+      }
+    });
+
+    const operationDefinition = getOperationDefinition(prefixedDocument);
+    operation = operationDefinition.operation;
+    if (operationDefinition.name != null) {
+      operationNames.push(operationDefinition.name.value);
+    }
+
+    if (operationDefinition.variableDefinitions != null) {
+      variableDefinitions = variableDefinitions.concat(
+        operationDefinition.variableDefinitions,
+      );
+    }
+    selections = selections.concat(
+      prefixRootSelections(operationDefinition.selectionSet, prefix, fragments)
+        .selections,
+    );
+
+    if (request.variables != null) {
+      Object.keys(request.variables).forEach((variableName) => {
+        variables[prefix + variableName] = request.variables[variableName];
+      });
+    }
+
+    if (request.extensions != null) {
+      extensions = { ...extensions, ...request.extensions };
+    }
+  });
+
+  const mergedOperationDefinition: OperationDefinitionNode = {
+    kind: Kind.OPERATION_DEFINITION,
+    operation,
+    name: operationNames.length
+      ? { kind: Kind.NAME, value: operationNames.join('_') }
+      : undefined,
+    variableDefinitions,
+    selectionSet: {
+      kind: Kind.SELECTION_SET,
+      selections,
+    },
+  };
+
+  // fragments spread on the root type only are no longer used once inlined
+  fragmentDefinitions = getUsedFragmentDefinitions(
+    mergedOperationDefinition,
+    fragmentDefinitions,
+  );
+
+  return {
+    document: {
+      kind: Kind.DOCUMENT,
+      definitions: [mergedOperationDefinition, ...fragmentDefinitions],
+    },
+    variables,
+    extensions,
+  };
+}
+
+function getUsedFragmentDefinitions(
+  operationDefinition: OperationDefinitionNode,
+  fragmentDefinitions: Array<FragmentDefinitionNode>,
+): Array<FragmentDefinitionNode> {
+  const usedFragmentNames: Record<string, boolean> = Object.create(null);
+  const collectFragmentNames = (node: ASTNode) => {
+    visit(node, {
+      [Kind.FRAGMENT_SPREAD]: (spread) => {
+        const fragmentName = spread.name.value;
+        if (usedFragmentNames[fragmentName]) {
+          return;
+        }
+        usedFragmentNames[fragmentName] = true;
+        const fragment = fragmentDefinitions.find(
+          (def) => def.name.value === fragmentName,
+        );
+        if (fragment != null) {
+          collectFragmentNames(fragment);
+        }
+      },
+    });
+  };
+  collectFragmentNames(operationDefinition);
+
+  return fragmentDefinitions.filter((def) => usedFragmentNames[def.name.value]);
+}
+
+function prefixDocument(document: DocumentNode, prefix: string): DocumentNode {
+  return visit(document, {
+    [Kind.VARIABLE]: (node) => ({
+      ...node,
+      name: { ...node.name, value: prefix + node.name.value },
+    }),
+    [Kind.FRAGMENT_DEFINITION]: (node) => ({
+      ...node,
+      name: { ...node.name, value: prefix + node.name.value },
+    }),
+    [Kind.FRAGMENT_SPREAD]: (node) => ({
+      ...node,
+      name: { ...node.name, value: prefix + node.name.value },
+    }),
+  });
+}
+
+function prefixRootSelections(
+  selectionSet: SelectionSetNode,
+  prefix: string,
+  fragments: Record<string, FragmentDefinitionNode>,
+): SelectionSetNode {
+  return {
+    ...selectionSet,
+    selections: selectionSet.selections.map((selection) => {
+      if (selection.kind === Kind.FIELD) {
+        const responseKey =
+          selection.alias != null
+            ? selection.alias.value
+            : selection.name.value;
+        return {
+          ...selection,
+          alias: {
+            kind: Kind.NAME,
+            value: prefix + responseKey,
+          },
+        };
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        return {
+          ...selection,
+          selectionSet: prefixRootSelections(
+            selection.selectionSet,
+            prefix,
+            fragments,
+          ),
+        };
+      }
+
+      // fragment spreads on the root type are inlined so that their
+      // fields can be aliased without affecting other requests
+      const fragment = fragments[selection.name.value];
+      const inlineFragment: InlineFragmentNode = {
+        kind: Kind.INLINE_FRAGMENT,
+        typeCondition: fragment.typeCondition,
+        directives: selection.directives,
+        selectionSet: prefixRootSelections(
+          fragment.selectionSet,
+          prefix,
+          fragments,
+        ),
+      };
+      return inlineFragment;
+    }),
+  };
+}
+
+function splitResult(
+  mergedResult: ExecutionResultWithExtensions,
+  numResults: number,
+): Array<ExecutionResultWithExtensions> {
+  const splitResults: Array<ExecutionResultWithExtensions> = [];
+  for (let i = 0; i < numResults; i++) {
+    splitResults.push(
+      mergedResult.extensions != null
+        ? { extensions: mergedResult.extensions }
+        : {},
+    );
+  }
+
+  if (mergedResult.data != null) {
+    Object.keys(mergedResult.data).forEach((prefixedKey) => {
+      const { index, key } = parseKey(prefixedKey);
+      const result = splitResults[index];
+      if (result.data == null) {
+        result.data = {};
+      }
+      result.data[key] = mergedResult.data[prefixedKey];
+    });
+  }
+
+  if (mergedResult.errors != null) {
+    mergedResult.errors.forEach((error: GraphQLError) => {
+      const parsedKey =
+        error.path != null && typeof error.path[0] === 'string'
+          ? parseKey(error.path[0])
+          : null;
+
+      if (parsedKey != null) {
+        const result = splitResults[parsedKey.index];
+        result.errors = (result.errors != null ? result.errors : []).concat(
+          relocatedError(error, error.nodes, [
+            parsedKey.key,
+            ...error.path.slice(1),
+          ]),
+        );
+      } else {
+        // errors without a path are reported once, unless the merged request
+        // failed as a whole, in which case each request failed
+        const results =
+          mergedResult.data != null ? splitResults.slice(0, 1) : splitResults;
+        results.forEach((result) => {
+          result.errors = (result.errors != null ? result.errors : []).concat(
+            error,
+          );
+        });
+      }
+    });
+  }
+
+  return splitResults;
+}
@@ -28,6 +28,7 @@ import {
 import {
   relocatedError,
   combineErrors,
+  expandAggregateErrors,
   getErrorsByPathSegment,
 } from '../stitch/errors';
 import { getResponseKeyFromInfo } from '../stitch/getResponseKeyFromInfo';
@@ -44,7 +45,10 @@ export function checkResultAndHandleErrors(
   returnType: GraphQLOutputType = info.returnType,
   skipTypeMerging?: boolean,
 ): any {
-  const errors = result.errors != null ? result.errors : [];
+  // errors standing for multiple errors, e.g. from a subschema that is itself
+  // a stitched schema, are expanded so that each error is reported at its path
+  const errors =
+    result.errors != null ? expandAggregateErrors(result).errors : [];
   const data = result.data != null ? result.data[responseKey] : undefined;
 
   return handleResult(
@@ -265,7 +269,9 @@ function getFieldsNotInSubschema(
   const fieldsNotInSchema: Array<FieldNode> = [];
   Object.keys(subFieldNodes).forEach((responseName) => {
     subFieldNodes[responseName].forEach((subFieldNode) => {
-      if (!fields[subFieldNode.name.value]) {
+      const fieldName = subFieldNode.name.value;
+      const owner = mergedTypeInfo.fieldOwners[fieldName];
+      if (!fields[fieldName] || (owner != null && owner !== subschema)) {
         fieldsNotInSchema.push(subFieldNode);
       }
     });
@@ -0,0 +1,207 @@
+/* eslint-disable import/no-nodejs-modules */
+
+import path from 'path';
+
+import { Observable } from 'apollo-link';
+import { ExecutionResult, print } from 'graphql';
+
+import {
+  Delegator,
+  WorkerExecutor,
+  WorkerExecutorOptions,
+} from '../Interfaces';
+import { observableToAsyncIterable } from '../stitch/observableToAsyncIterable';
+
+type MessageHandler = (message: Record<string, any>) => void;
+
+type Worker = import('worker_threads').Worker;
+
+/**
+ * Returns an `executor` and a `subscriber` for use within the subschema
+ * configuration of a local schema, executing operations within a
+ * `worker_threads` worker so that expensive resolvers do not block the event
+ * loop of the gateway.
+ *
+ * The worker loads the schema from `schemaModule` when first used. Documents
+ * are sent to it printed and variables and context fields as copied by
+ * `postMessage`, so that only context fields that can be copied should be
+ * selected. Results are returned as from a remote schema. If the worker exits,
+ * pending operations fail and a new worker is started for the next operation.
+ * `worker_threads` is only loaded when the first worker is started, so that
+ * the rest of the package remains usable on versions of Node without it.
+ *
+ * ```
+ * const { executor, subscriber, terminate } = createWorkerExecutor({
+ *   schemaModule: require.resolve('./reportsSchema'),
+ *   contextFields: ['userId'],
+ * });
+ *
+ * const schema = mergeSchemas({
+ *   subschemas: [{ schema: reportsSchema, executor, subscriber }],
+ * });
+ * ```
+ *
+ * @category Schema Delegation
+ */
+export function createWorkerExecutor({
+  schemaModule,
+  exportName = 'schema',
+  contextFields,
+}: WorkerExecutorOptions): WorkerExecutor {
+  const handlers: Map<number, MessageHandler> = new Map();
+  let worker: Worker;
+  let nextId = 1;
+
+  const failAll = (message: string) => {
+    const pendingHandlers = Array.from(handlers.values());
+    handlers.clear();
+    pendingHandlers.forEach((handler) => handler({ type: 'error', message }));
+  };
+
+  const getWorker = (): Worker => {
+    if (worker == null) {
+      const { Worker: WorkerThread } = loadWorkerThreads();
+      const newWorker = new WorkerThread(
+        path.join(__dirname, 'workerExecutorWorker.js'),
+        { workerData: { schemaModule, exportName } },
+      );
+      newWorker.on('message', (message) => {
+        const handler = handlers.get(message.id);
+        if (handler != null) {
+          handler(message);
+        }
+      });
+      newWorker.on('error', (error) => {
+        if (worker === newWorker) {
+          failAll(error.message);
+        }
+      });
+      newWorker.on('exit', (code) => {
+        if (worker === newWorker) {
+          worker = undefined;
+          failAll(`Worker exited with code ${String(code)}`);
+        }
+      });
+      // the worker only keeps the process alive while operations are pending
+      newWorker.unref();
+      worker = newWorker;
+    }
+
+    return worker;
+  };
+
+  const send = (
+    type: 'execute' | 'subscribe',
+    { document, context, variables }: Parameters<Delegator>[0],
+    handler: MessageHandler,
+  ) => {
+    const id = nextId++;
+    const currentWorker = getWorker();
+
+    currentWorker.postMessage({
+      id,
+      type,
+      query: print(document),
+      variables,
+      context: selectContextFields(context, contextFields),
+    });
+
+    handlers.set(id, handler);
+    currentWorker.ref();
+
+    return id;
+  };
+
+  const remove = (id: number) => {
+    handlers.delete(id);
+    if (!handlers.size && worker != null) {
+      worker.unref();
+    }
+  };
+
+  const executor: Delegator = (params) =>
+    new Promise<ExecutionResult>((resolve, reject) => {
+      const id = send('execute', params, (message) => {
+        remove(id);
+        if (message.type === 'result') {
+          resolve(message.result);
+        } else {
+          reject(new Error(message.message));
+        }
+      });
+    });
+
+  const subscriber: Delegator = (params) =>
+    new Promise((resolve, reject) => {
+      const id = send('subscribe', params, (message) => {
+        if (message.type === 'subscribed') {
+          const observable = new Observable<ExecutionResult>((observer) => {
+            handlers.set(id, (event) => {
+              if (event.type === 'next') {
+                observer.next(event.result);
+              } else if (event.type === 'complete') {
+                remove(id);
+                observer.complete();
+              } else if (event.type === 'error') {
+                remove(id);
+                observer.error(new Error(event.message));
+              }
+            });
+
+            return () => {
+              if (handlers.has(id)) {
+                remove(id);
+                if (worker != null) {
+                  worker.postMessage({ id, type: 'stop' });
+                }
+              }
+            };
+          });
+          resolve(observableToAsyncIterable(observable));
+        } else if (message.type === 'result') {
+          remove(id);
+          resolve(message.result);
+        } else {
+          remove(id);
+          reject(new Error(message.message));
+        }
+      });
+    });
+
+  const terminate = (): Promise<void> => {
+    if (worker == null) {
+      return Promise.resolve();
+    }
+
+    const terminatedWorker = worker;
+    worker = undefined;
+    failAll('Worker was terminated');
+    return terminatedWorker.terminate().then(() => undefined);
+  };
+
+  return { executor, subscriber, terminate };
+}
+
+function loadWorkerThreads(): typeof import('worker_threads') {
+  // eslint-disable-next-line global-require, @typescript-eslint/no-require-imports
+  return require('worker_threads');
+}
+
+function selectContextFields(
+  context: Record<string, any>,
+  contextFields: WorkerExecutorOptions['contextFields'],
+): Record<string, any> {
+  if (context == null || contextFields == null) {
+    return undefined;
+  }
+
+  if (typeof contextFields === 'function') {
+    return contextFields(context);
+  }
+
+  const selectedContext = {};
+  contextFields.forEach((fieldName) => {
+    selectedContext[fieldName] = context[fieldName];
+  });
+  return selectedContext;
+}
@@ -4,9 +4,12 @@ import {
   subscribe,
   execute,
   validate,
+  getOperationAST,
+  DocumentNode,
   GraphQLSchema,
   ExecutionResult,
   GraphQLOutputType,
+  GraphQLError,
   isSchema,
 } from 'graphql';
 
@@ -19,6 +22,7 @@ import {
   isSubschemaConfig,
   IGraphQLToolsResolveInfo,
   Transform,
+  Operation,
 } from '../Interfaces';
 import {
   ExpandAbstractTypes,
@@ -31,6 +35,7 @@ import {
   applyRequestTransforms,
   applyResultTransforms,
   AddArgumentsAsVariables,
+  MaskErrors,
 } from '../wrap/index';
 
 import linkToFetcher from '../stitch/linkToFetcher';
@@ -39,6 +44,10 @@ import mapAsyncIterator from '../stitch/mapAsyncIterator';
 import { combineErrors } from '../stitch/errors';
 
 import { createRequestFromInfo, getDelegatingOperation } from './createRequest';
+import { getBatchingExecutor } from './batchingExecutor';
+import { getResilientExecutor } from './resilientExecutor';
+import { getPersistedQueryExecutor } from './persistedQueries';
+import { getDelegationPlanRecorder } from './explainOperation';
 
 export default function delegateToSchema(
   options: IDelegateToSchemaOptions | GraphQLSchema,
@@ -189,47 +198,91 @@ export function delegateRequest({
   if (!skipValidation) {
     const errors = validate(targetSchema, processedRequest.document);
     if (errors.length > 0) {
-      const combinedError: Error = combineErrors(errors);
-      throw combinedError;
+      throw maskThrownError(
+        combineErrors(errors),
+        subschemaConfig,
+        delegationTransforms,
+      );
     }
   }
 
-  if (operation === 'query' || operation === 'mutation') {
-    const executor = createExecutor(
-      targetSchema,
-      targetRootValue,
-      context,
-      subschemaConfig,
+  const transformError = (error: Error): never => {
+    throw maskThrownError(error, subschemaConfig, delegationTransforms);
+  };
+
+  const transformResult = (result: ExecutionResult) =>
+    applyResultTransforms(
+      addErrorExtensions(
+        maskErrors(result, subschemaConfig),
+        subschemaConfig,
+        operation,
+        fieldName,
+        processedRequest.document,
+      ),
+      delegationTransforms,
     );
 
-    const executionResult:
-      | ExecutionResult
-      | Promise<ExecutionResult> = executor({
-      document: processedRequest.document,
-      context,
-      variables: processedRequest.variables,
-    });
+  const delegationPlanRecorder = getDelegationPlanRecorder(context);
+
+  if (operation === 'query' || operation === 'mutation') {
+    const executor =
+      delegationPlanRecorder != null
+        ? delegationPlanRecorder.createExecutor(
+            subschemaOrSubschemaConfig,
+            targetSchema,
+            operation,
+            fieldName,
+            info,
+          )
+        : createExecutor(
+            targetSchema,
+            targetRootValue,
+            context,
+            subschemaConfig,
+          );
+
+    let executionResult: ExecutionResult | Promise<ExecutionResult>;
+    try {
+      executionResult = executor({
+        document: processedRequest.document,
+        context,
+        variables: processedRequest.variables,
+      });
+    } catch (error) {
+      transformError(error);
+    }
 
     if (executionResult instanceof Promise) {
-      return executionResult.then((originalResult: any) =>
-        applyResultTransforms(originalResult, delegationTransforms),
+      return executionResult.then(
+        (originalResult: any) => transformResult(originalResult),
+        transformError,
       );
     }
-    return applyResultTransforms(executionResult, delegationTransforms);
+    return transformResult(executionResult);
   }
 
-  const subscriber = createSubscriber(
-    targetSchema,
-    targetRootValue,
-    context,
-    subschemaConfig,
-  );
+  const subscriber =
+    delegationPlanRecorder != null
+      ? delegationPlanRecorder.createSubscriber(
+          subschemaOrSubschemaConfig,
+          targetSchema,
+          fieldName,
+          info,
+        )
+      : createSubscriber(
+          targetSchema,
+          targetRootValue,
+          context,
+          subschemaConfig,
+        );
 
-  return subscriber({
-    document: processedRequest.document,
-    context,
-    variables: processedRequest.variables,
-  }).then(
+  return Promise.resolve(
+    subscriber({
+      document: processedRequest.document,
+      context,
+      variables: processedRequest.variables,
+    }),
+  ).then(
     (
       subscriptionResult:
         | AsyncIterableIterator<ExecutionResult>
@@ -240,10 +293,14 @@ export function delegateRequest({
         return mapAsyncIterator<ExecutionResult, any>(
           subscriptionResult,
           (result) => {
-            const transformedResult = applyResultTransforms(
-              result,
-              delegationTransforms,
-            );
+            let transformedResult: any;
+            try {
+              transformedResult = transformResult(result);
+            } catch (error) {
+              // an error within a single event is returned as the payload, so
+              // that it is reported for that event without closing the stream
+              transformedResult = error;
+            }
             // wrap with fieldName to return for an additional round of resolutioon
             // with payload as rootValue
             return {
@@ -253,20 +310,143 @@ export function delegateRequest({
         );
       }
 
-      return applyResultTransforms(subscriptionResult, delegationTransforms);
+      return transformResult(subscriptionResult);
     },
+    transformError,
   );
 }
 
+// errors thrown instead of being returned within results, e.g. when the
+// executor rejects, are masked by the error policy and transforms as well
+function maskThrownError(
+  error: Error,
+  subschemaConfig: SubschemaConfig,
+  transforms: Array<Transform>,
+): Error {
+  let maskedError = error;
+  const errorPolicy =
+    subschemaConfig != null ? subschemaConfig.errorPolicy : undefined;
+  if (errorPolicy != null) {
+    maskedError = new MaskErrors(errorPolicy, subschemaConfig.name).maskError(
+      maskedError,
+    );
+  }
+
+  transforms.forEach((transform) => {
+    if (transform instanceof MaskErrors) {
+      maskedError = transform.maskError(maskedError);
+    }
+  });
+
+  return maskedError;
+}
+
+// errors are masked before adding extensions, which may then be relied upon
+function maskErrors(
+  result: ExecutionResult,
+  subschemaConfig: SubschemaConfig,
+): ExecutionResult {
+  if (subschemaConfig == null || subschemaConfig.errorPolicy == null) {
+    return result;
+  }
+
+  return new MaskErrors(
+    subschemaConfig.errorPolicy,
+    subschemaConfig.name,
+  ).transformResult(result);
+}
+
+function addErrorExtensions(
+  result: ExecutionResult,
+  subschemaConfig: SubschemaConfig,
+  operation: Operation,
+  fieldName: string,
+  document: DocumentNode,
+): ExecutionResult {
+  if (subschemaConfig == null || result.errors == null) {
+    return result;
+  }
+
+  const { name: subschema, errorExtensions } = subschemaConfig;
+  if (!errorExtensions) {
+    return result;
+  }
+
+  // the name of the operation sent to the subschema, not of the original one
+  const operationDefinition = getOperationAST(document, undefined);
+  const operationName =
+    operationDefinition.name != null
+      ? operationDefinition.name.value
+      : undefined;
+
+  return {
+    ...result,
+    errors: result.errors.map((error) => {
+      const extensions =
+        typeof errorExtensions === 'function'
+          ? errorExtensions({
+              error,
+              subschema,
+              operation,
+              operationName,
+              fieldName,
+              path: error.path,
+            })
+          : { subschema, operationName, originalPath: error.path };
+
+      return new GraphQLError(
+        error.message,
+        error.nodes,
+        error.source,
+        error.positions,
+        error.path,
+        error.originalError,
+        { ...error.extensions, ...extensions },
+      );
+    }),
+  };
+}
+
 function createExecutor(
   schema: GraphQLSchema,
   rootValue: Record<string, any>,
   context: Record<string, any>,
   subschemaConfig?: SubschemaConfig,
+): Delegator {
+  const executor = createDefaultExecutor(
+    schema,
+    rootValue,
+    context,
+    subschemaConfig,
+  );
+
+  if (subschemaConfig != null) {
+    const resilientExecutor = getResilientExecutor(
+      subschemaConfig,
+      getPersistedQueryExecutor(subschemaConfig, executor),
+    );
+    if (subschemaConfig.batch) {
+      return getBatchingExecutor(context, subschemaConfig, resilientExecutor);
+    }
+    return resilientExecutor;
+  }
+
+  return executor;
+}
+
+function createDefaultExecutor(
+  schema: GraphQLSchema,
+  rootValue: Record<string, any>,
+  context: Record<string, any>,
+  subschemaConfig?: SubschemaConfig,
 ): Delegator {
   let fetcher: Fetcher;
   let targetRootValue: Record<string, any> = rootValue;
   if (subschemaConfig != null) {
+    if (subschemaConfig.executor != null) {
+      return subschemaConfig.executor;
+    }
+
     if (subschemaConfig.dispatcher != null) {
       const dynamicLinkOrFetcher = subschemaConfig.dispatcher(context);
       fetcher =
@@ -285,11 +465,12 @@ function createExecutor(
   }
 
   if (fetcher != null) {
-    return ({ document, context: graphqlContext, variables }) =>
+    return ({ document, context: graphqlContext, variables, extensions }) =>
       fetcher({
         query: document,
         variables,
         context: { graphqlContext },
+        extensions,
       });
   }
 
@@ -313,6 +494,10 @@ function createSubscriber(
   let targetRootValue: Record<string, any> = rootValue;
 
   if (subschemaConfig != null) {
+    if (subschemaConfig.subscriber != null) {
+      return subschemaConfig.subscriber;
+    }
+
     if (subschemaConfig.dispatcher != null) {
       link = subschemaConfig.dispatcher(context) as ApolloLink;
     } else if (subschemaConfig.link != null) {
@@ -0,0 +1,479 @@
+import { createAsyncIterator, isAsyncIterable } from 'iterall';
+import {
+  DocumentNode,
+  ExecutionResult,
+  FragmentDefinitionNode,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  execute,
+  getNullableType,
+  isAbstractType,
+  isEnumType,
+  isListType,
+  isObjectType,
+  isScalarType,
+  print,
+  responsePathAsArray,
+  subscribe,
+  validate,
+  GraphQLNamedType,
+} from 'graphql';
+
+import {
+  Delegator,
+  DelegationPlanNode,
+  IGraphQLToolsResolveInfo,
+  Operation,
+  SubschemaConfig,
+  isSubschemaConfig,
+} from '../Interfaces';
+import implementsAbstractType from '../utils/implementsAbstractType';
+import { combineErrors } from '../stitch/errors';
+
+const recorders: WeakMap<
+  Record<string, any>,
+  DelegationPlanRecorder
+> = new WeakMap();
+
+export class DelegationPlanRecorder {
+  public readonly nodes: Array<DelegationPlanNode> = [];
+  public readonly providedKeys: WeakMap<
+    DelegationPlanNode,
+    Array<string>
+  > = new WeakMap();
+
+  public createExecutor(
+    subschema: GraphQLSchema | SubschemaConfig,
+    targetSchema: GraphQLSchema,
+    operation: Operation,
+    fieldName: string,
+    info: IGraphQLToolsResolveInfo,
+  ): Delegator {
+    return ({ document, variables }) => {
+      const result = createPlaceholderResult(targetSchema, document);
+      this.record(
+        subschema,
+        operation,
+        fieldName,
+        info,
+        document,
+        variables,
+        result,
+      );
+      return result;
+    };
+  }
+
+  public createSubscriber(
+    subschema: GraphQLSchema | SubschemaConfig,
+    targetSchema: GraphQLSchema,
+    fieldName: string,
+    info: IGraphQLToolsResolveInfo,
+  ): Delegator {
+    return ({ document, variables }) => {
+      const result = createPlaceholderResult(targetSchema, document);
+      this.record(
+        subschema,
+        'subscription',
+        fieldName,
+        info,
+        document,
+        variables,
+        result,
+      );
+      return Promise.resolve(createAsyncIterator([result]));
+    };
+  }
+
+  private record(
+    subschema: GraphQLSchema | SubschemaConfig,
+    operation: Operation,
+    fieldName: string,
+    info: IGraphQLToolsResolveInfo,
+    document: DocumentNode,
+    variables: Record<string, any>,
+    result: ExecutionResult,
+  ) {
+    const node: DelegationPlanNode = {
+      subschemaName: isSubschemaConfig(subschema) ? subschema.name : undefined,
+      operation,
+      fieldName,
+      path: responsePathAsArray(info.path),
+      document: print(document),
+      variables: variables != null ? variables : {},
+      children: [],
+    };
+    this.nodes.push(node);
+    this.providedKeys.set(node, getProvidedKeys(result));
+  }
+}
+
+export function getDelegationPlanRecorder(
+  context: Record<string, any>,
+): DelegationPlanRecorder {
+  return context != null ? recorders.get(context) : undefined;
+}
+
+/**
+ * Simulates execution of the given operation against a stitched or wrapped
+ * schema, returning the tree of requests that would be sent to each
+ * subschema. Subschemas are never called; each delegated request receives
+ * placeholder data shaped by its selection set, so that merged types and
+ * nested delegations can be planned.
+ *
+ * The resolvers of the schema itself are executed, so mutations are refused.
+ * The returned promise is rejected with the validation errors of the
+ * operation, or with the errors of its simulated execution.
+ *
+ * As placeholder data is not actual data, the plan is an approximation: each
+ * list holds a single item, so that requests made for each item of a list
+ * are only listed once, and each value of an abstract type is of its first
+ * possible type, so that requests made for other possible types are omitted.
+ *
+ * @category Schema Delegation
+ */
+export function explainOperation(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables?: Record<string, any>,
+  operationName?: string,
+  context: Record<string, any> = {},
+): Promise<Array<DelegationPlanNode>> {
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) {
+    return Promise.reject(combineErrors(validationErrors));
+  }
+
+  const operation = getOperationDefinition(document, operationName);
+  if (operation != null && operation.operation === 'mutation') {
+    return Promise.reject(
+      new Error(
+        'Mutations cannot be explained, as the resolvers of the schema are executed.',
+      ),
+    );
+  }
+
+  const recorder = new DelegationPlanRecorder();
+  const contextValue = { ...context };
+  recorders.set(contextValue, recorder);
+
+  const executionOptions = {
+    schema,
+    document,
+    contextValue,
+    variableValues: variables,
+    operationName,
+  };
+
+  let result: Promise<ExecutionResult>;
+  if (operation != null && operation.operation === 'subscription') {
+    result = Promise.resolve(subscribe(executionOptions)).then(
+      (subscriptionResult): Promise<ExecutionResult> | ExecutionResult => {
+        if (isAsyncIterable(subscriptionResult)) {
+          const iterator = subscriptionResult as AsyncIterator<ExecutionResult>;
+          return iterator
+            .next()
+            .then((event) =>
+              Promise.resolve(iterator.return()).then(() => event.value),
+            );
+        }
+        return subscriptionResult;
+      },
+    );
+  } else {
+    result = Promise.resolve(execute(executionOptions));
+  }
+
+  return result.then((executionResult) => {
+    if (executionResult.errors != null && executionResult.errors.length > 0) {
+      throw combineErrors(executionResult.errors);
+    }
+    return buildDelegationPlanTree(recorder);
+  });
+}
+
+/**
+ * Prints a delegation plan as returned by `explainOperation` as indented
+ * text, suitable for logging or snapshot tests.
+ *
+ * @category Schema Delegation
+ */
+export function printDelegationPlan(plan: Array<DelegationPlanNode>): string {
+  return plan.map((node) => printDelegationPlanNode(node, '')).join('\n');
+}
+
+function printDelegationPlanNode(
+  node: DelegationPlanNode,
+  indent: string,
+): string {
+  const subschemaName =
+    node.subschemaName != null ? node.subschemaName : '<unnamed>';
+  const lines = [
+    `${indent}${node.path.join('.')}: ${node.operation}.${
+      node.fieldName
+    } -> ${subschemaName}`,
+  ];
+
+  node.document
+    .trim()
+    .split('\n')
+    .forEach((line) => {
+      lines.push(`${indent}  ${line}`);
+    });
+
+  if (Object.keys(node.variables).length) {
+    lines.push(`${indent}  variables: ${JSON.stringify(node.variables)}`);
+  }
+
+  node.children.forEach((child) => {
+    lines.push(printDelegationPlanNode(child, `${indent}  `));
+  });
+
+  return lines.join('\n');
+}
+
+// Delegated requests issued while resolving the result of an earlier request
+// are nested under that request. Requests are matched by their path within
+// the gateway response: the parent is the request with the longest path that
+// prefixes the path of the child and that supplied the next field along that
+// path. Requests that merge additional fields into a result share its path,
+// and are nested under the earliest request with that path.
+function buildDelegationPlanTree(
+  recorder: DelegationPlanRecorder,
+): Array<DelegationPlanNode> {
+  const { nodes, providedKeys } = recorder;
+  const roots: Array<DelegationPlanNode> = [];
+
+  nodes.forEach((node, index) => {
+    let parent: DelegationPlanNode;
+    for (let i = 0; i < index; i++) {
+      const candidate = nodes[i];
+      if (
+        isPathPrefix(candidate.path, node.path) &&
+        (parent == null || candidate.path.length > parent.path.length) &&
+        (candidate.path.length === node.path.length ||
+          providedKeys
+            .get(candidate)
+            .includes(String(node.path[candidate.path.length])))
+      ) {
+        parent = candidate;
+      }
+    }
+
+    if (parent != null) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+function getProvidedKeys(result: ExecutionResult): Array<string> {
+  const responseKeys = Object.keys(result.data);
+  let value = responseKeys.length ? result.data[responseKeys[0]] : undefined;
+  while (Array.isArray(value)) {
+    value = value[0];
+  }
+  return value != null && typeof value === 'object' ? Object.keys(value) : [];
+}
+
+function isPathPrefix(
+  prefix: ReadonlyArray<string | number>,
+  path: ReadonlyArray<string | number>,
+): boolean {
+  if (prefix.length > path.length) {
+    return false;
+  }
+  return prefix.every((segment, index) => segment === path[index]);
+}
+
+/**
+ * Creates placeholder data of the given type, shaped by the given selection
+ * set, as used when planning delegated requests.
+ */
+export function createPlaceholderData(
+  schema: GraphQLSchema,
+  type: GraphQLOutputType,
+  selectionSet: SelectionSetNode,
+): any {
+  return createPlaceholderValue(
+    schema,
+    type,
+    selectionSet,
+    Object.create(null),
+  );
+}
+
+function getOperationDefinition(
+  document: DocumentNode,
+  operationName?: string,
+): OperationDefinitionNode {
+  return document.definitions.find(
+    (def) =>
+      def.kind === Kind.OPERATION_DEFINITION &&
+      (operationName == null ||
+        (def.name != null && def.name.value === operationName)),
+  ) as OperationDefinitionNode;
+}
+
+function createPlaceholderResult(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+): ExecutionResult {
+  const operation = getOperationDefinition(document);
+  const fragments: Record<string, FragmentDefinitionNode> = Object.create(null);
+  document.definitions.forEach((def) => {
+    if (def.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[def.name.value] = def;
+    }
+  });
+
+  const rootType =
+    operation.operation === 'subscription'
+      ? schema.getSubscriptionType()
+      : operation.operation === 'mutation'
+      ? schema.getMutationType()
+      : schema.getQueryType();
+
+  return {
+    data: createPlaceholderObject(
+      schema,
+      rootType,
+      operation.selectionSet,
+      fragments,
+    ),
+  };
+}
+
+function createPlaceholderObject(
+  schema: GraphQLSchema,
+  type: GraphQLObjectType,
+  selectionSet: SelectionSetNode,
+  fragments: Record<string, FragmentDefinitionNode>,
+  result: Record<string, any> = {},
+): Record<string, any> {
+  selectionSet.selections.forEach((selection) => {
+    if (selection.kind === Kind.FIELD) {
+      const responseKey =
+        selection.alias != null ? selection.alias.value : selection.name.value;
+      if (selection.name.value === '__typename') {
+        result[responseKey] = type.name;
+        return;
+      }
+
+      const field = type.getFields()[selection.name.value];
+      if (field != null) {
+        result[responseKey] = createPlaceholderValue(
+          schema,
+          field.type,
+          selection.selectionSet,
+          fragments,
+        );
+      }
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      if (
+        selection.typeCondition == null ||
+        typeMatchesCondition(schema, type, selection.typeCondition.name.value)
+      ) {
+        createPlaceholderObject(
+          schema,
+          type,
+          selection.selectionSet,
+          fragments,
+          result,
+        );
+      }
+    } else {
+      const fragment = fragments[selection.name.value];
+      if (
+        fragment != null &&
+        typeMatchesCondition(schema, type, fragment.typeCondition.name.value)
+      ) {
+        createPlaceholderObject(
+          schema,
+          type,
+          fragment.selectionSet,
+          fragments,
+          result,
+        );
+      }
+    }
+  });
+
+  return result;
+}
+
+function typeMatchesCondition(
+  schema: GraphQLSchema,
+  type: GraphQLObjectType,
+  typeName: string,
+): boolean {
+  const conditionType = schema.getType(typeName);
+  return (
+    conditionType != null && implementsAbstractType(schema, type, conditionType)
+  );
+}
+
+function createPlaceholderValue(
+  schema: GraphQLSchema,
+  type: GraphQLOutputType,
+  selectionSet: SelectionSetNode,
+  fragments: Record<string, FragmentDefinitionNode>,
+): any {
+  const nullableType = getNullableType(type);
+
+  if (isListType(nullableType)) {
+    return [
+      createPlaceholderValue(
+        schema,
+        nullableType.ofType,
+        selectionSet,
+        fragments,
+      ),
+    ];
+  } else if (isObjectType(nullableType)) {
+    return createPlaceholderObject(
+      schema,
+      nullableType,
+      selectionSet,
+      fragments,
+    );
+  } else if (isAbstractType(nullableType)) {
+    const possibleTypes = schema.getPossibleTypes(nullableType);
+    return possibleTypes.length
+      ? createPlaceholderObject(
+          schema,
+          possibleTypes[0],
+          selectionSet,
+          fragments,
+        )
+      : null;
+  } else if (isEnumType(nullableType)) {
+    const values = nullableType.getValues();
+    return values.length ? values[0].name : null;
+  }
+
+  return createPlaceholderScalar(nullableType as GraphQLNamedType);
+}
+
+function createPlaceholderScalar(type: GraphQLNamedType): any {
+  if (isScalarType(type)) {
+    switch (type.name) {
+      case 'ID':
+      case 'String':
+        return '';
+      case 'Int':
+      case 'Float':
+        return 0;
+      case 'Boolean':
+        return false;
+    }
+  }
+  return null;
+}
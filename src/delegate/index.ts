@@ -201,11 +201,24 @@
  */
 
 import delegateToSchema, { delegateRequest } from './delegateToSchema';
+import batchDelegateToSchema from './batchDelegateToSchema';
 import { createRequestFromInfo, createRequest } from './createRequest';
+import { explainOperation, printDelegationPlan } from './explainOperation';
+import { createWorkerExecutor } from './createWorkerExecutor';
+import {
+  createPersistedQueries,
+  getPersistedQueryHash,
+} from './persistedQueries';
 
 export {
   delegateToSchema,
+  batchDelegateToSchema,
   createRequestFromInfo,
   createRequest,
   delegateRequest,
+  explainOperation,
+  printDelegationPlan,
+  createWorkerExecutor,
+  createPersistedQueries,
+  getPersistedQueryHash,
 };
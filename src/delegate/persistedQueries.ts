@@ -0,0 +1,205 @@
+/* eslint-disable import/no-nodejs-modules */
+
+import { createHash } from 'crypto';
+
+import {
+  DocumentNode,
+  ExecutionResult,
+  GraphQLError,
+  GraphQLSchema,
+  execute,
+  parse,
+  print,
+  validate,
+} from 'graphql';
+
+import {
+  Delegator,
+  PersistedQueries,
+  PersistedQueryRequest,
+  SubschemaConfig,
+} from '../Interfaces';
+
+const PERSISTED_QUERY_NOT_FOUND_MESSAGE = 'PersistedQueryNotFound';
+const PERSISTED_QUERY_NOT_FOUND_CODE = 'PERSISTED_QUERY_NOT_FOUND';
+
+const hashes: WeakMap<DocumentNode, string> = new WeakMap();
+
+/**
+ * Returns the SHA-256 hash of the printed document, so that documents
+ * differing only by formatting have the same hash.
+ *
+ * @category Schema Delegation
+ */
+export function getPersistedQueryHash(document: DocumentNode): string {
+  let hash = hashes.get(document);
+  if (hash == null) {
+    hash = createHash('sha256').update(print(document)).digest('hex');
+    hashes.set(document, hash);
+  }
+  return hash;
+}
+
+/**
+ * Validates the given operation documents against the schema, which may be a
+ * stitched schema, returning persisted queries executing only these
+ * operations, identified by their hashes as returned by
+ * `getPersistedQueryHash`.
+ *
+ * Requests may identify operations either by `hash`, by the `sha256Hash`
+ * of the `persistedQuery` extension, as sent by Apollo Client, or by the
+ * operation itself. Other operations are rejected with an error with the
+ * `PERSISTED_QUERY_NOT_FOUND` code. The `executor` of the persisted queries
+ * applies the same rules, and so can be set as the executor of a subschema
+ * to only accept known operations, e.g. those listed by `explainOperation`.
+ *
+ * @category Schema Delegation
+ */
+export function createPersistedQueries(
+  schema: GraphQLSchema,
+  documents: Array<string | DocumentNode>,
+): PersistedQueries {
+  const persistedDocuments: Record<string, DocumentNode> = Object.create(null);
+  documents.forEach((documentOrQuery) => {
+    const document =
+      typeof documentOrQuery === 'string'
+        ? parse(documentOrQuery)
+        : documentOrQuery;
+
+    const errors = validate(schema, document);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid persisted operation:\n${errors
+          .map((error) => error.message)
+          .join('\n')}`,
+      );
+    }
+
+    persistedDocuments[getPersistedQueryHash(document)] = document;
+  });
+
+  const getDocument = (hash: string): DocumentNode => persistedDocuments[hash];
+
+  const executePersistedQuery = (
+    request: PersistedQueryRequest,
+  ): Promise<ExecutionResult> =>
+    new Promise<DocumentNode>((resolve) =>
+      resolve(getDocument(getRequestHash(request))),
+    ).then(
+      (document) => {
+        if (document == null) {
+          return {
+            errors: [
+              new GraphQLError(
+                PERSISTED_QUERY_NOT_FOUND_MESSAGE,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                { code: PERSISTED_QUERY_NOT_FOUND_CODE },
+              ),
+            ],
+          };
+        }
+
+        return execute({
+          schema,
+          document,
+          rootValue: request.rootValue,
+          contextValue: request.context,
+          variableValues: request.variables,
+          operationName: request.operationName,
+        });
+      },
+      (error) => {
+        // syntax errors of queries are reported within the result
+        if (error instanceof GraphQLError) {
+          return { errors: [error] };
+        }
+        throw error;
+      },
+    );
+
+  return {
+    hashes: Object.keys(persistedDocuments),
+    getDocument,
+    execute: executePersistedQuery,
+    executor: ({ document, variables, context, extensions }) =>
+      executePersistedQuery({
+        query: document,
+        variables,
+        context,
+        extensions,
+      }),
+  };
+}
+
+function getRequestHash({
+  hash,
+  extensions = {},
+  query,
+}: PersistedQueryRequest): string {
+  if (hash != null) {
+    return hash;
+  }
+
+  if (extensions.persistedQuery != null) {
+    return extensions.persistedQuery.sha256Hash;
+  }
+
+  if (query != null) {
+    return getPersistedQueryHash(
+      typeof query === 'string' ? parse(query) : query,
+    );
+  }
+}
+
+// the hash of each delegated document is forwarded to subschemas supporting
+// persisted queries within the `persistedQuery` extension, alone first for
+// subschemas supporting automatic persisted queries, and then along with the
+// document if the subschema does not know the hash
+export function getPersistedQueryExecutor(
+  subschemaConfig: SubschemaConfig,
+  executor: Delegator,
+): Delegator {
+  if (!subschemaConfig.persistedQueries) {
+    return executor;
+  }
+
+  return (params) => {
+    const extensions = {
+      ...params.extensions,
+      persistedQuery: {
+        version: 1,
+        sha256Hash: getPersistedQueryHash(params.document),
+      },
+    };
+
+    if (subschemaConfig.persistedQueries !== 'automatic') {
+      return executor({ ...params, extensions });
+    }
+
+    return Promise.resolve(
+      executor({ ...params, document: undefined, extensions }),
+    ).then((result) =>
+      isPersistedQueryNotFound(result)
+        ? executor({ ...params, extensions })
+        : result,
+    );
+  };
+}
+
+function isPersistedQueryNotFound(result: ExecutionResult): boolean {
+  if (result.errors == null) {
+    return false;
+  }
+
+  return result.errors.some((error) => {
+    const code = error.extensions != null ? error.extensions.code : undefined;
+    return (
+      error.message === PERSISTED_QUERY_NOT_FOUND_MESSAGE ||
+      code === PERSISTED_QUERY_NOT_FOUND_CODE
+    );
+  });
+}
@@ -0,0 +1,233 @@
+import { ExecutionResult, GraphQLError, Kind } from 'graphql';
+
+import {
+  Delegator,
+  SubschemaCircuitBreakerOptions,
+  SubschemaConfig,
+} from '../Interfaces';
+
+type ExecutionParams = Parameters<Delegator>[0];
+
+interface CircuitState {
+  failures: number;
+  openedAt: number;
+  trialPending: boolean;
+}
+
+const circuits: WeakMap<SubschemaConfig, CircuitState> = new WeakMap();
+
+/**
+ * Returns an executor applying the timeout, retry and circuit breaker options
+ * of the given subschema to requests sent by the given executor. Timeouts and
+ * requests refused by an open circuit are returned as results with errors,
+ * so that only the fields delegated to the subschema fail.
+ */
+export function getResilientExecutor(
+  subschemaConfig: SubschemaConfig,
+  executor: Delegator,
+): Delegator {
+  const { timeout, retry, circuitBreaker } = subschemaConfig;
+  if (timeout == null && retry == null && circuitBreaker == null) {
+    return executor;
+  }
+
+  const {
+    attempts: retries,
+    delay: retryDelay = 100,
+    maxDelay: maxRetryDelay = 1000,
+  } = retry != null ? retry : { attempts: 0 };
+
+  const executeWithRetries = (
+    params: ExecutionParams,
+    attempt: number,
+    requestTimeout: number,
+  ): Promise<ExecutionResult> =>
+    executeWithTimeout(executor, params, subschemaConfig, requestTimeout).catch(
+      (error) => {
+        if (attempt >= retries || !isQuery(params)) {
+          throw error;
+        }
+
+        const delay = Math.min(retryDelay * 2 ** attempt, maxRetryDelay);
+        return new Promise((resolve) => setTimeout(resolve, delay)).then(() =>
+          executeWithRetries(params, attempt + 1, requestTimeout),
+        );
+      },
+    );
+
+  return (params) => {
+    const circuit = getCircuitState(subschemaConfig);
+    if (circuitBreaker != null && !allowRequest(circuit, circuitBreaker)) {
+      return {
+        errors: [
+          createUnavailableError(subschemaConfig, circuit, circuitBreaker),
+        ],
+      };
+    }
+
+    // the trial request of a half-open circuit times out after the reset
+    // timeout if no timeout is set, so that it cannot keep the circuit
+    // half-open forever
+    const isTrial = circuitBreaker != null && circuit.trialPending;
+    const requestTimeout =
+      isTrial && timeout == null ? circuitBreaker.resetTimeout : timeout;
+
+    return executeWithRetries(params, 0, requestTimeout).then(
+      (result) => {
+        if (circuitBreaker != null && isFailedResult(result, circuitBreaker)) {
+          recordFailure(circuit, circuitBreaker);
+        } else {
+          circuit.failures = 0;
+          circuit.trialPending = false;
+        }
+        return result;
+      },
+      (error) => {
+        recordFailure(circuit, circuitBreaker);
+
+        if (error instanceof GraphQLError) {
+          return { errors: [error] };
+        }
+        throw error;
+      },
+    );
+  };
+}
+
+function isQuery({ document }: ExecutionParams): boolean {
+  return document.definitions.every(
+    (def) =>
+      def.kind !== Kind.OPERATION_DEFINITION || def.operation === 'query',
+  );
+}
+
+function getCircuitState(subschemaConfig: SubschemaConfig): CircuitState {
+  let circuit = circuits.get(subschemaConfig);
+  if (circuit == null) {
+    circuit = { failures: 0, openedAt: undefined, trialPending: false };
+    circuits.set(subschemaConfig, circuit);
+  }
+  return circuit;
+}
+
+function isFailedResult(
+  result: ExecutionResult,
+  { isFailure }: SubschemaCircuitBreakerOptions,
+): boolean {
+  if (isFailure != null) {
+    return isFailure(result);
+  }
+  return (
+    result.errors != null && result.errors.length > 0 && result.data == null
+  );
+}
+
+function recordFailure(
+  circuit: CircuitState,
+  circuitBreaker: SubschemaCircuitBreakerOptions,
+): void {
+  circuit.failures++;
+  circuit.trialPending = false;
+  if (
+    circuitBreaker != null &&
+    circuit.failures >= circuitBreaker.failureThreshold
+  ) {
+    circuit.openedAt = Date.now();
+  }
+}
+
+// once the reset timeout has elapsed, a single trial request is let through,
+// closing the circuit if successful and opening it again otherwise
+function allowRequest(
+  circuit: CircuitState,
+  { failureThreshold, resetTimeout }: SubschemaCircuitBreakerOptions,
+): boolean {
+  if (circuit.failures < failureThreshold) {
+    return true;
+  }
+
+  if (circuit.trialPending || Date.now() - circuit.openedAt < resetTimeout) {
+    return false;
+  }
+
+  circuit.trialPending = true;
+  return true;
+}
+
+function executeWithTimeout(
+  executor: Delegator,
+  params: ExecutionParams,
+  subschemaConfig: SubschemaConfig,
+  timeout: number,
+): Promise<ExecutionResult> {
+  const result = new Promise<ExecutionResult>((resolve) =>
+    resolve(executor(params)),
+  );
+  if (timeout == null) {
+    return result;
+  }
+
+  let timer: any;
+  const timeoutResult = new Promise<ExecutionResult>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      reject(
+        new GraphQLError(
+          `${describeSubschema(
+            subschemaConfig,
+          )} did not respond within ${String(timeout)}ms.`,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          {
+            code: 'SUBSCHEMA_TIMEOUT',
+            subschema: subschemaConfig.name,
+            timeout,
+          },
+        ),
+      );
+    }, timeout);
+  });
+
+  return Promise.race([result, timeoutResult]).then(
+    (value) => {
+      clearTimeout(timer);
+      return value;
+    },
+    (error) => {
+      clearTimeout(timer);
+      throw error;
+    },
+  );
+}
+
+function createUnavailableError(
+  subschemaConfig: SubschemaConfig,
+  circuit: CircuitState,
+  { resetTimeout }: SubschemaCircuitBreakerOptions,
+): GraphQLError {
+  return new GraphQLError(
+    `${describeSubschema(subschemaConfig)} is unavailable after ${String(
+      circuit.failures,
+    )} consecutive failures.`,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    {
+      code: 'SUBSCHEMA_UNAVAILABLE',
+      subschema: subschemaConfig.name,
+      failures: circuit.failures,
+      unavailableSince: new Date(circuit.openedAt).toISOString(),
+      retryAfter: Math.max(0, circuit.openedAt + resetTimeout - Date.now()),
+    },
+  );
+}
+
+function describeSubschema(subschemaConfig: SubschemaConfig): string {
+  return subschemaConfig.name != null
+    ? `Subschema "${subschemaConfig.name}"`
+    : 'Subschema';
+}
@@ -0,0 +1,155 @@
+/* eslint-disable import/no-nodejs-modules */
+
+// Entry point of the worker started by createWorkerExecutor, executing the
+// operations it receives against the schema exported by the schema module.
+
+import { parentPort, workerData } from 'worker_threads';
+
+import {
+  ExecutionResult,
+  GraphQLSchema,
+  execute,
+  formatError,
+  parse,
+  subscribe,
+} from 'graphql';
+import { isAsyncIterable } from 'iterall';
+
+const { schemaModule, exportName } = workerData;
+
+const schemaPromise: Promise<GraphQLSchema> = Promise.resolve().then(() => {
+  // the schema module is only known at runtime
+  // eslint-disable-next-line global-require, import/no-dynamic-require, @typescript-eslint/no-require-imports
+  const exported = require(schemaModule)[exportName];
+  return typeof exported === 'function' ? exported() : exported;
+});
+
+const subscriptions: Map<number, AsyncIterator<ExecutionResult>> = new Map();
+const pendingSubscriptions: Set<number> = new Set();
+const stoppedSubscriptions: Set<number> = new Set();
+
+parentPort.on('message', (message) => {
+  const { id, type } = message;
+
+  if (type === 'execute') {
+    schemaPromise
+      .then((schema) =>
+        execute({
+          schema,
+          document: parse(message.query),
+          variableValues: message.variables,
+          contextValue: message.context,
+        }),
+      )
+      .then(
+        (result) => {
+          parentPort.postMessage({
+            id,
+            type: 'result',
+            result: serializeResult(result),
+          });
+        },
+        (error) => {
+          postError(id, error);
+        },
+      );
+  } else if (type === 'subscribe') {
+    pendingSubscriptions.add(id);
+    schemaPromise
+      .then((schema) =>
+        subscribe({
+          schema,
+          document: parse(message.query),
+          variableValues: message.variables,
+          contextValue: message.context,
+        }),
+      )
+      .then(
+        (result) => {
+          pendingSubscriptions.delete(id);
+          if (!isAsyncIterable(result)) {
+            stoppedSubscriptions.delete(id);
+            parentPort.postMessage({
+              id,
+              type: 'result',
+              result: serializeResult(result),
+            });
+            return;
+          }
+
+          const iterator = result as AsyncIterator<ExecutionResult>;
+          if (stoppedSubscriptions.delete(id)) {
+            closeIterator(iterator);
+            return;
+          }
+
+          subscriptions.set(id, iterator);
+          parentPort.postMessage({ id, type: 'subscribed' });
+          forwardResults(id, iterator);
+        },
+        (error) => {
+          pendingSubscriptions.delete(id);
+          stoppedSubscriptions.delete(id);
+          postError(id, error);
+        },
+      );
+  } else if (type === 'stop') {
+    const iterator = subscriptions.get(id);
+    if (iterator != null) {
+      subscriptions.delete(id);
+      closeIterator(iterator);
+    } else if (pendingSubscriptions.has(id)) {
+      // the subscription is closed once started, while stops of finished
+      // subscriptions are ignored
+      stoppedSubscriptions.add(id);
+    }
+  }
+});
+
+function forwardResults(id: number, iterator: AsyncIterator<ExecutionResult>) {
+  iterator.next().then(
+    ({ value, done }) => {
+      if (!subscriptions.has(id)) {
+        return;
+      }
+
+      if (done) {
+        subscriptions.delete(id);
+        parentPort.postMessage({ id, type: 'complete' });
+        return;
+      }
+
+      parentPort.postMessage({
+        id,
+        type: 'next',
+        result: serializeResult(value),
+      });
+      forwardResults(id, iterator);
+    },
+    (error) => {
+      subscriptions.delete(id);
+      postError(id, error);
+    },
+  );
+}
+
+function closeIterator(iterator: AsyncIterator<ExecutionResult>) {
+  if (typeof iterator.return === 'function') {
+    iterator.return().catch(() => undefined);
+  }
+}
+
+// errors are sent as they would be received from a remote schema
+function serializeResult(result: ExecutionResult): ExecutionResult {
+  return result.errors != null
+    ? { ...result, errors: result.errors.map(formatError) as any }
+    : result;
+}
+
+function postError(id: number, error: Error) {
+  parentPort.postMessage({
+    id,
+    type: 'error',
+    message: error != null ? error.message : 'Unknown error',
+  });
+}
@@ -0,0 +1,296 @@
+import {
+  DirectiveNode,
+  GraphQLError,
+  GraphQLFieldResolver,
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  defaultFieldResolver,
+  isObjectType,
+  valueFromASTUntyped,
+} from 'graphql';
+
+import {
+  AuthorizationOptions,
+  AuthorizationRule,
+  MapperKind,
+} from '../Interfaces';
+import { filterSchema, mapSchema } from '../utils/index';
+import { toConfig } from '../polyfills/index';
+
+const DEFAULT_DIRECTIVE_NAME = 'auth';
+
+/**
+ * Definition of the `@auth` directive, to be included within the type
+ * definitions of schemas declaring authorization rules in SDL.
+ *
+ * @category Schema Generation
+ */
+export const authDirectiveTypeDefs = `
+  directive @${DEFAULT_DIRECTIVE_NAME}(requires: [String!]) on OBJECT | FIELD_DEFINITION
+`;
+
+/**
+ * Returns a copy of the schema whose resolvers check the authorization rules
+ * of the resolved field and of its parent type before resolving the field.
+ *
+ * Rules are declared within the `rules` map, or by the `@auth` directive in
+ * SDL, `@auth(requires: ["ADMIN"])` requiring one of the given roles, as
+ * returned by `getRoles`, and `@auth` requiring any authenticated user. All
+ * rules applying to a field must be satisfied. Unauthenticated users receive
+ * errors with the `UNAUTHENTICATED` code, and users failing a rule errors with
+ * the `FORBIDDEN` code.
+ *
+ * @category Schema Generation
+ */
+export function addAuthorizationToSchema<TContext = any>(
+  schema: GraphQLSchema,
+  options: AuthorizationOptions<TContext> = {},
+): GraphQLSchema {
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_TYPE]: (type: GraphQLObjectType) => {
+      const config = toConfig(type);
+      const authorizedFieldNames = Object.keys(config.fields).filter(
+        (fieldName) => getFieldRules(type, fieldName, options).length > 0,
+      );
+      if (authorizedFieldNames.length === 0) {
+        return undefined;
+      }
+
+      authorizedFieldNames.forEach((fieldName) => {
+        const rules = getFieldRules(type, fieldName, options);
+        const coordinate = `${type.name}.${fieldName}`;
+        const fieldConfig = config.fields[fieldName];
+        fieldConfig.resolve = createAuthorizedResolver(
+          fieldConfig.resolve != null
+            ? fieldConfig.resolve
+            : defaultFieldResolver,
+          rules,
+          coordinate,
+          options,
+        );
+        if (fieldConfig.subscribe != null) {
+          fieldConfig.subscribe = createAuthorizedResolver(
+            fieldConfig.subscribe,
+            rules,
+            coordinate,
+            options,
+          );
+        }
+      });
+
+      return new GraphQLObjectType(config);
+    },
+  });
+}
+
+/**
+ * Returns a copy of the schema without the object types and fields that users
+ * with the given roles are not authorized to access, e.g. for introspection.
+ * Unauthenticated users are represented by `null` roles. Only rules requiring
+ * roles are applied, as predicates may depend on the parent and arguments of
+ * a field. Fields of interfaces are removed when they are removed from any
+ * of the object types implementing the interface.
+ *
+ * @category Schema Generation
+ */
+export function filterSchemaByRoles(
+  schema: GraphQLSchema,
+  roles: Array<string>,
+  options: AuthorizationOptions = {},
+): GraphQLSchema {
+  const isAuthorized = (rules: Array<AuthorizationRule>) =>
+    rules.every(
+      (rule) =>
+        typeof rule === 'function' ||
+        (roles != null &&
+          (rule.requires.length === 0 ||
+            rule.requires.some((role) => roles.includes(role)))),
+    );
+
+  const rootTypes: Record<string, GraphQLObjectType> = {
+    Query: schema.getQueryType(),
+    Mutation: schema.getMutationType(),
+    Subscription: schema.getSubscriptionType(),
+  };
+
+  const isFieldAuthorized = (type: GraphQLObjectType, fieldName: string) =>
+    isAuthorized(getFieldRules(type, fieldName, options));
+
+  return filterSchema({
+    schema,
+    rootFieldFilter: (operation, fieldName) =>
+      isFieldAuthorized(rootTypes[operation], fieldName),
+    typeFilter: (_typeName, type) =>
+      !isObjectType(type) || isAuthorized(getTypeRules(type, options)),
+    fieldFilter: (typeName, fieldName) =>
+      isFieldAuthorized(
+        schema.getType(typeName) as GraphQLObjectType,
+        fieldName,
+      ),
+    interfaceFieldFilter: (typeName, fieldName) =>
+      schema
+        .getPossibleTypes(schema.getType(typeName) as GraphQLInterfaceType)
+        .every(
+          (type) =>
+            !isAuthorized(getTypeRules(type, options)) ||
+            isFieldAuthorized(type, fieldName),
+        ),
+  });
+}
+
+function createAuthorizedResolver<TContext>(
+  resolve: GraphQLFieldResolver<any, TContext>,
+  rules: Array<AuthorizationRule<TContext>>,
+  coordinate: string,
+  { getRoles }: AuthorizationOptions<TContext>,
+): GraphQLFieldResolver<any, TContext> {
+  if (getRoles == null && rules.some((rule) => typeof rule !== 'function')) {
+    throw new Error(
+      `Authorization rules for "${coordinate}" require roles, but no getRoles function was provided.`,
+    );
+  }
+
+  return (parent, args, context, info) => {
+    const results = rules.map((rule) =>
+      typeof rule === 'function'
+        ? rule(context, args, parent, info)
+        : hasRequiredRoles(rule.requires, getRoles(context), coordinate),
+    );
+
+    if (results.some((result) => result instanceof Promise)) {
+      return Promise.all(results).then((authorized) => {
+        assertAuthorized(authorized, coordinate);
+        return resolve(parent, args, context, info);
+      });
+    }
+
+    assertAuthorized(results as Array<boolean>, coordinate);
+    return resolve(parent, args, context, info);
+  };
+}
+
+function hasRequiredRoles(
+  requires: Array<string>,
+  roles: Array<string>,
+  coordinate: string,
+): boolean {
+  if (roles == null) {
+    throw createAuthorizationError(
+      `You must be authenticated to access "${coordinate}".`,
+      'UNAUTHENTICATED',
+    );
+  }
+
+  return requires.length === 0 || requires.some((role) => roles.includes(role));
+}
+
+function assertAuthorized(authorized: Array<boolean>, coordinate: string) {
+  if (!authorized.every(Boolean)) {
+    throw createAuthorizationError(
+      `You are not authorized to access "${coordinate}".`,
+      'FORBIDDEN',
+    );
+  }
+}
+
+function createAuthorizationError(message: string, code: string) {
+  return new GraphQLError(
+    message,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    { code },
+  );
+}
+
+function getFieldRules<TContext>(
+  type: GraphQLObjectType,
+  fieldName: string,
+  options: AuthorizationOptions<TContext>,
+): Array<AuthorizationRule<TContext>> {
+  const rules = getTypeRules(type, options);
+
+  const field = type.getFields()[fieldName];
+  const directiveRule =
+    field != null ? getDirectiveRule([field.astNode], options) : undefined;
+  if (directiveRule != null) {
+    rules.push(directiveRule);
+  }
+
+  const typeRules = options.rules != null ? options.rules[type.name] : null;
+  if (typeRules != null && !isRule(typeRules) && typeRules[fieldName] != null) {
+    rules.push(typeRules[fieldName]);
+  }
+
+  return rules;
+}
+
+function getTypeRules<TContext>(
+  type: GraphQLObjectType,
+  options: AuthorizationOptions<TContext>,
+): Array<AuthorizationRule<TContext>> {
+  const rules: Array<AuthorizationRule<TContext>> = [];
+
+  const directiveRule = getDirectiveRule(
+    type.extensionASTNodes != null
+      ? [type.astNode, ...type.extensionASTNodes]
+      : [type.astNode],
+    options,
+  );
+  if (directiveRule != null) {
+    rules.push(directiveRule);
+  }
+
+  const typeRules = options.rules != null ? options.rules[type.name] : null;
+  if (typeRules != null && isRule(typeRules)) {
+    rules.push(typeRules);
+  }
+
+  return rules;
+}
+
+function isRule(
+  value: AuthorizationRule | Record<string, AuthorizationRule>,
+): value is AuthorizationRule {
+  return (
+    typeof value === 'function' ||
+    Array.isArray((value as { requires: Array<string> }).requires)
+  );
+}
+
+function getDirectiveRule(
+  nodes: ReadonlyArray<{ directives?: ReadonlyArray<DirectiveNode> }>,
+  { directiveName = DEFAULT_DIRECTIVE_NAME }: AuthorizationOptions,
+): AuthorizationRule {
+  let rule: AuthorizationRule;
+  nodes.forEach((node) => {
+    if (node == null || node.directives == null) {
+      return;
+    }
+
+    node.directives.forEach((directive) => {
+      if (directive.name.value !== directiveName) {
+        return;
+      }
+
+      const requiresArg =
+        directive.arguments != null
+          ? directive.arguments.find((arg) => arg.name.value === 'requires')
+          : undefined;
+      const requires =
+        requiresArg != null ? valueFromASTUntyped(requiresArg.value) : null;
+      rule = {
+        requires:
+          requires == null
+            ? []
+            : Array.isArray(requires)
+            ? requires
+            : [requires],
+      };
+    });
+  });
+  return rule;
+}
@@ -862,6 +862,11 @@ import assertResolversPresent from './assertResolversPresent';
 export { addResolversToSchema, addSchemaLevelResolver, assertResolversPresent };
 
 export { default as attachDirectiveResolvers } from './attachDirectiveResolvers';
+export {
+  addAuthorizationToSchema,
+  filterSchemaByRoles,
+  authDirectiveTypeDefs,
+} from './authorization';
 export { default as attachConnectorsToContext } from './attachConnectorsToContext';
 export { default as buildSchemaFromTypeDefinitions } from './buildSchemaFromTypeDefinitions';
 export { chainResolvers } from './chainResolvers';
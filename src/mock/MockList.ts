@@ -0,0 +1,73 @@
+import {
+  GraphQLFieldResolver,
+  GraphQLList,
+  GraphQLResolveInfo,
+  getNullableType,
+} from 'graphql';
+
+import { IMockTypeFn } from '../Interfaces';
+
+import { getRandomInt } from './random';
+
+export class MockList {
+  private readonly len: number | Array<number>;
+  private readonly wrappedFunction: GraphQLFieldResolver<any, any> | undefined;
+
+  // wrappedFunction can return another MockList or a value
+  constructor(
+    len: number | Array<number>,
+    wrappedFunction?: GraphQLFieldResolver<any, any>,
+  ) {
+    this.len = len;
+    if (typeof wrappedFunction !== 'undefined') {
+      if (typeof wrappedFunction !== 'function') {
+        throw new Error(
+          'Second argument to MockList must be a function or undefined',
+        );
+      }
+      this.wrappedFunction = wrappedFunction;
+    }
+  }
+
+  public mock(
+    root: any,
+    args: { [key: string]: any },
+    context: any,
+    info: GraphQLResolveInfo,
+    fieldType: GraphQLList<any>,
+    mockTypeFunc: IMockTypeFn,
+    random: () => number = Math.random,
+  ) {
+    let arr: Array<any>;
+    if (Array.isArray(this.len)) {
+      arr = new Array(getRandomInt(this.len[0], this.len[1], random));
+    } else {
+      arr = new Array(this.len);
+    }
+
+    for (let i = 0; i < arr.length; i++) {
+      if (typeof this.wrappedFunction === 'function') {
+        const res = this.wrappedFunction(root, args, context, info);
+        if (res instanceof MockList) {
+          const nullableType = getNullableType(fieldType.ofType) as GraphQLList<
+            any
+          >;
+          arr[i] = res.mock(
+            root,
+            args,
+            context,
+            info,
+            nullableType,
+            mockTypeFunc,
+            random,
+          );
+        } else {
+          arr[i] = res;
+        }
+      } else {
+        arr[i] = mockTypeFunc(fieldType.ofType)(root, args, context, info);
+      }
+    }
+    return arr;
+  }
+}
@@ -0,0 +1,328 @@
+import {
+  GraphQLField,
+  GraphQLList,
+  GraphQLNullableType,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  getNamedType,
+  getNullableType,
+  isAbstractType,
+  isEnumType,
+  isLeafType,
+  isListType,
+  isObjectType,
+} from 'graphql';
+
+import {
+  IMockFixtures,
+  IMockRef,
+  IMockStore,
+  IMockStoreOptions,
+  IMockFn,
+  IMockGenerator,
+} from '../Interfaces';
+
+import { MockList } from './MockList';
+import { addMocksFromDirectives } from './directives';
+import { generateLeafValue, getMockGenerators } from './generators';
+import { createRandom, getRandomElement } from './random';
+import {
+  createRef,
+  defaultMockMap,
+  getKeyFieldName,
+  getStoredFieldName,
+  isObject,
+  isRef,
+} from './utils';
+
+/**
+ * Returns a store of mocked entities, to be passed to `addMocksToSchema`, so
+ * that the same entity is returned with the same field values across queries.
+ *
+ * @category Schema Mocking
+ */
+export function createMockStore(options: IMockStoreOptions): IMockStore {
+  return new MockStore(options);
+}
+
+class MockStore implements IMockStore {
+  private readonly schema: GraphQLSchema;
+  private readonly mocks: Map<string, IMockFn>;
+  private readonly seed: number;
+  private readonly fixtures: IMockFixtures;
+  private readonly generators: Array<IMockGenerator>;
+  private random: () => number;
+  private entities: Record<string, Record<string, Record<string, any>>>;
+  private keyCounter: number;
+
+  constructor({
+    schema,
+    mocks = {},
+    seed,
+    fixtures = {},
+    generators = false,
+  }: IMockStoreOptions) {
+    this.schema = schema;
+    this.mocks = new Map();
+    const directiveMocks = addMocksFromDirectives(
+      schema,
+      mocks,
+      () => this.random,
+    );
+    Object.keys(directiveMocks).forEach((typeName) => {
+      this.mocks.set(typeName, directiveMocks[typeName]);
+    });
+    this.seed = seed;
+    this.fixtures = fixtures;
+    this.generators = getMockGenerators(generators);
+    this.reset();
+  }
+
+  public get(
+    typeName: string,
+    key: string,
+    fieldName?: string,
+    args?: Record<string, any>,
+  ): any {
+    const entity = this.getEntity(typeName, key);
+    if (fieldName == null) {
+      return createRef(typeName, key);
+    }
+
+    const storedFieldName = getStoredFieldName(fieldName, args);
+    if (!(storedFieldName in entity)) {
+      entity[storedFieldName] = this.generateFieldValue(typeName, fieldName);
+    }
+    return entity[storedFieldName];
+  }
+
+  public set(
+    typeName: string,
+    key: string,
+    fieldNameOrValues: string | Record<string, any>,
+    value?: any,
+  ): void {
+    const values =
+      typeof fieldNameOrValues === 'string'
+        ? { [fieldNameOrValues]: value }
+        : fieldNameOrValues;
+
+    const entity = this.getEntity(typeName, key);
+    Object.keys(values).forEach((fieldName) => {
+      entity[fieldName] = this.normalizeValue(
+        this.getField(typeName, fieldName).type,
+        values[fieldName],
+      );
+    });
+  }
+
+  // the entity is keyed by the value of its key field or a generated key
+  public insert(typeName: string, values: Record<string, any>): IMockRef {
+    const type = this.schema.getType(typeName) as GraphQLObjectType;
+    const keyFieldName = getKeyFieldName(type);
+    const key =
+      keyFieldName != null && values[keyFieldName] != null
+        ? String(values[keyFieldName])
+        : this.generateKey(typeName);
+    this.set(typeName, key, values);
+    return createRef(typeName, key);
+  }
+
+  public delete(typeName: string, key: string): void {
+    if (this.has(typeName, key)) {
+      delete this.entities[typeName][key];
+    }
+  }
+
+  public has(typeName: string, key: string): boolean {
+    return typeName in this.entities && key in this.entities[typeName];
+  }
+
+  public reset(): void {
+    this.random = this.seed != null ? createRandom(this.seed) : Math.random;
+    this.entities = Object.create(null);
+    this.keyCounter = 0;
+
+    Object.keys(this.fixtures).forEach((typeName) => {
+      Object.keys(this.fixtures[typeName]).forEach((key) => {
+        this.set(typeName, key, this.fixtures[typeName][key]);
+      });
+    });
+  }
+
+  private getEntity(typeName: string, key: string): Record<string, any> {
+    const type = this.schema.getType(typeName);
+    if (!isObjectType(type)) {
+      throw new Error(`"${typeName}" is not an object type of the schema.`);
+    }
+
+    if (!(typeName in this.entities)) {
+      this.entities[typeName] = Object.create(null);
+    }
+
+    let entity = this.entities[typeName][key];
+    if (entity == null) {
+      entity = Object.create(null);
+      const keyFieldName = getKeyFieldName(type);
+      if (keyFieldName != null) {
+        entity[keyFieldName] = key;
+      }
+      this.entities[typeName][key] = entity;
+    }
+    return entity;
+  }
+
+  private getField(
+    typeName: string,
+    fieldName: string,
+  ): GraphQLField<any, any> {
+    const type = this.schema.getType(typeName) as GraphQLObjectType;
+    const field = type.getFields()[fieldName];
+    if (field == null) {
+      throw new Error(
+        `Field "${fieldName}" is not defined on type "${typeName}".`,
+      );
+    }
+    return field;
+  }
+
+  // values of the mock of the parent type take precedence over the mocks of
+  // the type of the field
+  private generateFieldValue(typeName: string, fieldName: string): any {
+    const field = this.getField(typeName, fieldName);
+
+    if (this.mocks.has(typeName)) {
+      const typeMock = this.mocks.get(typeName)(undefined, {}, {}, {} as any);
+      if (isObject(typeMock) && typeMock[fieldName] !== undefined) {
+        const value =
+          typeof typeMock[fieldName] === 'function'
+            ? typeMock[fieldName](undefined, {}, {}, {} as any)
+            : typeMock[fieldName];
+        return this.normalizeValue(field.type, value);
+      }
+    }
+
+    return this.generateValue(field.type, fieldName);
+  }
+
+  private generateValue(type: GraphQLOutputType, fieldName?: string): any {
+    const nullableType = getNullableType(type) as GraphQLNullableType;
+
+    if (isListType(nullableType)) {
+      return [
+        this.generateValue(nullableType.ofType, fieldName),
+        this.generateValue(nullableType.ofType, fieldName),
+      ];
+    }
+
+    if (isObjectType(nullableType)) {
+      return this.insert(nullableType.name, {});
+    }
+
+    if (isAbstractType(nullableType)) {
+      if (this.mocks.has(nullableType.name)) {
+        const mock = this.mocks.get(nullableType.name);
+        return this.normalizeValue(
+          nullableType,
+          mock(undefined, {}, {}, {} as any),
+        );
+      }
+
+      return this.insert(
+        getRandomElement(
+          this.schema.getPossibleTypes(nullableType),
+          this.random,
+        ).name,
+        {},
+      );
+    }
+
+    const typeName = getNamedType(nullableType).name;
+    if (this.mocks.has(typeName)) {
+      return this.mocks.get(typeName)(undefined, {}, {}, {} as any);
+    }
+
+    if (isLeafType(nullableType)) {
+      const generatedValue = generateLeafValue(
+        this.generators,
+        nullableType,
+        fieldName,
+        this.random,
+      );
+      if (generatedValue !== undefined) {
+        return generatedValue;
+      }
+    }
+
+    if (isEnumType(nullableType)) {
+      return getRandomElement(nullableType.getValues(), this.random).value;
+    }
+
+    if (defaultMockMap.has(typeName)) {
+      return defaultMockMap.get(typeName)(this.random);
+    }
+
+    throw new Error(`No mock defined for type "${typeName}"`);
+  }
+
+  // values of object types are stored as entities, identified by their key
+  // field when present, and replaced by references to these entities
+  private normalizeValue(type: GraphQLOutputType, value: any): any {
+    const nullableType = getNullableType(type) as GraphQLNullableType;
+
+    if (value == null || isRef(value)) {
+      return value;
+    }
+
+    if (isListType(nullableType)) {
+      const items: Array<any> =
+        value instanceof MockList
+          ? value.mock(
+              undefined,
+              {},
+              {},
+              {} as any,
+              nullableType as GraphQLList<any>,
+              (itemType) => () =>
+                this.generateValue(itemType as GraphQLOutputType),
+              this.random,
+            )
+          : value;
+      return Array.isArray(items)
+        ? items.map((item) => this.normalizeValue(nullableType.ofType, item))
+        : items;
+    }
+
+    if (
+      !isObject(value) ||
+      !(isObjectType(nullableType) || isAbstractType(nullableType))
+    ) {
+      return value;
+    }
+
+    const typeName = isAbstractType(nullableType)
+      ? value.__typename
+      : nullableType.name;
+    if (typeName == null) {
+      throw new Error(`Please return a __typename in "${nullableType.name}"`);
+    }
+
+    const values: Record<string, any> = {};
+    Object.keys(value)
+      .filter((fieldName) => fieldName !== '__typename')
+      .forEach((fieldName) => {
+        values[fieldName] = value[fieldName];
+      });
+    return this.insert(typeName, values);
+  }
+
+  private generateKey(typeName: string): string {
+    let key: string;
+    do {
+      this.keyCounter++;
+      key = String(this.keyCounter);
+    } while (this.has(typeName, key));
+    return key;
+  }
+}
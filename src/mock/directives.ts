@@ -0,0 +1,229 @@
+import {
+  DirectiveNode,
+  GraphQLField,
+  GraphQLFieldResolver,
+  GraphQLNamedType,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+  GraphQLType,
+  getNamedType,
+  getNullableType,
+  isLeafType,
+  isListType,
+  isObjectType,
+} from 'graphql';
+
+import { IMockFn, IMocks } from '../Interfaces';
+import valueFromASTUntyped from '../utils/valueFromASTUntyped';
+
+import { MockList } from './MockList';
+import { fakers } from './fakers';
+import { getRandomElement } from './random';
+
+const MOCK_DIRECTIVE = 'mock';
+const EXAMPLES_DIRECTIVE = 'examples';
+const LIST_LENGTH_DIRECTIVE = 'listLength';
+const FAKE_DIRECTIVE = 'fake';
+
+/**
+ * Definitions of the `@mock`, `@examples`, `@listLength` and `@fake`
+ * directives, to be included within the type definitions of schemas that
+ * declare mock hints in SDL.
+ *
+ * @category Schema Mocking
+ */
+export const mockDirectivesTypeDefs = `
+  scalar _MockValue
+  directive @${MOCK_DIRECTIVE}(value: _MockValue) on FIELD_DEFINITION | ARGUMENT_DEFINITION | OBJECT | SCALAR | ENUM
+  directive @${EXAMPLES_DIRECTIVE}(values: [_MockValue]!) on FIELD_DEFINITION | ARGUMENT_DEFINITION | OBJECT | SCALAR | ENUM
+  directive @${LIST_LENGTH_DIRECTIVE}(min: Int, max: Int!) on FIELD_DEFINITION
+  directive @${FAKE_DIRECTIVE}(type: _MockValue!) on FIELD_DEFINITION | ARGUMENT_DEFINITION | SCALAR
+`;
+
+type GetRandom = (info: GraphQLResolveInfo) => () => number;
+
+interface MockHints {
+  value?: any;
+  examples?: Array<any>;
+  listLength?: [number, number];
+  fake?: string;
+}
+
+// returns the mocks completed with mocks of the types and fields with mock
+// hints, which take precedence over the hints of their type, while mocks
+// take precedence over hints
+export function addMocksFromDirectives(
+  schema: GraphQLSchema,
+  mocks: IMocks,
+  getRandom: GetRandom,
+): IMocks {
+  const result: IMocks = { ...mocks };
+
+  const typeMap = schema.getTypeMap();
+  Object.keys(typeMap)
+    .filter((typeName) => !typeName.startsWith('__'))
+    .forEach((typeName) => {
+      const type = typeMap[typeName];
+      const typeMock = getHintMock(
+        getMockHints(getTypeNodes(type)),
+        type,
+        typeName,
+      );
+
+      const fieldMocks: Record<string, IMockFn> = {};
+      if (isObjectType(type)) {
+        const fields = type.getFields();
+        Object.keys(fields).forEach((fieldName) => {
+          const fieldMock = getHintMock(
+            getMockHints([fields[fieldName].astNode]),
+            fields[fieldName].type,
+            `${typeName}.${fieldName}`,
+          );
+          if (fieldMock != null) {
+            fieldMocks[fieldName] = (_root, _args, _context, info) =>
+              fieldMock(getRandom(info));
+          }
+        });
+      }
+
+      if (typeMock == null && Object.keys(fieldMocks).length === 0) {
+        return;
+      }
+
+      const mock = Object.prototype.hasOwnProperty.call(mocks, typeName)
+        ? mocks[typeName]
+        : undefined;
+      if (isLeafType(type)) {
+        if (mock == null) {
+          result[typeName] = (_root, _args, _context, info) =>
+            typeMock(getRandom(info));
+        }
+        return;
+      }
+
+      result[typeName] = (root, args, context, info) => ({
+        ...(typeMock != null ? typeMock(getRandom(info)) : {}),
+        ...fieldMocks,
+        ...(mock != null ? mock(root, args, context, info) : {}),
+      });
+    });
+
+  return result;
+}
+
+// arguments with mock hints omitted from the operation take mocked values
+export function addArgumentMocksFromDirectives(
+  field: GraphQLField<any, any>,
+  coordinate: string,
+  resolve: GraphQLFieldResolver<any, any>,
+  getRandom: GetRandom,
+): GraphQLFieldResolver<any, any> {
+  const argumentMocks: Array<[string, (random: () => number) => any]> = [];
+  field.args.forEach((arg) => {
+    const argumentMock = getHintMock(
+      getMockHints([arg.astNode]),
+      getNamedType(arg.type),
+      `${coordinate}(${arg.name}:)`,
+    );
+    if (argumentMock != null) {
+      argumentMocks.push([arg.name, argumentMock]);
+    }
+  });
+
+  if (argumentMocks.length === 0) {
+    return resolve;
+  }
+
+  return (root, args, context, info) => {
+    const random = getRandom(info);
+    const mockedArgs = { ...args };
+    argumentMocks.forEach(([argName, argumentMock]) => {
+      if (mockedArgs[argName] === undefined) {
+        mockedArgs[argName] = argumentMock(random);
+      }
+    });
+    return resolve(root, mockedArgs, context, info);
+  };
+}
+
+function getTypeNodes(
+  type: GraphQLNamedType,
+): ReadonlyArray<{ directives?: ReadonlyArray<DirectiveNode> }> {
+  return type.extensionASTNodes != null
+    ? [type.astNode, ...type.extensionASTNodes]
+    : [type.astNode];
+}
+
+function getMockHints(
+  nodes: ReadonlyArray<{ directives?: ReadonlyArray<DirectiveNode> }>,
+): MockHints {
+  let hints: MockHints;
+  nodes.forEach((node) => {
+    if (node == null || node.directives == null) {
+      return;
+    }
+
+    node.directives.forEach((directive) => {
+      const args: Record<string, any> = {};
+      if (directive.arguments != null) {
+        directive.arguments.forEach((arg) => {
+          args[arg.name.value] = valueFromASTUntyped(arg.value);
+        });
+      }
+
+      switch (directive.name.value) {
+        case MOCK_DIRECTIVE:
+          hints = { ...hints, value: args.value };
+          break;
+        case EXAMPLES_DIRECTIVE:
+          hints = { ...hints, examples: args.values };
+          break;
+        case LIST_LENGTH_DIRECTIVE:
+          hints = {
+            ...hints,
+            listLength: [args.min != null ? args.min : 0, args.max],
+          };
+          break;
+        case FAKE_DIRECTIVE:
+          hints = { ...hints, fake: args.type };
+          break;
+      }
+    });
+  });
+  return hints;
+}
+
+// returns a function generating values from the given random function, in
+// order of precedence the `@mock` value, an example or a fake value, and for
+// list types a mock list of such values
+function getHintMock(
+  hints: MockHints,
+  type: GraphQLType,
+  coordinate: string,
+): (random: () => number) => any {
+  if (hints == null) {
+    return undefined;
+  }
+
+  if ('value' in hints) {
+    return () => hints.value;
+  }
+
+  let generate: (random: () => number) => any;
+  if (hints.examples != null) {
+    generate = (random) => getRandomElement(hints.examples, random);
+  } else if (hints.fake != null) {
+    generate = fakers[hints.fake];
+    if (generate == null) {
+      throw new Error(`Unknown fake type "${hints.fake}" for "${coordinate}".`);
+    }
+  }
+
+  if (!isListType(getNullableType(type))) {
+    return generate;
+  }
+
+  const length = hints.listLength != null ? hints.listLength : 2;
+  return (random) =>
+    new MockList(length, generate != null ? () => generate(random) : undefined);
+}
@@ -0,0 +1,92 @@
+import { v4 as uuid } from 'uuid';
+
+import { getRandomBytes, getRandomElement, getRandomInt } from './random';
+
+const FIRST_NAMES = [
+  'Alice',
+  'Bob',
+  'Carol',
+  'Dave',
+  'Eve',
+  'Frank',
+  'Grace',
+  'Heidi',
+  'Ivan',
+  'Judy',
+];
+
+const LAST_NAMES = [
+  'Smith',
+  'Johnson',
+  'Williams',
+  'Brown',
+  'Jones',
+  'Garcia',
+  'Miller',
+  'Davis',
+  'Martin',
+  'Lee',
+];
+
+const WORDS = [
+  'lorem',
+  'ipsum',
+  'dolor',
+  'sit',
+  'amet',
+  'consectetur',
+  'adipiscing',
+  'elit',
+  'sed',
+  'eiusmod',
+  'tempor',
+  'magna',
+];
+
+// dates between 2000-01-01 and 2030-01-01
+const MIN_TIME = Date.UTC(2000, 0, 1);
+const MAX_TIME = Date.UTC(2030, 0, 1);
+
+const getWords = (random: () => number, min: number, max: number) => {
+  const words: Array<string> = [];
+  const length = getRandomInt(min, max, random);
+  for (let i = 0; i < length; i++) {
+    words.push(getRandomElement(WORDS, random));
+  }
+  return words;
+};
+
+const getDate = (random: () => number) =>
+  new Date(MIN_TIME + Math.floor(random() * (MAX_TIME - MIN_TIME)));
+
+// generators of fake values, by the type of the `@fake` directive
+export const fakers: Record<string, (random: () => number) => any> = {
+  firstName: (random) => getRandomElement(FIRST_NAMES, random),
+  lastName: (random) => getRandomElement(LAST_NAMES, random),
+  fullName: (random) =>
+    `${getRandomElement(FIRST_NAMES, random)} ${getRandomElement(
+      LAST_NAMES,
+      random,
+    )}`,
+  email: (random) =>
+    `${getRandomElement(FIRST_NAMES, random)}.${getRandomElement(
+      LAST_NAMES,
+      random,
+    )}@example.com`.toLowerCase(),
+  phoneNumber: (random) =>
+    `+1-555-${String(getRandomInt(100, 999, random))}-${String(
+      getRandomInt(1000, 9999, random),
+    )}`,
+  url: (random) => `https://example.com/${getWords(random, 1, 3).join('/')}`,
+  imageUrl: (random) =>
+    `https://example.com/images/${String(getRandomInt(1, 1000, random))}.png`,
+  uuid: (random) => uuid({ random: getRandomBytes(random) }),
+  word: (random) => getRandomElement(WORDS, random),
+  sentence: (random) => {
+    const sentence = getWords(random, 4, 10).join(' ');
+    return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+  },
+  date: (random) => getDate(random).toISOString().slice(0, 10),
+  dateTime: (random) => getDate(random).toISOString(),
+  price: (random) => getRandomInt(100, 100000, random) / 100,
+};
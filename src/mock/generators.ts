@@ -0,0 +1,95 @@
+import { GraphQLLeafType } from 'graphql';
+
+import { IMockGenerator } from '../Interfaces';
+
+import { fakers } from './fakers';
+import { getRandomElement, getRandomInt } from './random';
+
+/**
+ * Generators of realistic values, by field name, e.g. for `email`,
+ * `createdAt`, `avatarUrl` or `price` fields, and by scalar name, e.g. for
+ * `DateTime`, `Email`, `URL` or `JSON` scalars, in order of precedence.
+ *
+ * @category Schema Mocking
+ */
+export const defaultMockGenerators: Array<IMockGenerator> = [
+  { fieldName: /email/i, generate: fakers.email },
+  {
+    fieldName: /(avatar|image|photo|picture|thumbnail)(url)?$/i,
+    generate: fakers.imageUrl,
+  },
+  { fieldName: /(url|uri|link|website|homepage)$/i, generate: fakers.url },
+  { fieldName: /^first_?name$/i, generate: fakers.firstName },
+  { fieldName: /^(last_?name|surname)$/i, generate: fakers.lastName },
+  { fieldName: /^(full|display)_?name$/i, generate: fakers.fullName },
+  { fieldName: /phone/i, generate: fakers.phoneNumber },
+  { fieldName: /(^|[a-z_])(uuid|guid)$/i, generate: fakers.uuid },
+  { fieldName: /[a-z](At|_at)$/, generate: fakers.dateTime },
+  { fieldName: /(^|[a-z_])(date|birthday)$/i, generate: fakers.date },
+  { fieldName: /(price|cost|amount|total)$/i, generate: fakers.price },
+  {
+    fieldName: /^(description|summary|bio|body|content|text)$/i,
+    generate: fakers.sentence,
+  },
+  { typeName: /^(DateTime|Timestamp)$/i, generate: fakers.dateTime },
+  { typeName: /^Date$/i, generate: fakers.date },
+  { typeName: /^(Email|EmailAddress)$/i, generate: fakers.email },
+  { typeName: /^(URL|URI)$/i, generate: fakers.url },
+  { typeName: /^(UUID|GUID)$/i, generate: fakers.uuid },
+  { typeName: /^PhoneNumber$/i, generate: fakers.phoneNumber },
+  {
+    typeName: /^(BigInt|Long)$/i,
+    generate: (random) => getRandomInt(0, 1000000, random),
+  },
+  {
+    typeName: /^JSON(Object)?$/i,
+    generate: (random) => ({
+      [getRandomElement(['id', 'key', 'name'], random)]: fakers.word(random),
+    }),
+  },
+];
+
+// returns the value of the first generator matching the field, that can be
+// serialized by its type, e.g. a value of an enum type
+export function generateLeafValue(
+  generators: Array<IMockGenerator>,
+  type: GraphQLLeafType,
+  fieldName: string,
+  random: () => number,
+): any {
+  const matchingGenerators = generators.filter(
+    (generator) =>
+      (generator.fieldName == null ||
+        (fieldName != null && generator.fieldName.test(fieldName))) &&
+      (generator.typeName == null || generator.typeName.test(type.name)),
+  );
+
+  for (const generator of matchingGenerators) {
+    const value = generator.generate(random);
+    if (isSerializable(type, value)) {
+      return value;
+    }
+  }
+}
+
+// the generators of the mock options, defaulting to the default generators
+export function getMockGenerators(
+  generators: boolean | Array<IMockGenerator>,
+): Array<IMockGenerator> {
+  if (Array.isArray(generators)) {
+    return generators;
+  }
+  return generators ? defaultMockGenerators : [];
+}
+
+function isSerializable(type: GraphQLLeafType, value: any): boolean {
+  try {
+    const serializedValue = type.serialize(value);
+    return (
+      serializedValue != null &&
+      !(typeof serializedValue === 'number' && isNaN(serializedValue))
+    );
+  } catch (error) {
+    return false;
+  }
+}
@@ -118,6 +118,63 @@
  * }
  * ```
  *
+ * ### Mock hints in SDL
+ *
+ * Instead of writing mock functions, you can document example data within your schema with the `@mock`, `@examples`, `@listLength` and `@fake` directives, defined by `mockDirectivesTypeDefs`:
+ *
+ * ```
+ * import { mockDirectivesTypeDefs } from 'graphql-tools';
+ *
+ * const typeDefs = `
+ *   ${mockDirectivesTypeDefs}
+ *
+ *   scalar Email @fake(type: email)
+ *
+ *   type User {
+ *     id: ID! @mock(value: "1")
+ *     name: String @examples(values: ["Alice", "Bob"])
+ *     email: Email
+ *     website: String @fake(type: url)
+ *     tags: [String] @examples(values: ["new", "verified"]) @listLength(min: 1, max: 3)
+ *   }
+ *
+ *   type Query {
+ *     users(first: Int @examples(values: [5, 10])): [User]
+ *   }
+ * `;
+ * ```
+ *
+ * `@mock` returns the given value, `@examples` one of the given values, and `@fake` a fake value of the given type, one of `firstName`, `lastName`, `fullName`, `email`, `phoneNumber`, `url`, `imageUrl`, `uuid`, `word`, `sentence`, `date`, `dateTime` and `price`. On list fields, `@examples` and `@fake` apply to the items of the list, whose length is set by `@listLength`. These directives apply to fields of object types, to arguments, whose values are mocked when omitted from the operation, and to types, the values of object types being objects of field values. Hints on fields take precedence over hints on their type, while mocks take precedence over hints.
+ *
+ * ### Realistic values
+ *
+ * With the `generators` option set to `true`, scalar and enum fields without mocks are generated from their field name and the name of their type, rather than from the defaults for their type, so that `email` fields return email addresses, `createdAt` fields dates and times, `avatarUrl` fields image URLs and `price` fields prices, as do fields of custom scalars such as `DateTime`, `Email`, `URL` or `JSON`. Generated values that cannot be serialized by the type of the field, e.g. values that are not values of an enum type, are ignored.
+ *
+ * The `generators` option can also be set to your own list of generators, each applying to the fields whose name and whose type name match the given patterns, the first matching generator being used:
+ *
+ * ```
+ * import { addMocksToSchema, defaultMockGenerators } from 'graphql-tools';
+ *
+ * addMocksToSchema({
+ *   schema,
+ *   generators: [
+ *     { fieldName: /^sku$/i, generate: (random) => `SKU-${Math.floor(random() * 1000)}` },
+ *     { typeName: /^Money$/, generate: (random) => Math.round(random() * 10000) / 100 },
+ *     ...defaultMockGenerators,
+ *   ],
+ * });
+ * ```
+ *
+ * ### Deterministic mocks
+ *
+ * By default, the mocks of `Int`, `Float`, `Boolean` and `ID` fields, the lengths of lists mocked with a `MockList` range, and the types and enum values picked for abstract and enum fields are random. Passing a `seed` makes them deterministic, so that the same operation always returns the same result, e.g. for snapshot tests:
+ *
+ * ```
+ * addMocksToSchema({ schema, seed: 42 });
+ * ```
+ *
+ * Each operation starts from the seed, so its result does not depend on the operations executed before it. The events of a subscription however share a generator, so that each event continues the sequence of the previous events rather than repeating the first event. This generator is that of the operation of the subscription, and so is also shared by other subscriptions to the same parsed document. Your own mock functions are not affected by the seed.
+ *
  * You can read some background and flavor on this approach in our blog post, ["Mocking your server with one line of code"](https://medium.com/apollo-stack/mocking-your-server-with-just-one-line-of-code-692feda6e9cd).
  *
  * ## Mocking interfaces
@@ -191,6 +248,65 @@
  * })
  * ```
  *
+ * ## Mock store
+ *
+ * By default, mocks are generated anew by each resolver, so that `user(id: 1)` returns a different user for each query. To return the same entities across queries, pass a mock store to `addMocksToSchema`:
+ *
+ * ```
+ * import { addMocksToSchema, createMockStore } from 'graphql-tools';
+ *
+ * const store = createMockStore({ schema, mocks });
+ *
+ * addMocksToSchema({
+ *   schema,
+ *   store,
+ *   mocks: {
+ *     ...mocks,
+ *     Mutation: () => ({
+ *       renameUser: (root, { id, name }) => {
+ *         store.set('User', id, 'name', name);
+ *         return store.get('User', id);
+ *       },
+ *     }),
+ *   },
+ * });
+ * ```
+ *
+ * Entities are identified by their type name and key, the value of their `id` field, if any. Their field values are generated by the mocks of the store on first access and then remembered, so that `store.get('User', '1', 'name')` always returns the same name until it is changed by `store.set('User', '1', 'name', 'Alice')`. `store.get('User', '1')` returns a reference to the entity, which mock resolvers can return for fields of the `User` type or within lists, as can they return objects, which are stored as entities.
+ *
+ * With a store, fields of the query type, fields of the entities, and fields with an argument named after the key field of their type, e.g. `user(id: ID!): User`, are resolved from the store. Mock resolvers can still be used for other fields, e.g. for mutations updating the store.
+ *
+ * The store can be filled with `fixtures`, entities by type name and key, and be reset to these fixtures with `store.reset()`:
+ *
+ * ```
+ * const store = createMockStore({
+ *   schema,
+ *   fixtures: { User: { '1': { name: 'Alice' } } },
+ * });
+ * ```
+ *
+ * ## Mocking mutations
+ *
+ * By default, mutations return mocks of their return type, ignoring their arguments. With the `mutations` option, mutations instead echo their arguments onto the fields of the same name of their return type, recursively, whatever the names of the input and output types, so that `createUser(input: { name: "Alice" })` returns a user named Alice. Arguments of input object types not matching a field of the return type, such as `input` above, are spread, and values are echoed onto the object fields of payload types, e.g. onto `user` for a `CreateUserPayload` type. Fields without a matching argument are mocked as usual, and mutations mocked by the root mock are not echoed.
+ *
+ * With a mock store, `rules` declare mutations creating, updating or deleting entities of the store, by default of their return type:
+ *
+ * ```
+ * addMocksToSchema({
+ *   schema,
+ *   store,
+ *   mutations: {
+ *     rules: {
+ *       createUser: { kind: 'create', typeName: 'User' },
+ *       updateUser: { kind: 'update' },
+ *       deleteUser: { kind: 'delete', typeName: 'User' },
+ *     },
+ *   },
+ * });
+ * ```
+ *
+ * Created entities are keyed by their echoed `id`, or a generated key, while updated and deleted entities must be identified by an echoed `id`. Mutations return the created or updated entity, or reference it within the fields of its type of payload types. Mutations deleting an entity return `true` for `Boolean` return types.
+ *
  * ## Mocking a schema using introspection
  *
  * The GraphQL specification allows clients to introspect the schema with a [special set of types and fields](https://facebook.github.io/graphql/#sec-Introspection) that every schema must include. The results of a [standard introspection query](https://github.com/graphql/graphql-js/blob/master/src/utilities/introspectionQuery.js) can be used to generate an instance of GraphQLSchema which can be mocked as explained above.
@@ -219,10 +335,30 @@
  *   schema,
  *   mocks: {},
  *   preserveResolvers: false,
+ *   seed: undefined,
+ *   store: undefined,
+ *   mutations: false,
+ *   generators: false,
  * });
  * ```
  *
- * Given an instance of GraphQLSchema and a mock object, `addMocksToSchema` modifies the schema in place to return mock data for any valid query that is sent to the server. If `mocks` is not passed, the defaults will be used for each of the scalar types. If `preserveResolvers` is set to `true`, existing resolvers will not be overwritten to provide mock data. This can be used to mock some parts of the server and not others.
+ * Given an instance of GraphQLSchema and a mock object, `addMocksToSchema` modifies the schema in place to return mock data for any valid query that is sent to the server. If `mocks` is not passed, the defaults will be used for each of the scalar types. If `preserveResolvers` is set to `true`, existing resolvers will not be overwritten to provide mock data. This can be used to mock some parts of the server and not others. If `seed` is set to a number, the default mocks are generated from a pseudo-random number generator initialized with that seed instead of `Math.random`. `store` and `mutations` are described in [Mock store](#mock-store) and [Mocking mutations](#mocking-mutations), and `generators` in [Realistic values](#realistic-values).
+ *
+ * ### createMockStore
+ *
+ * ```
+ * import { createMockStore } from 'graphql-tools';
+ *
+ * const store = createMockStore({
+ *   schema,
+ *   mocks: {},
+ *   seed: undefined,
+ *   fixtures: {},
+ *   generators: false,
+ * });
+ * ```
+ *
+ * Returns a store of mocked entities, with `get`, `set`, `has` and `reset` methods, to be passed as the `store` option of `addMocksToSchema`. `mocks`, `seed` and `generators` are used as by `addMocksToSchema` to generate the field values of entities.
  *
  * ### MockList
  *
@@ -246,8 +382,10 @@
  * // Same mocks object that `addMocksToSchema` takes above
  * const mocks = {}
  * preserveResolvers = false
+ * // optional, see `addMocksToSchema`
+ * seed = 42
  *
- * const server = mockServer(schemaString, mocks, preserveResolvers);
+ * const server = mockServer(schemaString, mocks, preserveResolvers, seed);
  *
  * const query = `{ __typename }`
  * const variables = {}
@@ -278,6 +416,7 @@ import {
   GraphQLNamedType,
   GraphQLFieldResolver,
   GraphQLNullableType,
+  OperationDefinitionNode,
   isSchema,
   isObjectType,
   isUnionType,
@@ -285,8 +424,8 @@ import {
   isListType,
   isEnumType,
   isAbstractType,
+  isLeafType,
 } from 'graphql';
-import { v4 as uuid } from 'uuid';
 
 import { buildSchemaFromTypeDefinitions } from '../generate/index';
 import { forEachField } from '../utils/index';
@@ -296,10 +435,37 @@ import {
   IMockServer,
   IMockOptions,
   IMockFn,
-  IMockTypeFn,
   ITypeDefinitions,
 } from '../Interfaces';
 
+import { MockList } from './MockList';
+import {
+  addArgumentMocksFromDirectives,
+  addMocksFromDirectives,
+  mockDirectivesTypeDefs,
+} from './directives';
+import { createMockStore } from './MockStore';
+import {
+  defaultMockGenerators,
+  generateLeafValue,
+  getMockGenerators,
+} from './generators';
+import { mockMutation } from './mutations';
+import { createRandom, getRandomElement } from './random';
+import { defaultMockMap, getKeyFieldName, isObject, isRef } from './utils';
+
+// key of the entity of the query type within mock stores
+const ROOT_KEY = 'ROOT';
+
+// the object identifying the execution of the operation, falling back to the
+// operation itself
+function getExecutionKey(info: GraphQLResolveInfo): any {
+  return info.operation.operation !== 'subscription' &&
+    isObject(info.variableValues)
+    ? info.variableValues
+    : info.operation;
+}
+
 /**
  * This function wraps addMocksToSchema for more convenience
  */
@@ -307,6 +473,7 @@ function mockServer(
   schema: GraphQLSchema | ITypeDefinitions,
   mocks: IMocks,
   preserveResolvers: boolean = false,
+  seed?: number,
 ): IMockServer {
   let mySchema: GraphQLSchema;
   if (!isSchema(schema)) {
@@ -316,25 +483,19 @@ function mockServer(
     mySchema = schema;
   }
 
-  addMocksToSchema({ schema: mySchema, mocks, preserveResolvers });
+  addMocksToSchema({ schema: mySchema, mocks, preserveResolvers, seed });
 
   return { query: (query, vars) => graphql(mySchema, query, {}, {}, vars) };
 }
 
-const defaultMockMap: Map<string, IMockFn> = new Map();
-defaultMockMap.set('Int', () => Math.round(Math.random() * 200) - 100);
-defaultMockMap.set('Float', () => Math.random() * 200 - 100);
-defaultMockMap.set('String', () => 'Hello World');
-defaultMockMap.set('Boolean', () => Math.random() > 0.5);
-defaultMockMap.set('ID', () => uuid());
-
-// TODO allow providing a seed such that lengths of list could be deterministic
-// this could be done by using casual to get a random list length if the casual
-// object is global.
 function addMocksToSchema({
   schema,
   mocks = {},
   preserveResolvers = false,
+  seed,
+  store,
+  mutations = false,
+  generators = false,
 }: IMockOptions): void {
   if (!schema) {
     throw new Error('Must provide schema to mock');
@@ -346,6 +507,36 @@ function addMocksToSchema({
     throw new Error('mocks must be of type Object');
   }
 
+  // when seeded, each execution of an operation gets its own generator, so
+  // that its results do not depend on previous operations. Executions are
+  // identified by their coerced variable values, which are created for each
+  // execution, except for subscriptions, whose events are each executed with
+  // new variable values, and which are identified by their operation instead,
+  // so that their events share a generator
+  const randomGenerators: WeakMap<
+    OperationDefinitionNode,
+    WeakMap<any, () => number>
+  > = new WeakMap();
+  const getRandom = (info: GraphQLResolveInfo): (() => number) => {
+    if (seed == null) {
+      return Math.random;
+    }
+
+    let operationRandomGenerators = randomGenerators.get(info.operation);
+    if (operationRandomGenerators == null) {
+      operationRandomGenerators = new WeakMap();
+      randomGenerators.set(info.operation, operationRandomGenerators);
+    }
+
+    const executionKey = getExecutionKey(info);
+    let random = operationRandomGenerators.get(executionKey);
+    if (random == null) {
+      random = createRandom(seed);
+      operationRandomGenerators.set(executionKey, random);
+    }
+    return random;
+  };
+
   // use Map internally, because that API is nicer.
   const mockFunctionMap: Map<string, IMockFn> = new Map();
   Object.keys(mocks).forEach((typeName) => {
@@ -358,9 +549,39 @@ function addMocksToSchema({
     }
   });
 
+  const mockGenerators = getMockGenerators(generators);
+
+  // mock hints declared by directives complete the mocks
+  const directiveMocks = addMocksFromDirectives(schema, mocks, getRandom);
+  Object.keys(directiveMocks).forEach((typeName) => {
+    mockFunctionMap.set(typeName, directiveMocks[typeName]);
+  });
+
+  // entities of interfaces are those of the implementing types with the key,
+  // which must have been stored, as the type of the entity is unknown
+  const getEntityRef = (
+    type: GraphQLNamedType,
+    key: string,
+    info: GraphQLResolveInfo,
+  ): any => {
+    if (!isAbstractType(type)) {
+      return store.get(type.name, key);
+    }
+
+    const entityType = info.schema
+      .getPossibleTypes(type)
+      .find((possibleType) => store.has(possibleType.name, key));
+    if (entityType == null) {
+      return Error(
+        `No entity of a type implementing "${type.name}" with key "${key}" in the mock store`,
+      );
+    }
+    return store.get(entityType.name, key);
+  };
+
   const mockType = function (
     type: GraphQLType,
-    _typeName?: string,
+    typeName?: string,
     fieldName?: string,
   ): GraphQLFieldResolver<any, any> {
     // order of precendence for mocking:
@@ -394,6 +615,7 @@ function addMocksToSchema({
               info,
               fieldType as GraphQLList<any>,
               mockType,
+              getRandom(info),
             );
           }
         } else {
@@ -413,6 +635,24 @@ function addMocksToSchema({
         return result;
       }
 
+      // with a store, objects are references to its entities, whose fields
+      // are read from the store, as are the fields of the query type
+      if (store != null && fieldName != null) {
+        const keyFieldName = getKeyFieldName(fieldType);
+        if (keyFieldName != null && args[keyFieldName] != null) {
+          return getEntityRef(namedFieldType, String(args[keyFieldName]), info);
+        }
+
+        if (isRef(root)) {
+          return store.get(root.$ref.typeName, root.$ref.key, fieldName, args);
+        }
+
+        const queryType = schema.getQueryType();
+        if (queryType != null && queryType.name === typeName) {
+          return store.get(typeName, ROOT_KEY, fieldName, args);
+        }
+      }
+
       if (isListType(fieldType)) {
         return [
           mockType(fieldType.ofType)(root, args, context, info),
@@ -441,7 +681,7 @@ function addMocksToSchema({
           implementationType = schema.getType(interfaceMockObj.__typename);
         } else {
           const possibleTypes = schema.getPossibleTypes(fieldType);
-          implementationType = getRandomElement(possibleTypes);
+          implementationType = getRandomElement(possibleTypes, getRandom(info));
         }
         return {
           __typename: implementationType,
@@ -449,13 +689,25 @@ function addMocksToSchema({
         };
       }
 
+      if (isLeafType(fieldType)) {
+        const generatedValue = generateLeafValue(
+          mockGenerators,
+          fieldType,
+          info.fieldName,
+          getRandom(info),
+        );
+        if (generatedValue !== undefined) {
+          return generatedValue;
+        }
+      }
+
       if (isEnumType(fieldType)) {
-        return getRandomElement(fieldType.getValues()).value;
+        return getRandomElement(fieldType.getValues(), getRandom(info)).value;
       }
 
       if (defaultMockMap.has(fieldType.name)) {
         const defaultMock = defaultMockMap.get(fieldType.name);
-        return defaultMock(root, args, context, info);
+        return defaultMock(getRandom(info));
       }
 
       // if we get to here, we don't have a value, and we don't have a mock for this type,
@@ -484,6 +736,31 @@ function addMocksToSchema({
       const isOnMutationType =
         mutationType != null && mutationType.name === typeName;
 
+      // mutations echo their arguments, unless mocked by the root mock
+      if (isOnMutationType && mutations) {
+        const mutationOptions = typeof mutations === 'object' ? mutations : {};
+        mockResolver = (
+          _root: any,
+          args: { [key: string]: any },
+          context: any,
+          info: GraphQLResolveInfo,
+        ) =>
+          mockType(field.type, typeName, fieldName)(
+            {
+              [fieldName]: mockMutation(
+                schema,
+                field,
+                args,
+                mutationOptions,
+                store,
+              ),
+            },
+            args,
+            context,
+            info,
+          );
+      }
+
       if (isOnQueryType || isOnMutationType) {
         if (mockFunctionMap.has(typeName)) {
           const rootMock = mockFunctionMap.get(typeName);
@@ -517,6 +794,13 @@ function addMocksToSchema({
           }
         }
       }
+      mockResolver = addArgumentMocksFromDirectives(
+        field,
+        `${typeName}.${fieldName}`,
+        mockResolver,
+        getRandom,
+      );
+
       if (!preserveResolvers || !field.resolve) {
         field.resolve = mockResolver;
       } else {
@@ -561,16 +845,6 @@ function addMocksToSchema({
   );
 }
 
-function isObject(thing: any) {
-  return thing === Object(thing) && !Array.isArray(thing);
-}
-
-// returns a random element from that ary
-function getRandomElement(ary: ReadonlyArray<any>) {
-  const sample = Math.floor(Math.random() * ary.length);
-  return ary[sample];
-}
-
 function mergeObjects(a: Record<string, any>, b: Record<string, any>) {
   return Object.assign(a, b);
 }
@@ -610,6 +884,9 @@ function copyOwnProps(
 // defined on genericMock
 // only merges objects or arrays. Scalars are returned as is
 function mergeMocks(genericMockFunction: () => any, customMock: any): any {
+  if (isRef(customMock)) {
+    return customMock;
+  }
   if (Array.isArray(customMock)) {
     return customMock.map((el: any) => mergeMocks(genericMockFunction, el));
   }
@@ -641,72 +918,10 @@ function assignResolveType(type: GraphQLType, preserveResolvers: boolean) {
       data: any,
       _context: any,
       info: GraphQLResolveInfo,
-    ) => info.schema.getType(data.__typename) as GraphQLObjectType;
-  }
-}
-
-class MockList {
-  private readonly len: number | Array<number>;
-  private readonly wrappedFunction: GraphQLFieldResolver<any, any> | undefined;
-
-  // wrappedFunction can return another MockList or a value
-  constructor(
-    len: number | Array<number>,
-    wrappedFunction?: GraphQLFieldResolver<any, any>,
-  ) {
-    this.len = len;
-    if (typeof wrappedFunction !== 'undefined') {
-      if (typeof wrappedFunction !== 'function') {
-        throw new Error(
-          'Second argument to MockList must be a function or undefined',
-        );
-      }
-      this.wrappedFunction = wrappedFunction;
-    }
-  }
-
-  public mock(
-    root: any,
-    args: { [key: string]: any },
-    context: any,
-    info: GraphQLResolveInfo,
-    fieldType: GraphQLList<any>,
-    mockTypeFunc: IMockTypeFn,
-  ) {
-    let arr: Array<any>;
-    if (Array.isArray(this.len)) {
-      arr = new Array(this.randint(this.len[0], this.len[1]));
-    } else {
-      arr = new Array(this.len);
-    }
-
-    for (let i = 0; i < arr.length; i++) {
-      if (typeof this.wrappedFunction === 'function') {
-        const res = this.wrappedFunction(root, args, context, info);
-        if (res instanceof MockList) {
-          const nullableType = getNullableType(fieldType.ofType) as GraphQLList<
-            any
-          >;
-          arr[i] = res.mock(
-            root,
-            args,
-            context,
-            info,
-            nullableType,
-            mockTypeFunc,
-          );
-        } else {
-          arr[i] = res;
-        }
-      } else {
-        arr[i] = mockTypeFunc(fieldType.ofType)(root, args, context, info);
-      }
-    }
-    return arr;
-  }
-
-  private randint(low: number, high: number): number {
-    return Math.floor(Math.random() * (high - low + 1) + low);
+    ) =>
+      info.schema.getType(
+        isRef(data) ? data.$ref.typeName : data.__typename,
+      ) as GraphQLObjectType;
   }
 }
 
@@ -716,8 +931,28 @@ function addMockFunctionsToSchema({
   schema,
   mocks = {},
   preserveResolvers = false,
+  seed,
+  store,
+  mutations = false,
+  generators = false,
 }: IMockOptions): void {
-  addMocksToSchema({ schema, mocks, preserveResolvers });
+  addMocksToSchema({
+    schema,
+    mocks,
+    preserveResolvers,
+    seed,
+    store,
+    mutations,
+    generators,
+  });
 }
 
-export { addMocksToSchema, addMockFunctionsToSchema, MockList, mockServer };
+export {
+  addMocksToSchema,
+  addMockFunctionsToSchema,
+  createMockStore,
+  defaultMockGenerators,
+  mockDirectivesTypeDefs,
+  MockList,
+  mockServer,
+};
@@ -0,0 +1,190 @@
+import {
+  GraphQLField,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  getNamedType,
+  getNullableType,
+  isInputObjectType,
+  isLeafType,
+  isListType,
+  isObjectType,
+} from 'graphql';
+
+import { IMockMutationOptions, IMockRef, IMockStore } from '../Interfaces';
+
+import { getKeyFieldName, isObject } from './utils';
+
+// returns the result of a mocked mutation, echoing its arguments onto its
+// return type and applying its rule to the entities of the store, if any;
+// fields left undefined are mocked as usual
+export function mockMutation(
+  schema: GraphQLSchema,
+  field: GraphQLField<any, any>,
+  args: Record<string, any>,
+  { rules = {} }: IMockMutationOptions,
+  store: IMockStore,
+): any {
+  const returnType = getNamedType(field.type);
+  const values = getMutationValues(field, args, returnType);
+  const rule = rules[field.name];
+
+  if (rule == null || store == null) {
+    if (rule != null && rule.kind === 'delete' && isLeafType(returnType)) {
+      return true;
+    }
+    return isObjectType(returnType)
+      ? echoPayload(returnType, values)
+      : undefined;
+  }
+
+  const entityTypeName =
+    rule.typeName != null ? rule.typeName : returnType.name;
+  const entityType = schema.getType(entityTypeName);
+  if (!isObjectType(entityType)) {
+    throw new Error(
+      `Cannot ${rule.kind} entities of type "${entityTypeName}", as it is not an object type.`,
+    );
+  }
+
+  const entityValues = echoValues(entityType, values);
+  const keyFieldName = getKeyFieldName(entityType);
+  let ref: IMockRef;
+  if (rule.kind === 'create') {
+    ref = store.insert(entityTypeName, entityValues);
+  } else {
+    if (keyFieldName == null || entityValues[keyFieldName] == null) {
+      throw new Error(
+        `Cannot ${rule.kind} an entity of type "${entityTypeName}" without a value for its "id" field.`,
+      );
+    }
+
+    const key = String(entityValues[keyFieldName]);
+    if (rule.kind === 'update') {
+      store.set(entityTypeName, key, entityValues);
+      ref = store.get(entityTypeName, key);
+    } else {
+      store.delete(entityTypeName, key);
+      if (isLeafType(returnType)) {
+        return returnType.name === 'Boolean' ? true : key;
+      }
+      return isObjectType(returnType)
+        ? echoPayload(returnType, values)
+        : undefined;
+    }
+  }
+
+  if (isLeafType(returnType)) {
+    return ref.$ref.key;
+  }
+
+  if (!isObjectType(returnType) || returnType === entityType) {
+    return ref;
+  }
+
+  // within payload types, fields of the type of the entity reference it
+  const payload = echoPayload(returnType, values);
+  const payloadFields = returnType.getFields();
+  Object.keys(payloadFields)
+    .filter((fieldName) => {
+      const payloadFieldType = getNullableType(payloadFields[fieldName].type);
+      return payloadFieldType === entityType;
+    })
+    .forEach((fieldName) => {
+      payload[fieldName] = ref;
+    });
+  return payload;
+}
+
+// arguments of input object types not matching a field of the return type,
+// e.g. `input: CreateUserInput`, are spread
+function getMutationValues(
+  field: GraphQLField<any, any>,
+  args: Record<string, any>,
+  returnType: GraphQLNamedType,
+): Record<string, any> {
+  const returnFields = isObjectType(returnType) ? returnType.getFields() : {};
+  const values: Record<string, any> = {};
+  field.args.forEach((arg) => {
+    const value = args[arg.name];
+    if (value === undefined) {
+      return;
+    }
+
+    if (
+      !(arg.name in returnFields) &&
+      isInputObjectType(getNullableType(arg.type)) &&
+      isObject(value)
+    ) {
+      Object.keys(value).forEach((fieldName) => {
+        values[fieldName] = value[fieldName];
+      });
+    } else {
+      values[arg.name] = value;
+    }
+  });
+  return values;
+}
+
+// when no field of the return type matches an input value, e.g. for payload
+// types, input values are echoed onto its object fields
+function echoPayload(
+  type: GraphQLObjectType,
+  values: Record<string, any>,
+): Record<string, any> {
+  const result = echoValues(type, values);
+  if (Object.keys(result).length > 0) {
+    return result;
+  }
+
+  const fields = type.getFields();
+  Object.keys(fields).forEach((fieldName) => {
+    const fieldType = getNullableType(fields[fieldName].type);
+    if (isObjectType(fieldType)) {
+      result[fieldName] = echoValues(fieldType, values);
+    }
+  });
+  return result;
+}
+
+// input values are mapped onto the output fields of the same name, whatever
+// the names of their types
+function echoValues(
+  type: GraphQLObjectType,
+  values: Record<string, any>,
+): Record<string, any> {
+  const fields = type.getFields();
+  const result: Record<string, any> = {};
+  Object.keys(values)
+    .filter((fieldName) => fieldName in fields)
+    .forEach((fieldName) => {
+      const value = echoValue(fields[fieldName].type, values[fieldName]);
+      if (value !== undefined) {
+        result[fieldName] = value;
+      }
+    });
+  return result;
+}
+
+function echoValue(type: GraphQLOutputType, value: any): any {
+  const nullableType = getNullableType(type);
+
+  if (value == null) {
+    return value;
+  }
+
+  if (isListType(nullableType)) {
+    return Array.isArray(value)
+      ? value.map((item) => echoValue(nullableType.ofType, item))
+      : undefined;
+  }
+
+  if (isObjectType(nullableType)) {
+    return isObject(value) ? echoValues(nullableType, value) : undefined;
+  }
+
+  if (isLeafType(nullableType)) {
+    return isObject(value) || Array.isArray(value) ? undefined : value;
+  }
+}
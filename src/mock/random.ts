@@ -0,0 +1,38 @@
+// returns a seeded pseudo-random number generator (mulberry32), producing
+// the same sequence of numbers between 0 and 1 for the same seed
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// returns a random element from that ary
+export function getRandomElement<T>(
+  ary: ReadonlyArray<T>,
+  random: () => number = Math.random,
+): T {
+  const sample = Math.floor(random() * ary.length);
+  return ary[sample];
+}
+
+export function getRandomInt(
+  low: number,
+  high: number,
+  random: () => number = Math.random,
+): number {
+  return Math.floor(random() * (high - low + 1) + low);
+}
+
+// returns the 16 random bytes of a v4 uuid
+export function getRandomBytes(random: () => number): Array<number> {
+  const bytes: Array<number> = [];
+  for (let i = 0; i < 16; i++) {
+    bytes.push(Math.floor(random() * 256));
+  }
+  return bytes;
+}
@@ -0,0 +1,48 @@
+import { GraphQLType, isInterfaceType, isObjectType } from 'graphql';
+import { v4 as uuid } from 'uuid';
+
+import { IMockRef } from '../Interfaces';
+
+import { getRandomBytes } from './random';
+
+export const defaultMockMap: Map<
+  string,
+  (random: () => number) => any
+> = new Map();
+defaultMockMap.set('Int', (random) => Math.round(random() * 200) - 100);
+defaultMockMap.set('Float', (random) => random() * 200 - 100);
+defaultMockMap.set('String', () => 'Hello World');
+defaultMockMap.set('Boolean', (random) => random() > 0.5);
+defaultMockMap.set('ID', (random) => uuid({ random: getRandomBytes(random) }));
+
+export function isObject(thing: any) {
+  return thing === Object(thing) && !Array.isArray(thing);
+}
+
+export function isRef(value: any): value is IMockRef {
+  return isObject(value) && isObject(value.$ref);
+}
+
+export function createRef(typeName: string, key: string): IMockRef {
+  return { $ref: { typeName, key } };
+}
+
+// entities of object types with an `id` field are identified by its value, as
+// are the entities of the object types implementing interfaces with that field
+export function getKeyFieldName(type: GraphQLType): string {
+  return (isObjectType(type) || isInterfaceType(type)) &&
+    type.getFields().id != null
+    ? 'id'
+    : undefined;
+}
+
+// values of fields queried with arguments are stored for each of their sets
+// of arguments, e.g. `users(first: 1)` and `users(first: 5)`
+export function getStoredFieldName(
+  fieldName: string,
+  args: Record<string, any>,
+): string {
+  return args != null && Object.keys(args).length > 0
+    ? `${fieldName}(${JSON.stringify(args)})`
+    : fieldName;
+}
@@ -0,0 +1,25 @@
+import { MergedFieldCandidate } from '../Interfaces';
+
+// @typeName: The merged type containing the conflicting field
+// @fieldName: The conflicting field
+// @candidates: The definitions of the field within each subschema
+export default class MergeConflictError extends Error {
+  public message: string;
+  public typeName: string;
+  public fieldName: string;
+  public candidates: Array<MergedFieldCandidate>;
+
+  constructor(
+    message: string,
+    typeName: string,
+    fieldName: string,
+    candidates: Array<MergedFieldCandidate>,
+  ) {
+    super(message);
+    this.message = message;
+    this.typeName = typeName;
+    this.fieldName = fieldName;
+    this.candidates = candidates;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
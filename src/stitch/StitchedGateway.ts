@@ -0,0 +1,255 @@
+import { GraphQLSchema, isSchema, printSchema, validateSchema } from 'graphql';
+
+import { SubschemaConfig, SubschemaLoader } from '../Interfaces';
+
+import mergeSchemas, { MergeSchemasOptions } from './mergeSchemas';
+
+export type StitchedGatewayOptions = Omit<MergeSchemasOptions, 'subschemas'> & {
+  loader: SubschemaLoader;
+  pollInterval?: number;
+  validate?: (
+    schema: GraphQLSchema,
+    subschemas: Array<SubschemaConfig>,
+  ) => void | Promise<void>;
+};
+
+/**
+ * Holds a stitched schema built from the subschemas returned by a loader,
+ * rebuilding it whenever the loader reports a change, every `pollInterval`
+ * milliseconds, or when `reload` is called.
+ *
+ * Rebuilt schemas are validated and then swapped in, so that requests
+ * already executing against the previous schema complete unaffected. If the
+ * subschemas cannot be loaded, merged or validated, the last good schema is
+ * kept. Rebuilds are skipped when the loaded subschema configs are unchanged:
+ * their schemas have the same SDL, their other values are equal, and their
+ * functions and class instances, e.g. executors, links and transforms, are
+ * the same objects.
+ *
+ * Listeners added with `on('update', ...)` are called with the new and
+ * previous schema after each swap, and those added with
+ * `on('updateError', ...)` with the error after each failed rebuild.
+ * Exceptions thrown by listeners are ignored.
+ *
+ * @category Schema Stitching
+ */
+export default class StitchedGateway {
+  private readonly loader: SubschemaLoader;
+  private readonly pollInterval: number;
+  private readonly validate: StitchedGatewayOptions['validate'];
+  private readonly mergeOptions: Omit<MergeSchemasOptions, 'subschemas'>;
+  private readonly listeners: {
+    update: Array<
+      (schema: GraphQLSchema, previousSchema: GraphQLSchema) => void
+    >;
+    updateError: Array<(error: Error) => void>;
+  } = { update: [], updateError: [] };
+
+  private currentSchema: GraphQLSchema;
+  private currentSubschemas: Array<SubschemaConfig>;
+  private currentFingerprint: string;
+  private pendingReload: Promise<boolean>;
+  private queuedReload: Promise<boolean>;
+  private pollTimeout: ReturnType<typeof setTimeout>;
+  private unwatch: () => void;
+  private running = false;
+
+  constructor({
+    loader,
+    pollInterval,
+    validate,
+    ...mergeOptions
+  }: StitchedGatewayOptions) {
+    this.loader = loader;
+    this.pollInterval = pollInterval;
+    this.validate = validate;
+    this.mergeOptions = mergeOptions;
+  }
+
+  public get schema(): GraphQLSchema {
+    return this.currentSchema;
+  }
+
+  public get subschemas(): Array<SubschemaConfig> {
+    return this.currentSubschemas;
+  }
+
+  // Adds a listener for the given event, returning a function that removes
+  // it.
+  public on(
+    event: 'update',
+    listener: (schema: GraphQLSchema, previousSchema: GraphQLSchema) => void,
+  ): () => void;
+
+  public on(event: 'updateError', listener: (error: Error) => void): () => void;
+  public on(
+    event: 'update' | 'updateError',
+    listener: (...args: Array<any>) => void,
+  ): () => void {
+    const listeners: Array<(...args: Array<any>) => void> = this.listeners[
+      event
+    ];
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Builds the initial schema, rejecting if it cannot be built, and then
+  // starts watching and polling for changes.
+  public start(): Promise<GraphQLSchema> {
+    return this.rebuild().then(() => {
+      if (!this.running) {
+        this.running = true;
+        if (this.loader.watch != null) {
+          this.unwatch = this.loader.watch(() => {
+            this.reload().catch(() => undefined);
+          });
+        }
+        this.schedulePoll();
+      }
+      return this.currentSchema;
+    });
+  }
+
+  public stop(): void {
+    this.running = false;
+    if (this.pollTimeout != null) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = undefined;
+    }
+    if (this.unwatch != null) {
+      this.unwatch();
+      this.unwatch = undefined;
+    }
+  }
+
+  // Resolves to whether a new schema was swapped in. Reloads requested while
+  // another is in progress are combined into a single reload that starts
+  // when the current one completes.
+  public reload(): Promise<boolean> {
+    if (this.pendingReload != null) {
+      if (this.queuedReload == null) {
+        this.queuedReload = this.pendingReload.then(() => {
+          this.queuedReload = undefined;
+          return this.reload();
+        });
+      }
+      return this.queuedReload;
+    }
+
+    this.pendingReload = this.rebuild().then(
+      (updated) => {
+        this.pendingReload = undefined;
+        return updated;
+      },
+      (error) => {
+        this.pendingReload = undefined;
+        this.emit('updateError', error);
+        return false;
+      },
+    );
+    return this.pendingReload;
+  }
+
+  private rebuild(): Promise<boolean> {
+    return Promise.resolve()
+      .then(() => this.loader.load())
+      .then((subschemas) => {
+        const fingerprint = getFingerprint(subschemas);
+        if (
+          this.currentSchema != null &&
+          fingerprint === this.currentFingerprint
+        ) {
+          return false;
+        }
+
+        const schema = mergeSchemas({ ...this.mergeOptions, subschemas });
+        const errors = validateSchema(schema);
+        if (errors.length) {
+          throw new Error(
+            `Stitched schema is invalid:\n${errors
+              .map((error) => error.message)
+              .join('\n')}`,
+          );
+        }
+
+        return Promise.resolve(
+          this.validate != null ? this.validate(schema, subschemas) : undefined,
+        ).then(() => {
+          const previousSchema = this.currentSchema;
+          this.currentSchema = schema;
+          this.currentSubschemas = subschemas;
+          this.currentFingerprint = fingerprint;
+          this.emit('update', schema, previousSchema);
+          return true;
+        });
+      });
+  }
+
+  private emit(event: 'update' | 'updateError', ...args: Array<any>): void {
+    const listeners: Array<(...args: Array<any>) => void> = this.listeners[
+      event
+    ].slice();
+    listeners.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        // a failing listener neither affects the others nor the gateway
+      }
+    });
+  }
+
+  private schedulePoll(): void {
+    if (!this.running || this.pollInterval == null) {
+      return;
+    }
+
+    // polling goes on whether or not the reload succeeds
+    const schedulePoll = () => this.schedulePoll();
+    this.pollTimeout = setTimeout(() => {
+      this.pollTimeout = undefined;
+      this.reload()
+        .then(schedulePoll, schedulePoll)
+        .catch(() => undefined);
+    }, this.pollInterval);
+  }
+}
+
+const objectIds: WeakMap<Record<string, any>, number> = new WeakMap();
+let nextObjectId = 0;
+
+function getObjectId(value: Record<string, any>): string {
+  let id = objectIds.get(value);
+  if (id == null) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return `#${String(id)}`;
+}
+
+// schemas are compared by their SDL, plain objects and arrays by their values,
+// and functions and other objects by their identity
+function getFingerprint(subschemas: Array<SubschemaConfig>): string {
+  return JSON.stringify(subschemas, (_key, value) => {
+    if (isSchema(value)) {
+      return printSchema(value);
+    }
+
+    if (
+      typeof value === 'function' ||
+      (typeof value === 'object' &&
+        value != null &&
+        !Array.isArray(value) &&
+        Object.getPrototypeOf(value) !== Object.prototype &&
+        Object.getPrototypeOf(value) !== null)
+    ) {
+      return getObjectId(value);
+    }
+
+    return value;
+  });
+}
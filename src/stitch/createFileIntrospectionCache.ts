@@ -0,0 +1,73 @@
+/* eslint-disable import/no-nodejs-modules */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { IntrospectionCache, IntrospectionCacheEntry } from '../Interfaces';
+
+/**
+ * Returns an `IntrospectionCache` storing each schema within the given
+ * directory, as SDL within `<key>.graphql` or as the introspection result
+ * within `<key>.json`. The modification time of the file is used as the time
+ * at which the schema was fetched.
+ *
+ * @category Schema Stitching
+ */
+export function createFileIntrospectionCache(
+  directory: string,
+): IntrospectionCache {
+  const getFileName = (key: string, extension: string) =>
+    path.join(directory, `${encodeURIComponent(key)}.${extension}`);
+
+  return {
+    read: (key) =>
+      Promise.all([
+        readFile(getFileName(key, 'graphql')),
+        readFile(getFileName(key, 'json')),
+      ]).then(([sdlFile, introspectionFile]) => {
+        if (
+          introspectionFile != null &&
+          (sdlFile == null || introspectionFile.mtime > sdlFile.mtime)
+        ) {
+          return {
+            introspection: JSON.parse(introspectionFile.contents),
+            timestamp: introspectionFile.mtime,
+          };
+        } else if (sdlFile != null) {
+          return { sdl: sdlFile.contents, timestamp: sdlFile.mtime };
+        }
+
+        return undefined;
+      }),
+    write: (key, entry: IntrospectionCacheEntry) => {
+      const fileName =
+        entry.introspection != null
+          ? getFileName(key, 'json')
+          : getFileName(key, 'graphql');
+      const contents =
+        entry.introspection != null
+          ? JSON.stringify(entry.introspection)
+          : entry.sdl;
+      const time = new Date(entry.timestamp);
+
+      return fs
+        .mkdir(directory, { recursive: true })
+        .then(() => fs.writeFile(fileName, contents, 'utf8'))
+        .then(() => fs.utimes(fileName, time, time));
+    },
+  };
+}
+
+function readFile(
+  fileName: string,
+): Promise<{ contents: string; mtime: number }> {
+  return Promise.all([fs.readFile(fileName, 'utf8'), fs.stat(fileName)]).then(
+    ([contents, stats]) => ({ contents, mtime: stats.mtime.getTime() }),
+    (error) => {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    },
+  );
+}
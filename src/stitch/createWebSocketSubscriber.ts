@@ -0,0 +1,345 @@
+import { Observable } from 'apollo-link';
+import { ExecutionResult, GraphQLError, print } from 'graphql';
+
+import {
+  Delegator,
+  WebSocketImpl,
+  WebSocketLike,
+  WebSocketSubscriberOptions,
+} from '../Interfaces';
+
+import { observableToAsyncIterable } from './observableToAsyncIterable';
+
+const hasGlobal = typeof global !== 'undefined';
+
+// the subprotocol names are as registered by each protocol, the protocol of
+// the graphql-ws package having taken a new name to avoid the confusion
+const SUBPROTOCOLS = {
+  'graphql-ws': 'graphql-transport-ws',
+  'subscriptions-transport-ws': 'graphql-ws',
+};
+
+const WEBSOCKET_OPEN = 1;
+
+interface OperationPayload {
+  query: string;
+  variables?: Record<string, any>;
+}
+
+interface OperationObserver {
+  next: (value: ExecutionResult) => void;
+  error: (error: Error) => void;
+  complete: () => void;
+}
+
+interface ConnectionOptions {
+  url: string;
+  protocol: 'graphql-ws' | 'subscriptions-transport-ws';
+  connectionParams: Record<string, any>;
+  webSocketImpl: WebSocketImpl;
+  retryAttempts: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+}
+
+/**
+ * Returns a subscriber for use as the `subscriber` of a subschema or with
+ * `makeRemoteExecutableSchema`, delegating subscriptions to a remote server
+ * over WebSocket using either the `graphql-ws` or the legacy
+ * `subscriptions-transport-ws` protocol.
+ *
+ * Connections are opened on demand and closed once their last operation is
+ * completed or its iterator returned. A connection closed unexpectedly is
+ * reopened after an exponentially increasing delay, resubscribing its
+ * operations, until `retryAttempts` consecutive attempts have failed, at which
+ * point its operations end with an error.
+ *
+ * @category Schema Delegation
+ */
+export function createWebSocketSubscriber({
+  url,
+  protocol = 'graphql-ws',
+  connectionParams,
+  webSocketImpl = getDefaultWebSocketImpl(),
+  retryAttempts = 5,
+  retryDelay = 1000,
+  maxRetryDelay = 30000,
+}: WebSocketSubscriberOptions): Delegator {
+  if (webSocketImpl == null) {
+    throw new Error(
+      'No WebSocket implementation is available, please pass one as `webSocketImpl`.',
+    );
+  }
+
+  const connections: Map<string, WebSocketConnection> = new Map();
+
+  return ({ document, context, variables }) =>
+    Promise.resolve(
+      typeof connectionParams === 'function'
+        ? connectionParams(context)
+        : connectionParams,
+    ).then((params) => {
+      const key = JSON.stringify(params != null ? params : {});
+
+      const observable = new Observable<ExecutionResult>((observer) => {
+        let connection = connections.get(key);
+        if (connection == null) {
+          connection = new WebSocketConnection(
+            {
+              url,
+              protocol,
+              connectionParams: params,
+              webSocketImpl,
+              retryAttempts,
+              retryDelay,
+              maxRetryDelay,
+            },
+            () => connections.delete(key),
+          );
+          connections.set(key, connection);
+        }
+
+        return connection.subscribe(
+          { query: print(document), variables },
+          observer,
+        );
+      });
+
+      return observableToAsyncIterable(observable);
+    });
+}
+
+function getDefaultWebSocketImpl(): WebSocketImpl {
+  return hasGlobal ? (global as any).WebSocket : undefined;
+}
+
+class WebSocketConnection {
+  private readonly options: ConnectionOptions;
+  private readonly onDispose: () => void;
+  private readonly operations: Map<
+    string,
+    { payload: OperationPayload; observer: OperationObserver }
+  > = new Map();
+
+  private socket: WebSocketLike;
+  private acknowledged = false;
+  private disposed = false;
+  private retries = 0;
+  private retryTimeout: any;
+  private nextOperationId = 1;
+
+  constructor(options: ConnectionOptions, onDispose: () => void) {
+    this.options = options;
+    this.onDispose = onDispose;
+    this.connect();
+  }
+
+  public subscribe(
+    payload: OperationPayload,
+    observer: OperationObserver,
+  ): () => void {
+    const id = String(this.nextOperationId++);
+    this.operations.set(id, { payload, observer });
+    if (this.acknowledged) {
+      this.startOperation(id, payload);
+    }
+
+    return () => {
+      // operations ended by the server have already been removed
+      if (this.operations.has(id)) {
+        if (this.acknowledged) {
+          this.send({
+            id,
+            type: this.options.protocol === 'graphql-ws' ? 'complete' : 'stop',
+          });
+        }
+        this.removeOperation(id);
+      }
+    };
+  }
+
+  private connect() {
+    const socket = new this.options.webSocketImpl(
+      this.options.url,
+      SUBPROTOCOLS[this.options.protocol],
+    );
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.send({
+        type: 'connection_init',
+        payload: this.options.connectionParams,
+      });
+    };
+    socket.onmessage = (event) => {
+      if (socket === this.socket) {
+        this.handleMessage(event.data);
+      }
+    };
+    socket.onclose = (event) => {
+      if (socket === this.socket) {
+        this.handleClose(event.code, event.reason);
+      }
+    };
+    // errors are followed by the socket closing
+    socket.onerror = () => undefined;
+  }
+
+  private handleMessage(data: any) {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      this.socket.close(4400, 'Invalid message received');
+      return;
+    }
+
+    const operation =
+      message.id != null ? this.operations.get(message.id) : undefined;
+
+    switch (message.type) {
+      case 'connection_ack':
+        this.acknowledged = true;
+        this.retries = 0;
+        this.operations.forEach(({ payload }, id) => {
+          this.startOperation(id, payload);
+        });
+        break;
+      case 'connection_error':
+        this.fail(
+          new Error(
+            `WebSocket connection to ${
+              this.options.url
+            } was rejected: ${getMessage(message.payload, 'Unknown reason')}`,
+          ),
+        );
+        break;
+      case 'ping':
+        this.send({ type: 'pong' });
+        break;
+      case 'next':
+      case 'data':
+        if (operation != null) {
+          operation.observer.next(message.payload);
+        }
+        break;
+      case 'error':
+        if (operation != null) {
+          this.removeOperation(message.id);
+          operation.observer.next({
+            errors: toGraphQLErrors(message.payload),
+          });
+          operation.observer.complete();
+        }
+        break;
+      case 'complete':
+        if (operation != null) {
+          this.removeOperation(message.id);
+          operation.observer.complete();
+        }
+        break;
+      default:
+    }
+  }
+
+  private handleClose(code: number, reason: string) {
+    this.acknowledged = false;
+
+    if (this.disposed) {
+      return;
+    }
+
+    // graphql-ws uses close codes in the 4400s for protocol and authorization
+    // failures, which would only recur if the connection were reopened
+    if (
+      (code >= 4400 && code < 4500) ||
+      this.retries >= this.options.retryAttempts
+    ) {
+      this.fail(
+        new Error(
+          `WebSocket connection to ${
+            this.options.url
+          } closed with code ${String(code)}${reason ? `: ${reason}` : ''}`,
+        ),
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.retryDelay * 2 ** this.retries,
+      this.options.maxRetryDelay,
+    );
+    this.retries++;
+    this.retryTimeout = setTimeout(() => this.connect(), delay);
+  }
+
+  private startOperation(id: string, payload: OperationPayload) {
+    this.send({
+      id,
+      type: this.options.protocol === 'graphql-ws' ? 'subscribe' : 'start',
+      payload,
+    });
+  }
+
+  private removeOperation(id: string) {
+    this.operations.delete(id);
+    if (!this.operations.size) {
+      this.dispose();
+    }
+  }
+
+  private fail(error: Error) {
+    const operations = Array.from(this.operations.values());
+    this.operations.clear();
+    this.dispose();
+    operations.forEach(({ observer }) => observer.error(error));
+  }
+
+  private dispose() {
+    if (this.disposed) {
+      return;
+    }
+
+    this.disposed = true;
+    this.onDispose();
+    clearTimeout(this.retryTimeout);
+
+    if (
+      this.acknowledged &&
+      this.options.protocol === 'subscriptions-transport-ws'
+    ) {
+      this.send({ type: 'connection_terminate' });
+    }
+    this.socket.close(1000, 'Normal Closure');
+  }
+
+  private send(message: Record<string, any>) {
+    if (this.socket.readyState === WEBSOCKET_OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+function toGraphQLErrors(payload: any): Array<GraphQLError> {
+  const errors: Array<any> = Array.isArray(payload) ? payload : [payload];
+  return errors.map(
+    (error) =>
+      new GraphQLError(
+        getMessage(error, 'Unknown error'),
+        undefined,
+        undefined,
+        undefined,
+        error != null ? error.path : undefined,
+        undefined,
+        error != null ? error.extensions : undefined,
+      ),
+  );
+}
+
+function getMessage(value: any, defaultMessage: string): string {
+  if (value == null || value.message == null) {
+    return defaultMessage;
+  }
+
+  return String(value.message);
+}
@@ -1,10 +1,97 @@
-import { GraphQLError, ASTNode } from 'graphql';
+import { GraphQLError, ASTNode, ExecutionResult } from 'graphql';
 
+/**
+ * An error standing for multiple errors from a subschema reported for the same
+ * field, e.g. when the field is null. Its message joins the messages of all
+ * the errors, available as `errors`, while its location and extensions are
+ * those of the first error.
+ *
+ * As graphql-js reports a single error per field, these errors are not
+ * expanded automatically within the results of stitched schemas. To report
+ * each error separately with its own path, results must be passed to
+ * `expandAggregateErrors`, which replaces these errors by the errors they
+ * stand for, e.g. before they are formatted by the server.
+ *
+ * @category Schema Stitching
+ */
+export class AggregateGraphQLError extends GraphQLError {
+  public readonly errors: ReadonlyArray<GraphQLError>;
+
+  constructor(errors: ReadonlyArray<GraphQLError>) {
+    super(
+      errors.map((error) => error.message).join('\n'),
+      errors[0].nodes,
+      errors[0].source,
+      errors[0].positions,
+      errors[0].path,
+      errors[0].originalError,
+      errors[0].extensions,
+    );
+    this.errors = errors;
+  }
+}
+
+/**
+ * Replaces each error within the errors of the given result standing for
+ * multiple errors from a subschema by the errors it stands for, each with its
+ * own path.
+ *
+ * @category Schema Stitching
+ */
+export function expandAggregateErrors(
+  result: ExecutionResult,
+): ExecutionResult {
+  if (result.errors == null) {
+    return result;
+  }
+
+  const errors: Array<GraphQLError> = [];
+  result.errors.forEach((error) => {
+    if (error instanceof AggregateGraphQLError) {
+      errors.push(...error.errors);
+    } else if (error.originalError instanceof AggregateGraphQLError) {
+      // the error was located by graphql-js when thrown by a resolver
+      errors.push(
+        ...relocatedError(error.originalError, error.nodes, error.path).errors,
+      );
+    } else {
+      errors.push(error);
+    }
+  });
+
+  return { ...result, errors };
+}
+
+export function relocatedError(
+  originalError: AggregateGraphQLError,
+  nodes: ReadonlyArray<ASTNode>,
+  path: ReadonlyArray<string | number>,
+): AggregateGraphQLError;
+export function relocatedError(
+  originalError: Error | GraphQLError,
+  nodes: ReadonlyArray<ASTNode>,
+  path: ReadonlyArray<string | number>,
+): GraphQLError;
 export function relocatedError(
   originalError: Error | GraphQLError,
   nodes: ReadonlyArray<ASTNode>,
   path: ReadonlyArray<string | number>,
 ): GraphQLError {
+  // each error keeps the part of its path below the field being relocated
+  if (originalError instanceof AggregateGraphQLError) {
+    return new AggregateGraphQLError(
+      originalError.errors.map((error) =>
+        relocatedError(
+          error,
+          error.nodes != null ? error.nodes : nodes,
+          path != null && error.path != null && error.path.length > 1
+            ? [...path, ...error.path.slice(1)]
+            : path,
+        ),
+      ),
+    );
+  }
+
   if (Array.isArray((originalError as GraphQLError).path)) {
     return new GraphQLError(
       (originalError as GraphQLError).message,
@@ -67,31 +154,43 @@ export function getErrorsByPathSegment(
   return record;
 }
 
-class CombinedError extends Error {
-  public errors: ReadonlyArray<GraphQLError>;
-  constructor(message: string, errors: ReadonlyArray<GraphQLError>) {
-    super(message);
-    this.errors = errors;
-  }
-}
-
 export function combineErrors(
   errors: ReadonlyArray<GraphQLError>,
-): GraphQLError | CombinedError {
-  if (errors.length === 1) {
+): GraphQLError {
+  const flattenedErrors: Array<GraphQLError> = [];
+  errors.forEach((error) => {
+    if (error instanceof AggregateGraphQLError) {
+      flattenedErrors.push(...error.errors);
+    } else {
+      flattenedErrors.push(error);
+    }
+  });
+
+  if (flattenedErrors.length === 1) {
     return new GraphQLError(
-      errors[0].message,
-      errors[0].nodes,
-      errors[0].source,
-      errors[0].positions,
-      errors[0].path,
-      errors[0].originalError,
-      errors[0].extensions,
+      flattenedErrors[0].message,
+      flattenedErrors[0].nodes,
+      flattenedErrors[0].source,
+      flattenedErrors[0].positions,
+      flattenedErrors[0].path,
+      flattenedErrors[0].originalError,
+      flattenedErrors[0].extensions,
     );
   }
 
-  return new CombinedError(
-    errors.map((error) => error.message).join('\n'),
-    errors,
+  return new AggregateGraphQLError(
+    flattenedErrors.map((error) =>
+      error instanceof GraphQLError
+        ? error
+        : new GraphQLError(
+            (error as GraphQLError).message,
+            undefined,
+            undefined,
+            undefined,
+            (error as GraphQLError).path,
+            undefined,
+            (error as GraphQLError).extensions,
+          ),
+    ),
   );
 }
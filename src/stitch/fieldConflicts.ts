@@ -0,0 +1,178 @@
+import { GraphQLField, GraphQLObjectType, getNullableType } from 'graphql';
+import { TypeMap } from 'graphql/type/schema';
+
+import {
+  MergedFieldCandidate,
+  MergedTypeConfig,
+  SubschemaConfig,
+} from '../Interfaces';
+
+import MergeConflictError from './MergeConflictError';
+
+/**
+ * Determines the owner of each field of a merged type that is shared by
+ * multiple subschemas, according to the `canonical` and `prefer` options of
+ * the merged type configuration. Shared fields without an owner are routed to
+ * any subschema that can provide them.
+ *
+ * Throws a `MergeConflictError` if a shared field is defined with different
+ * types, has multiple canonical subschemas, has no canonical subschema while
+ * subschemas declare different `prefer` options, or, if `failOnFieldConflict`
+ * is set, has differing signatures.
+ */
+export function resolveFieldConflicts(
+  typeName: string,
+  candidateSubschemas: Array<SubschemaConfig>,
+  typeMaps: Map<SubschemaConfig, TypeMap>,
+  mergedTypeConfigs: Map<SubschemaConfig, MergedTypeConfig>,
+): Record<string, SubschemaConfig> {
+  const targetSubschemas = Array.from(mergedTypeConfigs.keys());
+  const configs = Array.from(mergedTypeConfigs.values());
+  const preferOptions: Array<MergedTypeConfig['prefer']> = [];
+  configs.forEach((config) => {
+    if (config.prefer != null && !preferOptions.includes(config.prefer)) {
+      preferOptions.push(config.prefer);
+    }
+  });
+  const failOnFieldConflict = configs.some(
+    (config) => config.failOnFieldConflict,
+  );
+
+  const fieldCandidates: Record<
+    string,
+    Array<MergedFieldCandidate>
+  > = Object.create(null);
+  candidateSubschemas.forEach((subschema) => {
+    const type = typeMaps.get(subschema)[typeName] as GraphQLObjectType;
+    const fieldMap = type.getFields();
+    Object.keys(fieldMap).forEach((fieldName) => {
+      if (fieldCandidates[fieldName] == null) {
+        fieldCandidates[fieldName] = [];
+      }
+      fieldCandidates[fieldName].push({
+        field: fieldMap[fieldName],
+        subschema,
+      });
+    });
+  });
+
+  const fieldOwners: Record<string, SubschemaConfig> = Object.create(null);
+
+  Object.keys(fieldCandidates).forEach((fieldName) => {
+    const candidates = fieldCandidates[fieldName];
+    if (candidates.length < 2) {
+      return;
+    }
+
+    if (
+      !allEqual(candidates.map(({ field }) => getNullableTypeString(field)))
+    ) {
+      throw new MergeConflictError(
+        `Cannot merge field "${typeName}.${fieldName}": subschemas define ` +
+          `it with different types (${candidates
+            .map(({ field }) => String(field.type))
+            .join(', ')}).`,
+        typeName,
+        fieldName,
+        candidates,
+      );
+    }
+
+    if (
+      failOnFieldConflict &&
+      !allEqual(candidates.map(({ field }) => getFieldSignature(field)))
+    ) {
+      throw new MergeConflictError(
+        `Cannot merge field "${typeName}.${fieldName}": subschemas define ` +
+          'it with differing signatures.',
+        typeName,
+        fieldName,
+        candidates,
+      );
+    }
+
+    const canonicalCandidates = candidates.filter(({ subschema }) =>
+      isCanonical(mergedTypeConfigs.get(subschema), fieldName),
+    );
+    if (canonicalCandidates.length > 1) {
+      throw new MergeConflictError(
+        `Cannot merge field "${typeName}.${fieldName}": multiple subschemas ` +
+          'are designated as canonical.',
+        typeName,
+        fieldName,
+        canonicalCandidates,
+      );
+    } else if (canonicalCandidates.length) {
+      fieldOwners[fieldName] = canonicalCandidates[0].subschema;
+      return;
+    }
+
+    if (!preferOptions.length) {
+      return;
+    } else if (preferOptions.length > 1) {
+      throw new MergeConflictError(
+        `Cannot merge field "${typeName}.${fieldName}": subschemas declare ` +
+          'different prefer options.',
+        typeName,
+        fieldName,
+        candidates,
+      );
+    }
+
+    const targetCandidates = candidates.filter(({ subschema }) =>
+      targetSubschemas.includes(subschema),
+    );
+    if (!targetCandidates.length) {
+      return;
+    }
+
+    const prefer = preferOptions[0];
+    const preferredCandidate =
+      prefer === 'first'
+        ? targetCandidates[0]
+        : prefer === 'last'
+        ? targetCandidates[targetCandidates.length - 1]
+        : prefer(targetCandidates, typeName, fieldName);
+    if (preferredCandidate != null) {
+      fieldOwners[fieldName] = preferredCandidate.subschema;
+    }
+  });
+
+  return fieldOwners;
+}
+
+function isCanonical(
+  mergedTypeConfig: MergedTypeConfig,
+  fieldName: string,
+): boolean {
+  if (mergedTypeConfig == null) {
+    return false;
+  }
+
+  const canonical = mergedTypeConfig.canonical;
+  return Array.isArray(canonical)
+    ? canonical.includes(fieldName)
+    : Boolean(canonical);
+}
+
+function getNullableTypeString(field: GraphQLField<any, any>): string {
+  return String(getNullableType(field.type));
+}
+
+function getFieldSignature(field: GraphQLField<any, any>): string {
+  return JSON.stringify({
+    type: String(field.type),
+    args: field.args.map((arg) => ({
+      name: arg.name,
+      type: String(arg.type),
+      defaultValue: arg.defaultValue,
+      description: arg.description,
+    })),
+    description: field.description,
+    deprecationReason: field.deprecationReason,
+  });
+}
+
+function allEqual(values: Array<string>): boolean {
+  return values.every((value) => value === values[0]);
+}
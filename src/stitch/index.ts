@@ -294,6 +294,18 @@
  *
  * Specifying the remote schema options within the `mergeSchemas` call itself allows for skipping an additional round of delegation. The old method of using [makeRemoteExecutableSchema](/remote-schemas/) to create a local proxy for the remote schema would still work, and the same arguments are supported. See the [remote schema](/remote-schemas/) docs for further description of the options available. Subschema configuration allows for specifying an ApolloLink `link`, any fetcher method (if not using subscriptions), or a dispatcher function that takes the graphql `context` object as an argument and dynamically returns a link object or fetcher method.
  *
+ * ## Errors from subschemas
+ *
+ * Errors from subschemas keep their own paths within the gateway result. However, graphql-js reports at most one error per field, so when a subschema returns several errors for the same field, e.g. for a field that is null as well as for fields within it, they are reported by a single `AggregateGraphQLError`, whose message joins their messages. To report each of these errors separately with its own path, pass the result of the execution of the stitched schema to `expandAggregateErrors`, e.g. before formatting it within your server:
+ *
+ * ```js
+ * import { expandAggregateErrors } from 'graphql-tools';
+ *
+ * const result = expandAggregateErrors(
+ *   await graphql(stitchedSchema, query, rootValue, context, variables),
+ * );
+ * ```
+ *
  * ## API
  *
  * ### schemas
@@ -446,16 +458,46 @@
  */
 
 import introspectSchema from './introspectSchema';
+import introspectSchemaWithCache from './introspectSchemaWithCache';
+import { createFileIntrospectionCache } from './createFileIntrospectionCache';
 import mergeSchemas from './mergeSchemas';
 import defaultMergedResolver from './defaultMergedResolver';
 import { createMergedResolver } from './createMergedResolver';
 import { dehoistResult, unwrapResult } from './proxiedResult';
+import MergeConflictError from './MergeConflictError';
+import { validateMergedSchemas } from './validateMergedSchemas';
+import {
+  addMergedTypeConfigFromDirectives,
+  stitchingDirectivesTypeDefs,
+} from './stitchingDirectives';
+import StitchedGateway, { StitchedGatewayOptions } from './StitchedGateway';
+import { createWebSocketSubscriber } from './createWebSocketSubscriber';
+import { AggregateGraphQLError, expandAggregateErrors } from './errors';
+import {
+  getOperationCost,
+  createCostLimitRule,
+  costDirectiveTypeDefs,
+} from './operationCost';
 
 export {
   introspectSchema,
+  introspectSchemaWithCache,
+  createFileIntrospectionCache,
   mergeSchemas,
   defaultMergedResolver,
   createMergedResolver,
   dehoistResult,
   unwrapResult,
+  MergeConflictError,
+  validateMergedSchemas,
+  addMergedTypeConfigFromDirectives,
+  stitchingDirectivesTypeDefs,
+  StitchedGateway,
+  StitchedGatewayOptions,
+  createWebSocketSubscriber,
+  AggregateGraphQLError,
+  expandAggregateErrors,
+  getOperationCost,
+  createCostLimitRule,
+  costDirectiveTypeDefs,
 };
@@ -33,8 +33,7 @@ export default function introspectSchema(
       !introspectionResult.data.__schema
     ) {
       if (Array.isArray(introspectionResult.errors)) {
-        const combinedError: Error = combineErrors(introspectionResult.errors);
-        throw combinedError;
+        throw combineErrors(introspectionResult.errors);
       } else {
         throw new Error(
           'Could not obtain introspection result, received: ' +
@@ -0,0 +1,123 @@
+import { ApolloLink } from 'apollo-link';
+import {
+  GraphQLSchema,
+  buildClientSchema,
+  buildSchema,
+  introspectionFromSchema,
+  printSchema,
+} from 'graphql';
+
+import {
+  CachedIntrospectionResult,
+  Fetcher,
+  IntrospectionCacheEntry,
+  IntrospectionCacheOptions,
+} from '../Interfaces';
+import { diffSchemas } from '../utils/index';
+
+import introspectSchema from './introspectSchema';
+
+/**
+ * Introspects the remote schema as `introspectSchema` does, storing the
+ * result within the given cache under `key` as SDL or, if `format` is
+ * `'introspection'`, as the introspection result.
+ *
+ * If the live introspection query fails, the cached schema is returned
+ * instead, unless it is older than `maxAge` milliseconds or there is no
+ * cached schema, in which case the live error is thrown. Failures to write to
+ * the cache are reported as `cacheError` rather than thrown.
+ *
+ * @category Schema Stitching
+ */
+export default function introspectSchemaWithCache(
+  linkOrFetcher: ApolloLink | Fetcher,
+  {
+    cache,
+    key,
+    format = 'sdl',
+    maxAge,
+    linkContext,
+  }: IntrospectionCacheOptions,
+): Promise<CachedIntrospectionResult> {
+  const cachedEntry = Promise.resolve()
+    .then(() => cache.read(key))
+    .catch((): IntrospectionCacheEntry => undefined);
+
+  return introspectSchema(linkOrFetcher, linkContext).then(
+    (schema) =>
+      cachedEntry.then((entry) => {
+        const timestamp = Date.now();
+        const result: CachedIntrospectionResult = {
+          schema,
+          source: 'live',
+          stale: false,
+          timestamp,
+        };
+
+        const cachedSchema = tryBuildSchemaFromCacheEntry(entry);
+        if (cachedSchema != null) {
+          const changes = diffSchemas(cachedSchema, schema);
+          if (changes.length) {
+            result.changes = changes;
+          }
+        }
+
+        return Promise.resolve()
+          .then(() =>
+            cache.write(key, createCacheEntry(schema, format, timestamp)),
+          )
+          .then(
+            () => result,
+            (cacheError) => ({ ...result, cacheError }),
+          );
+      }),
+    (error) =>
+      cachedEntry.then((entry) => {
+        const cachedSchema = tryBuildSchemaFromCacheEntry(entry);
+        if (
+          cachedSchema == null ||
+          (maxAge != null && Date.now() - entry.timestamp > maxAge)
+        ) {
+          throw error;
+        }
+
+        return {
+          schema: cachedSchema,
+          source: 'cache',
+          stale: true,
+          timestamp: entry.timestamp,
+          error,
+        };
+      }),
+  );
+}
+
+function createCacheEntry(
+  schema: GraphQLSchema,
+  format: 'sdl' | 'introspection',
+  timestamp: number,
+): IntrospectionCacheEntry {
+  return format === 'introspection'
+    ? { introspection: introspectionFromSchema(schema), timestamp }
+    : { sdl: printSchema(schema), timestamp };
+}
+
+function tryBuildSchemaFromCacheEntry(
+  entry: IntrospectionCacheEntry,
+): GraphQLSchema {
+  if (entry == null) {
+    return undefined;
+  }
+
+  try {
+    if (entry.introspection != null) {
+      return buildClientSchema(entry.introspection);
+    } else if (entry.sdl != null) {
+      return buildSchema(entry.sdl);
+    }
+  } catch (error) {
+    // an unreadable cache entry is treated as missing
+  }
+
+  return undefined;
+}
@@ -1,4 +1,10 @@
-import { FieldNode, SelectionNode, Kind } from 'graphql';
+import {
+  FieldNode,
+  GraphQLError,
+  Kind,
+  SelectionNode,
+  SelectionSetNode,
+} from 'graphql';
 
 import {
   SubschemaConfig,
@@ -6,7 +12,131 @@ import {
   MergedTypeInfo,
 } from '../Interfaces';
 
-import { mergeProxiedResults } from './proxiedResult';
+import {
+  ERROR_SYMBOL,
+  mergeProxiedResults,
+  setErrors,
+  setObjectSubschema,
+} from './proxiedResult';
+import { relocatedError } from './errors';
+
+function isProxiable(
+  mergedTypeInfo: MergedTypeInfo,
+  targetSubschema: SubschemaConfig,
+  sourceSubschemas: Array<SubschemaConfig>,
+): boolean {
+  const fieldSelectionSets = mergedTypeInfo.fieldSelectionSets.get(
+    targetSubschema,
+  );
+  if (fieldSelectionSets == null) {
+    return false;
+  }
+
+  return fieldSelectionSets.every((fieldSelectionSet) =>
+    sourceSubschemas.some((s) =>
+      mergedTypeInfo.containsSelectionSet.get(s).get(fieldSelectionSet),
+    ),
+  );
+}
+
+// Plans how to collect the fields required to delegate to the given target
+// subschema that are not available from the source subschemas, by fetching
+// them from other subschemas, which may in turn require their own fields.
+// Returns the additional selections to request from each proxiable subschema,
+// or null if the required fields cannot be collected.
+function planRequiredSelections(
+  mergedTypeInfo: MergedTypeInfo,
+  targetSubschema: SubschemaConfig,
+  sourceSubschemas: Array<SubschemaConfig>,
+  proxiableSubschemas: Array<SubschemaConfig>,
+  nonProxiableSubschemas: Array<SubschemaConfig>,
+  visitedSubschemas: Array<SubschemaConfig>,
+): Map<SubschemaConfig, Array<SelectionNode>> {
+  if (visitedSubschemas.includes(targetSubschema)) {
+    return null;
+  }
+
+  const fieldSelectionSets = mergedTypeInfo.fieldSelectionSets.get(
+    targetSubschema,
+  );
+  if (fieldSelectionSets == null) {
+    return null;
+  }
+
+  const containsSelectionSet = (
+    subschema: SubschemaConfig,
+    selectionSet: SelectionSetNode,
+  ) => mergedTypeInfo.containsSelectionSet.get(subschema).get(selectionSet);
+
+  const plan: Map<SubschemaConfig, Array<SelectionNode>> = new Map();
+  const visited = visitedSubschemas.concat([targetSubschema]);
+
+  for (const fieldSelectionSet of fieldSelectionSets) {
+    if (
+      sourceSubschemas.some((s) => containsSelectionSet(s, fieldSelectionSet))
+    ) {
+      continue;
+    }
+
+    const proxiableSubschema = proxiableSubschemas.find((s) =>
+      containsSelectionSet(s, fieldSelectionSet),
+    );
+    if (proxiableSubschema != null) {
+      addSelections(plan, proxiableSubschema, fieldSelectionSet.selections);
+      continue;
+    }
+
+    let intermediatePlan: Map<SubschemaConfig, Array<SelectionNode>>;
+    for (const s of nonProxiableSubschemas) {
+      if (containsSelectionSet(s, fieldSelectionSet)) {
+        intermediatePlan = planRequiredSelections(
+          mergedTypeInfo,
+          s,
+          sourceSubschemas,
+          proxiableSubschemas,
+          nonProxiableSubschemas,
+          visited,
+        );
+        if (intermediatePlan != null) {
+          break;
+        }
+      }
+    }
+
+    if (intermediatePlan == null) {
+      return null;
+    }
+
+    intermediatePlan.forEach((selections, s) => {
+      addSelections(plan, s, selections);
+    });
+  }
+
+  return plan;
+}
+
+function addSelections(
+  delegationMap: Map<SubschemaConfig, Array<SelectionNode>>,
+  subschema: SubschemaConfig,
+  selections: ReadonlyArray<SelectionNode>,
+) {
+  const existingSelections = delegationMap.get(subschema);
+  if (existingSelections != null) {
+    existingSelections.push(...selections);
+  } else {
+    delegationMap.set(subschema, selections.slice());
+  }
+}
+
+function getUniqueSubschema(
+  mergedTypeInfo: MergedTypeInfo,
+  fieldName: string,
+): SubschemaConfig {
+  const uniqueSubschema = mergedTypeInfo.uniqueFields[fieldName];
+  return uniqueSubschema != null
+    ? uniqueSubschema
+    : mergedTypeInfo.fieldOwners[fieldName];
+}
 
 function buildDelegationPlan(
   mergedTypeInfo: MergedTypeInfo,
@@ -19,43 +149,36 @@ function buildDelegationPlan(
   proxiableSubschemas: Array<SubschemaConfig>;
   nonProxiableSubschemas: Array<SubschemaConfig>;
 } {
-  // 1.  calculate if possible to delegate to given subschema
-  //    TODO: change logic so that required selection set can be spread across multiple subschemas?
+  // 1.  calculate if possible to delegate to given subschema, i.e. whether
+  //     each required field is available from one of the source subschemas
 
   const proxiableSubschemas: Array<SubschemaConfig> = [];
   const nonProxiableSubschemas: Array<SubschemaConfig> = [];
 
   targetSubschemas.forEach((t) => {
-    if (
-      sourceSubschemas.some((s) => {
-        const selectionSet = mergedTypeInfo.selectionSets.get(t);
-        return mergedTypeInfo.containsSelectionSet.get(s).get(selectionSet);
-      })
-    ) {
+    if (isProxiable(mergedTypeInfo, t, sourceSubschemas)) {
       proxiableSubschemas.push(t);
     } else {
       nonProxiableSubschemas.push(t);
     }
   });
 
-  const { uniqueFields, nonUniqueFields } = mergedTypeInfo;
+  const { nonUniqueFields } = mergedTypeInfo;
   const unproxiableSelections: Array<FieldNode> = [];
 
   // 2. for each selection:
 
   const delegationMap: Map<SubschemaConfig, Array<SelectionNode>> = new Map();
   originalSelections.forEach((selection) => {
-    // 2a. use uniqueFields map to assign fields to subschema if one of possible subschemas
+    // 2a. use uniqueFields and fieldOwners maps to assign fields to subschema if one of possible subschemas
 
-    const uniqueSubschema: SubschemaConfig = uniqueFields[selection.name.value];
+    const uniqueSubschema = getUniqueSubschema(
+      mergedTypeInfo,
+      selection.name.value,
+    );
     if (uniqueSubschema != null) {
       if (proxiableSubschemas.includes(uniqueSubschema)) {
-        const existingSubschema = delegationMap.get(uniqueSubschema);
-        if (existingSubschema != null) {
-          existingSubschema.push(selection);
-        } else {
-          delegationMap.set(uniqueSubschema, [selection]);
-        }
+        addSelections(delegationMap, uniqueSubschema, [selection]);
       } else {
         unproxiableSelections.push(selection);
       }
@@ -63,12 +186,10 @@ function buildDelegationPlan(
       // 2b. use nonUniqueFields to assign to a possible subschema,
       //     preferring one of the subschemas already targets of delegation
 
-      let nonUniqueSubschemas: Array<SubschemaConfig> =
-        nonUniqueFields[selection.name.value];
-      nonUniqueSubschemas = nonUniqueSubschemas.filter((s) =>
-        proxiableSubschemas.includes(s),
-      );
-      if (nonUniqueSubschemas != null) {
+      const nonUniqueSubschemas: Array<SubschemaConfig> = nonUniqueFields[
+        selection.name.value
+      ].filter((s) => proxiableSubschemas.includes(s));
+      if (nonUniqueSubschemas.length) {
         const subschemas: Array<SubschemaConfig> = Array.from(
           delegationMap.keys(),
         );
@@ -86,6 +207,40 @@ function buildDelegationPlan(
     }
   });
 
+  // 3. for each unproxiable selection, request the fields required by one of
+  //    the subschemas that could provide it from intermediate subschemas, so
+  //    that it can be delegated to within a later round
+
+  unproxiableSelections.forEach((selection) => {
+    const uniqueSubschema = getUniqueSubschema(
+      mergedTypeInfo,
+      selection.name.value,
+    );
+    const possibleSubschemas: Array<SubschemaConfig> =
+      uniqueSubschema != null
+        ? [uniqueSubschema]
+        : nonUniqueFields[selection.name.value];
+
+    for (const s of possibleSubschemas) {
+      if (nonProxiableSubschemas.includes(s)) {
+        const plan = planRequiredSelections(
+          mergedTypeInfo,
+          s,
+          sourceSubschemas,
+          proxiableSubschemas,
+          nonProxiableSubschemas,
+          [],
+        );
+        if (plan != null) {
+          plan.forEach((selections, subschema) => {
+            addSelections(delegationMap, subschema, selections);
+          });
+          break;
+        }
+      }
+    }
+  });
+
   return {
     delegationMap,
     unproxiableSelections,
@@ -121,17 +276,41 @@ export function mergeFields(
   );
 
   if (!delegationMap.size) {
+    if (unproxiableSelections.length) {
+      setErrors(
+        object,
+        object[ERROR_SYMBOL].concat(
+          unproxiableSelections.map((selection) =>
+            createUnresolvableFieldError(typeName, selection),
+          ),
+        ),
+      );
+    }
     return object;
   }
 
   const maybePromises: Promise<any> | any = [];
   delegationMap.forEach(
     (selections: Array<SelectionNode>, s: SubschemaConfig) => {
-      const maybePromise = s.merge[typeName].resolve(object, context, info, s, {
-        kind: Kind.SELECTION_SET,
-        selections,
-      });
-      maybePromises.push(maybePromise);
+      let maybePromise: Promise<any> | any;
+      try {
+        maybePromise = mergedTypeInfo.mergedTypeConfigs
+          .get(s)
+          .resolve(object, context, info, s, {
+            kind: Kind.SELECTION_SET,
+            selections,
+          });
+      } catch (error) {
+        maybePromise = error;
+      }
+      maybePromises.push(
+        maybePromise instanceof Promise
+          ? maybePromise.then(
+              (result) => handleMergedResult(result, s, selections),
+              (error) => handleMergedResult(error, s, selections),
+            )
+          : handleMergedResult(maybePromise, s, selections),
+      );
     },
   );
 
@@ -167,3 +346,55 @@ export function mergeFields(
         info,
       );
 }
+
+// A merged type resolver failing, whether by throwing or by returning an error
+// or null, only fails the fields requested from that subschema, so that the
+// fields already resolved by the other subschemas are preserved.
+function handleMergedResult(
+  result: any,
+  subschema: SubschemaConfig,
+  selections: Array<SelectionNode>,
+): any {
+  if (result != null && !(result instanceof Error)) {
+    return result;
+  }
+
+  const object = Object.create(null);
+  setErrors(
+    object,
+    result != null
+      ? selections
+          .filter((selection) => selection.kind === Kind.FIELD)
+          .map((selection: FieldNode) =>
+            relocatedError(
+              result,
+              [selection],
+              [
+                selection.alias != null
+                  ? selection.alias.value
+                  : selection.name.value,
+              ],
+            ),
+          )
+      : [],
+  );
+  setObjectSubschema(object, subschema);
+  return object;
+}
+
+function createUnresolvableFieldError(
+  typeName: string,
+  selection: FieldNode,
+): GraphQLError {
+  const responseKey =
+    selection.alias != null ? selection.alias.value : selection.name.value;
+  return new GraphQLError(
+    `Cannot resolve field "${typeName}.${selection.name.value}": ` +
+      'the fields required to merge it from a subschema providing it cannot be ' +
+      'resolved from the other subschemas.',
+    [selection],
+    undefined,
+    undefined,
+    [responseKey],
+  );
+}
@@ -5,6 +5,8 @@ import {
   Kind,
   SelectionNode,
   SelectionSetNode,
+  getNamedType,
+  isAbstractType,
   isObjectType,
   isScalarType,
 } from 'graphql';
@@ -18,6 +20,7 @@ import {
   SubschemaConfig,
   IGraphQLToolsResolveInfo,
   MergedTypeInfo,
+  MergedTypeConfig,
   Transform,
 } from '../Interfaces';
 import { ExpandAbstractTypes, AddReplacementFragments } from '../wrap/index';
@@ -29,6 +32,9 @@ import {
 } from '../utils/index';
 
 import delegateToSchema from '../delegate/delegateToSchema';
+import batchDelegateToSchema from '../delegate/batchDelegateToSchema';
+
+import { resolveFieldConflicts } from './fieldConflicts';
 
 type MergeTypeCandidate = {
   type: GraphQLNamedType;
@@ -37,6 +43,19 @@ type MergeTypeCandidate = {
   transformedSubschema?: GraphQLSchema;
 };
 
+const mergeInfos: WeakMap<GraphQLSchema, MergeInfo> = new WeakMap();
+
+export function setSchemaMergeInfo(
+  schema: GraphQLSchema,
+  mergeInfo: MergeInfo,
+) {
+  mergeInfos.set(schema, mergeInfo);
+}
+
+export function getSchemaMergeInfo(schema: GraphQLSchema): MergeInfo {
+  return mergeInfos.get(schema);
+}
+
 export function createMergeInfo(
   allSchemas: Array<GraphQLSchema>,
   typeCandidates: { [name: string]: Array<MergeTypeCandidate> },
@@ -101,12 +120,39 @@ function createMergedTypes(
 
   Object.keys(typeCandidates).forEach((typeName) => {
     if (isObjectType(typeCandidates[typeName][0].type)) {
-      const mergedTypeCandidates = typeCandidates[typeName].filter(
-        (typeCandidate) =>
+      // copies of the merged type configuration of each subschema, including
+      // configuration for an interface or union of the type, so that the
+      // subschema configuration of the caller is left untouched
+      const mergedTypeConfigs: Map<
+        SubschemaConfig,
+        MergedTypeConfig
+      > = new Map();
+      typeCandidates[typeName].forEach((typeCandidate) => {
+        if (
           typeCandidate.subschema != null &&
           isSubschemaConfig(typeCandidate.subschema) &&
-          typeCandidate.subschema.merge != null &&
-          typeCandidate.subschema.merge[typeName] != null,
+          typeCandidate.subschema.merge != null
+        ) {
+          const mergedTypeConfig =
+            typeCandidate.subschema.merge[typeName] != null
+              ? typeCandidate.subschema.merge[typeName]
+              : getAbstractMergedTypeConfig(
+                  typeCandidate.subschema,
+                  typeCandidate.transformedSubschema,
+                  typeName,
+                );
+          if (mergedTypeConfig != null) {
+            mergedTypeConfigs.set(typeCandidate.subschema, {
+              ...mergedTypeConfig,
+            });
+          }
+        }
+      });
+
+      const mergedTypeCandidates = typeCandidates[
+        typeName
+      ].filter((typeCandidate) =>
+        mergedTypeConfigs.has(typeCandidate.subschema as SubschemaConfig),
       );
 
       if (
@@ -124,6 +170,10 @@ function createMergedTypes(
         const fields = Object.create({});
         const typeMaps: Map<SubschemaConfig, TypeMap> = new Map();
         const selectionSets: Map<SubschemaConfig, SelectionSetNode> = new Map();
+        const fieldSelectionSets: Map<
+          SubschemaConfig,
+          Array<SelectionSetNode>
+        > = new Map();
 
         mergedTypeCandidates.forEach((typeCandidate) => {
           const subschemaConfig = typeCandidate.subschema as SubschemaConfig;
@@ -140,7 +190,7 @@ function createMergedTypes(
             fields[fieldName].push(subschemaConfig);
           });
 
-          const mergedTypeConfig = subschemaConfig.merge[typeName];
+          const mergedTypeConfig = mergedTypeConfigs.get(subschemaConfig);
 
           if (mergedTypeConfig.selectionSet) {
             const selectionSet = parseSelectionSet(
@@ -150,9 +200,49 @@ function createMergedTypes(
               selectionSet.selections,
             );
             selectionSets.set(subschemaConfig, selectionSet);
+            // each required field is tracked separately, so that required
+            // fields can be collected from multiple subschemas
+            fieldSelectionSets.set(
+              subschemaConfig,
+              selectionSet.selections.map((selection) => ({
+                kind: Kind.SELECTION_SET,
+                selections: [selection],
+              })),
+            );
           }
 
-          if (!mergedTypeConfig.resolve) {
+          // fields returning an interface or union require the selection set
+          // to be wrapped within a fragment on the merged type
+          const getSelectionSet = returnsAbstractType(
+            transformedSubschema,
+            mergedTypeConfig.fieldName,
+          )
+            ? (selectionSet: SelectionSetNode) =>
+                createTypeSelectionSet(typeName, selectionSet)
+            : (selectionSet: SelectionSetNode) => selectionSet;
+
+          if (!mergedTypeConfig.resolve && mergedTypeConfig.key != null) {
+            mergedTypeConfig.resolve = (
+              originalResult,
+              context,
+              info,
+              subschema,
+              selectionSet,
+            ) =>
+              batchDelegateToSchema({
+                schema: subschema,
+                operation: 'query',
+                fieldName: mergedTypeConfig.fieldName,
+                returnType: info.schema.getType(typeName) as GraphQLObjectType,
+                key: mergedTypeConfig.key(originalResult),
+                argsFromKeys: mergedTypeConfig.argsFromKeys,
+                valuesFromResults: mergedTypeConfig.valuesFromResults,
+                selectionSet: getSelectionSet(selectionSet),
+                context,
+                info,
+                skipTypeMerging: true,
+              });
+          } else if (!mergedTypeConfig.resolve) {
             mergedTypeConfig.resolve = (
               originalResult,
               context,
@@ -164,8 +254,9 @@ function createMergedTypes(
                 schema: subschema,
                 operation: 'query',
                 fieldName: mergedTypeConfig.fieldName,
+                returnType: info.schema.getType(typeName) as GraphQLObjectType,
                 args: mergedTypeConfig.args(originalResult),
-                selectionSet,
+                selectionSet: getSelectionSet(selectionSet),
                 context,
                 info,
                 skipTypeMerging: true,
@@ -175,17 +266,44 @@ function createMergedTypes(
           subschemas.push(subschemaConfig);
         });
 
+        // subschemas without merged type configuration cannot be delegated to,
+        // but may still serve as the source of merged type results
+        typeCandidates[typeName].forEach((typeCandidate) => {
+          if (
+            typeCandidate.subschema != null &&
+            isSubschemaConfig(typeCandidate.subschema) &&
+            !typeMaps.has(typeCandidate.subschema)
+          ) {
+            typeMaps.set(
+              typeCandidate.subschema,
+              typeCandidate.transformedSubschema.getTypeMap(),
+            );
+          }
+        });
+
+        const candidateSubschemas = typeCandidates[typeName]
+          .map((typeCandidate) => typeCandidate.subschema)
+          .filter((subschema) => typeMaps.has(subschema as SubschemaConfig));
+
         mergedTypes[typeName] = {
           subschemas,
+          mergedTypeConfigs,
           typeMaps,
           selectionSets,
+          fieldSelectionSets,
+          fieldOwners: resolveFieldConflicts(
+            typeName,
+            candidateSubschemas as Array<SubschemaConfig>,
+            typeMaps,
+            mergedTypeConfigs,
+          ),
           containsSelectionSet: new Map(),
           uniqueFields: Object.create({}),
           nonUniqueFields: Object.create({}),
         };
 
-        subschemas.forEach((subschema) => {
-          const type = typeMaps.get(subschema)[typeName] as GraphQLObjectType;
+        typeMaps.forEach((typeMap, subschema) => {
+          const type = typeMap[typeName] as GraphQLObjectType;
           const subschemaMap = new Map();
           subschemas
             .filter((s) => s !== subschema)
@@ -197,6 +315,14 @@ function createMergedTypes(
               ) {
                 subschemaMap.set(selectionSet, true);
               }
+              const fieldSelectionSetsForSubschema = fieldSelectionSets.get(s);
+              if (fieldSelectionSetsForSubschema != null) {
+                fieldSelectionSetsForSubschema.forEach((fieldSelectionSet) => {
+                  if (typeContainsSelectionSet(type, fieldSelectionSet)) {
+                    subschemaMap.set(fieldSelectionSet, true);
+                  }
+                });
+              }
             });
           mergedTypes[typeName].containsSelectionSet.set(
             subschema,
@@ -227,6 +353,61 @@ function createMergedTypes(
   return mergedTypes;
 }
 
+function getAbstractMergedTypeConfig(
+  subschemaConfig: SubschemaConfig,
+  transformedSubschema: GraphQLSchema,
+  typeName: string,
+): MergedTypeConfig {
+  const type = transformedSubschema.getType(typeName) as GraphQLObjectType;
+  const abstractTypeName = Object.keys(subschemaConfig.merge).find(
+    (mergedTypeName) => {
+      const abstractType = transformedSubschema.getType(mergedTypeName);
+      return (
+        isAbstractType(abstractType) &&
+        transformedSubschema.isPossibleType(abstractType, type)
+      );
+    },
+  );
+  return abstractTypeName != null
+    ? subschemaConfig.merge[abstractTypeName]
+    : undefined;
+}
+
+function returnsAbstractType(
+  schema: GraphQLSchema,
+  fieldName: string,
+): boolean {
+  const queryType = schema.getQueryType();
+  if (queryType == null || fieldName == null) {
+    return false;
+  }
+
+  const field = queryType.getFields()[fieldName];
+  return field != null && isAbstractType(getNamedType(field.type));
+}
+
+function createTypeSelectionSet(
+  typeName: string,
+  selectionSet: SelectionSetNode,
+): SelectionSetNode {
+  return {
+    kind: Kind.SELECTION_SET,
+    selections: [
+      {
+        kind: Kind.INLINE_FRAGMENT,
+        typeCondition: {
+          kind: Kind.NAMED_TYPE,
+          name: {
+            kind: Kind.NAME,
+            value: typeName,
+          },
+        },
+        selectionSet,
+      },
+    ],
+  };
+}
+
 export function completeMergeInfo(
   mergeInfo: MergeInfo,
   resolvers: IResolversParameter,
@@ -19,6 +19,7 @@ import {
   isInterfaceType,
   isUnionType,
   isEnumType,
+  isSpecifiedScalarType,
 } from 'graphql';
 
 import {
@@ -28,6 +29,8 @@ import {
   SchemaLikeObject,
   IResolvers,
   SubschemaConfig,
+  MergedTypeInfo,
+  MergeInfo,
 } from '../Interfaces';
 import {
   extractExtensionDefinitions,
@@ -45,9 +48,13 @@ import {
 import { toConfig, extendSchema } from '../polyfills/index';
 
 import typeFromAST from './typeFromAST';
-import { createMergeInfo, completeMergeInfo } from './mergeInfo';
+import {
+  createMergeInfo,
+  completeMergeInfo,
+  setSchemaMergeInfo,
+} from './mergeInfo';
 
-type MergeTypeCandidate = {
+export type MergeTypeCandidate = {
   type: GraphQLNamedType;
   schema?: GraphQLSchema;
   subschema?: GraphQLSchema | SubschemaConfig;
@@ -58,21 +65,7 @@ type CandidateSelector = (
   candidates: Array<MergeTypeCandidate>,
 ) => MergeTypeCandidate;
 
-export default function mergeSchemas({
-  subschemas = [],
-  types = [],
-  typeDefs,
-  schemas: schemaLikeObjects = [],
-  onTypeConflict,
-  resolvers = {},
-  schemaDirectives,
-  inheritResolversFromInterfaces,
-  mergeTypes = false,
-  mergeDirectives,
-  queryTypeName = 'Query',
-  mutationTypeName = 'Mutation',
-  subscriptionTypeName = 'Subscription',
-}: {
+export type MergeSchemasOptions = {
   subschemas?: Array<GraphQLSchema | SubschemaConfig>;
   types?: Array<GraphQLNamedType>;
   typeDefs?: string | DocumentNode;
@@ -92,7 +85,43 @@ export default function mergeSchemas({
   queryTypeName?: string;
   mutationTypeName?: string;
   subscriptionTypeName?: string;
-}): GraphQLSchema {
+};
+
+export type TypeConflictResolution = {
+  typeName: string;
+  candidates: Array<MergeTypeCandidate>;
+  resolution: 'merged' | 'onTypeConflict' | 'last';
+  selectedCandidate?: MergeTypeCandidate;
+};
+
+export default function mergeSchemas(
+  options: MergeSchemasOptions,
+): GraphQLSchema {
+  return createMergedSchema(options).schema;
+}
+
+// Merges the given schemas, returning the merged schema along with the
+// information used to create it, so that it can also be inspected.
+export function createMergedSchema({
+  subschemas = [],
+  types = [],
+  typeDefs,
+  schemas: schemaLikeObjects = [],
+  onTypeConflict,
+  resolvers = {},
+  schemaDirectives,
+  inheritResolversFromInterfaces,
+  mergeTypes = false,
+  mergeDirectives,
+  queryTypeName = 'Query',
+  mutationTypeName = 'Mutation',
+  subscriptionTypeName = 'Subscription',
+}: MergeSchemasOptions): {
+  schema: GraphQLSchema;
+  mergeInfo: MergeInfo;
+  typeCandidates: Record<string, Array<MergeTypeCandidate>>;
+  typeConflicts: Array<TypeConflictResolution>;
+} {
   const allSchemas: Array<GraphQLSchema> = [];
   const typeCandidates: { [name: string]: Array<MergeTypeCandidate> } = {};
   const typeMap: { [name: string]: GraphQLNamedType } = {};
@@ -218,25 +247,53 @@ export default function mergeSchemas({
 
   mergeInfo = completeMergeInfo(mergeInfo, finalResolvers);
 
+  const typeConflicts: Array<TypeConflictResolution> = [];
+
   Object.keys(typeCandidates).forEach((typeName) => {
-    if (
+    const isRootType =
       typeName === queryTypeName ||
       typeName === mutationTypeName ||
-      typeName === subscriptionTypeName ||
+      typeName === subscriptionTypeName;
+    if (
+      isRootType ||
       (mergeTypes === true &&
         !isScalarType(typeCandidates[typeName][0].type)) ||
       (typeof mergeTypes === 'function' &&
         mergeTypes(typeName, typeCandidates[typeName])) ||
       (Array.isArray(mergeTypes) && mergeTypes.includes(typeName)) ||
-      mergeInfo.mergedTypes[typeName] != null
+      mergeInfo.mergedTypes[typeName] != null ||
+      hasMergedTypeConfig(typeName, typeCandidates[typeName])
     ) {
-      typeMap[typeName] = merge(typeName, typeCandidates[typeName]);
+      typeMap[typeName] = merge(
+        typeName,
+        typeCandidates[typeName],
+        mergeInfo.mergedTypes[typeName],
+      );
+      if (!isRootType && typeCandidates[typeName].length > 1) {
+        typeConflicts.push({
+          typeName,
+          candidates: typeCandidates[typeName],
+          resolution: 'merged',
+        });
+      }
     } else {
       const candidateSelector =
         onTypeConflict != null
           ? onTypeConflictToCandidateSelector(onTypeConflict)
           : (cands: Array<MergeTypeCandidate>) => cands[cands.length - 1];
-      typeMap[typeName] = candidateSelector(typeCandidates[typeName]).type;
+      const selectedCandidate = candidateSelector(typeCandidates[typeName]);
+      typeMap[typeName] = selectedCandidate.type;
+      if (
+        typeCandidates[typeName].length > 1 &&
+        !isSpecifiedScalarType(selectedCandidate.type)
+      ) {
+        typeConflicts.push({
+          typeName,
+          candidates: typeCandidates[typeName],
+          resolution: onTypeConflict != null ? 'onTypeConflict' : 'last',
+          selectedCandidate,
+        });
+      }
     }
   });
 
@@ -288,7 +345,14 @@ export default function mergeSchemas({
     );
   }
 
-  return mergedSchema;
+  setSchemaMergeInfo(mergedSchema, mergeInfo);
+
+  return {
+    schema: mergedSchema,
+    mergeInfo,
+    typeCandidates,
+    typeConflicts,
+  };
 }
 
 function addTypeCandidate(
@@ -327,9 +391,36 @@ function onTypeConflictToCandidateSelector(
     });
 }
 
+// merged type configuration for an interface or union applies to all of its
+// possible types, so that the abstract type itself must also be merged
+function hasMergedTypeConfig(
+  typeName: string,
+  candidates: Array<MergeTypeCandidate>,
+): boolean {
+  return candidates.some(
+    (candidate) =>
+      candidate.subschema != null &&
+      isSubschemaConfig(candidate.subschema) &&
+      candidate.subschema.merge != null &&
+      candidate.subschema.merge[typeName] != null,
+  );
+}
+
+function uniqueTypes<T extends GraphQLNamedType>(types: Array<T>): Array<T> {
+  const typeNames = Object.create(null);
+  return types.filter((type) => {
+    if (typeNames[type.name]) {
+      return false;
+    }
+    typeNames[type.name] = true;
+    return true;
+  });
+}
+
 function merge(
   typeName: string,
   candidates: Array<MergeTypeCandidate>,
+  mergedTypeInfo?: MergedTypeInfo,
 ): GraphQLNamedType {
   const initialCandidateType = candidates[0].type;
   if (
@@ -343,19 +434,35 @@ function merge(
     );
   }
   if (isObjectType(initialCandidateType)) {
+    const fields = candidates.reduce(
+      (acc, candidate) => ({
+        ...acc,
+        ...toConfig(candidate.type).fields,
+      }),
+      {},
+    );
+
+    // shared fields with a designated owner use its definition, rather than
+    // that of the last subschema
+    if (mergedTypeInfo != null) {
+      Object.keys(mergedTypeInfo.fieldOwners).forEach((fieldName) => {
+        const owner = candidates.find(
+          (candidate) =>
+            candidate.subschema === mergedTypeInfo.fieldOwners[fieldName],
+        );
+        fields[fieldName] = toConfig(owner.type).fields[fieldName];
+      });
+    }
+
     return new GraphQLObjectType({
       name: typeName,
-      fields: candidates.reduce(
-        (acc, candidate) => ({
-          ...acc,
-          ...toConfig(candidate.type).fields,
-        }),
-        {},
+      fields,
+      interfaces: uniqueTypes(
+        candidates.reduce((acc, candidate) => {
+          const interfaces = toConfig(candidate.type).interfaces;
+          return interfaces != null ? acc.concat(interfaces) : acc;
+        }, []),
       ),
-      interfaces: candidates.reduce((acc, candidate) => {
-        const interfaces = toConfig(candidate.type).interfaces;
-        return interfaces != null ? acc.concat(interfaces) : acc;
-      }, []),
     });
   } else if (isInterfaceType(initialCandidateType)) {
     const config = {
@@ -369,19 +476,23 @@ function merge(
       ),
       interfaces:
         graphqlVersion() >= 15
-          ? candidates.reduce((acc, candidate) => {
-              const interfaces = toConfig(candidate.type).interfaces;
-              return interfaces != null ? acc.concat(interfaces) : acc;
-            }, [])
+          ? uniqueTypes(
+              candidates.reduce((acc, candidate) => {
+                const interfaces = toConfig(candidate.type).interfaces;
+                return interfaces != null ? acc.concat(interfaces) : acc;
+              }, []),
+            )
           : undefined,
     };
     return new GraphQLInterfaceType(config);
   } else if (isUnionType(initialCandidateType)) {
     return new GraphQLUnionType({
       name: typeName,
-      types: candidates.reduce(
-        (acc, candidate) => acc.concat(toConfig(candidate.type).types),
-        [],
+      types: uniqueTypes(
+        candidates.reduce(
+          (acc, candidate) => acc.concat(toConfig(candidate.type).types),
+          [],
+        ),
       ),
     });
   } else if (isEnumType(initialCandidateType)) {
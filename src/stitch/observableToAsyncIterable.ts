@@ -12,6 +12,7 @@ export function observableToAsyncIterable<T>(
   const pushQueue: Array<any> = [];
 
   let listening = true;
+  let completed = false;
 
   const pushValue = (value: any) => {
     if (pullQueue.length !== 0) {
@@ -38,18 +39,29 @@ export function observableToAsyncIterable<T>(
           ...element,
           done: false,
         });
+      } else if (completed) {
+        resolve({ value: undefined, done: true });
       } else {
         pullQueue.push(resolve);
       }
     });
 
+  // values already pushed are still yielded after the observable ends
+  const complete = () => {
+    completed = true;
+    pullQueue.forEach((resolve) => resolve({ value: undefined, done: true }));
+    pullQueue.length = 0;
+  };
+
   const subscription = observable.subscribe({
     next(value: any) {
       pushValue(value);
     },
     error(err: Error) {
       pushError(err);
+      complete();
     },
+    complete,
   });
 
   const emptyQueue = () => {
@@ -0,0 +1,580 @@
+import {
+  ASTNode,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLError,
+  GraphQLField,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  ValidationContext,
+  getNamedType,
+  getNullableType,
+  isAbstractType,
+  isInterfaceType,
+  isLeafType,
+  isListType,
+  isObjectType,
+  valueFromASTUntyped,
+} from 'graphql';
+import { TypeMap } from 'graphql/type/schema';
+
+import {
+  CostAnalysisOptions,
+  FieldCostConfig,
+  MergedTypeInfo,
+  OperationCost,
+  SubschemaConfig,
+} from '../Interfaces';
+
+import { getSchemaMergeInfo } from './mergeInfo';
+
+const COST_DIRECTIVE = 'cost';
+
+/**
+ * Definition of the `@cost` directive, to be included within the type
+ * definitions of schemas declaring field costs in SDL.
+ *
+ * @category Schema Stitching
+ */
+export const costDirectiveTypeDefs = `
+  directive @${COST_DIRECTIVE}(value: Int, multipliers: [String!], listSize: Int) on FIELD_DEFINITION | OBJECT | INTERFACE | UNION | SCALAR | ENUM
+`;
+
+// a selection set of a fragment on another type than its parent type, with
+// the names of the fragments spread by its enclosing selections
+type NestedSelectionSet = [GraphQLNamedType, SelectionSetNode, Array<string>];
+
+interface CostContext {
+  schema: GraphQLSchema;
+  options: CostAnalysisOptions;
+  fragments: Record<string, FragmentDefinitionNode>;
+  mergedTypes: Record<string, MergedTypeInfo>;
+  subschemas: Array<SubschemaConfig>;
+}
+
+/**
+ * Computes the cost and depth of the given operation without executing it.
+ *
+ * Each field costs the `value` of its `@cost` directive or configuration,
+ * falling back to the `@cost` of the type it returns and then to the default
+ * costs. The cost of the selections of a list field is multiplied by the value
+ * of its first multiplier argument, e.g. `first`, or otherwise by its list
+ * size hint. Within stitched schemas, selecting fields of a merged type that
+ * are not available from the subschema returning the type adds the cost of
+ * the delegations required to resolve them, again multiplied by list sizes.
+ * The cost of selections on abstract types includes the selections for each
+ * possible type, and so is an upper bound.
+ *
+ * Directives are read from the AST nodes of the schema, and so are not
+ * available for schemas obtained via introspection.
+ *
+ * @category Schema Stitching
+ */
+export function getOperationCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  options: CostAnalysisOptions = {},
+): OperationCost {
+  const operations = document.definitions.filter(
+    (def) =>
+      def.kind === Kind.OPERATION_DEFINITION &&
+      (options.operationName == null ||
+        (def.name != null && def.name.value === options.operationName)),
+  ) as Array<OperationDefinitionNode>;
+
+  if (operations.length === 0) {
+    throw new Error(
+      options.operationName != null
+        ? `Unknown operation named "${options.operationName}".`
+        : 'Must provide an operation.',
+    );
+  } else if (operations.length > 1) {
+    throw new Error(
+      'Must provide operation name if query contains multiple operations.',
+    );
+  }
+
+  return getOperationDefinitionCost(schema, document, operations[0], options);
+}
+
+/**
+ * Returns a validation rule reporting operations exceeding the `maximumCost`
+ * or `maximumDepth` of the given options, as computed by `getOperationCost`,
+ * so that they are rejected before execution.
+ *
+ * @category Schema Stitching
+ */
+export function createCostLimitRule(options: CostAnalysisOptions) {
+  return (context: ValidationContext) => ({
+    OperationDefinition(operation: OperationDefinitionNode) {
+      const { cost, depth } = getOperationDefinitionCost(
+        context.getSchema(),
+        context.getDocument(),
+        operation,
+        options,
+      );
+
+      const name = operation.name != null ? ` "${operation.name.value}"` : '';
+
+      if (options.maximumCost != null && cost > options.maximumCost) {
+        context.reportError(
+          createLimitError(
+            `Operation${name} has a cost of ${String(
+              cost,
+            )}, exceeding the maximum cost of ${String(options.maximumCost)}.`,
+            operation,
+            { code: 'OPERATION_COST_EXCEEDED', cost },
+          ),
+        );
+      }
+
+      if (options.maximumDepth != null && depth > options.maximumDepth) {
+        context.reportError(
+          createLimitError(
+            `Operation${name} has a depth of ${String(
+              depth,
+            )}, exceeding the maximum depth of ${String(
+              options.maximumDepth,
+            )}.`,
+            operation,
+            { code: 'OPERATION_DEPTH_EXCEEDED', depth },
+          ),
+        );
+      }
+    },
+  });
+}
+
+function createLimitError(
+  message: string,
+  node: ASTNode,
+  extensions: Record<string, any>,
+): GraphQLError {
+  return new GraphQLError(
+    message,
+    [node],
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    extensions,
+  );
+}
+
+function getOperationDefinitionCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operation: OperationDefinitionNode,
+  options: CostAnalysisOptions,
+): OperationCost {
+  const fragments: Record<string, FragmentDefinitionNode> = Object.create(null);
+  document.definitions.forEach((def) => {
+    if (def.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[def.name.value] = def;
+    }
+  });
+
+  const mergedTypes = getMergedTypes(schema, options);
+  const subschemas: Array<SubschemaConfig> = [];
+  Object.keys(mergedTypes).forEach((typeName) => {
+    mergedTypes[typeName].subschemas.forEach((subschema) => {
+      if (!subschemas.includes(subschema)) {
+        subschemas.push(subschema);
+      }
+    });
+  });
+
+  const rootType =
+    operation.operation === 'query'
+      ? schema.getQueryType()
+      : operation.operation === 'mutation'
+      ? schema.getMutationType()
+      : schema.getSubscriptionType();
+
+  if (rootType == null) {
+    return { cost: 0, depth: 0, delegations: 0 };
+  }
+
+  return getSelectionSetCost(
+    { schema, options, fragments, mergedTypes, subschemas },
+    rootType,
+    operation.selectionSet,
+    undefined,
+  );
+}
+
+function getMergedTypes(
+  schema: GraphQLSchema,
+  { mergedTypes }: CostAnalysisOptions,
+): Record<string, MergedTypeInfo> {
+  if (mergedTypes != null) {
+    return mergedTypes;
+  }
+
+  const mergeInfo = getSchemaMergeInfo(schema);
+  return mergeInfo != null ? mergeInfo.mergedTypes : {};
+}
+
+// the subschema returning an object of the given type is tracked when known,
+// so that delegations for fields unavailable from that subschema are counted,
+// and the fragments spread by the enclosing selections are skipped, so that
+// invalid fragment cycles do not recurse forever
+function getSelectionSetCost(
+  context: CostContext,
+  type: GraphQLNamedType,
+  selectionSet: SelectionSetNode,
+  subschema: SubschemaConfig,
+  visitedFragmentNames: Array<string> = [],
+): OperationCost {
+  const fieldNodes: Array<FieldNode> = [];
+  const fieldFragmentNames = new Map<FieldNode, Array<string>>();
+  const nestedSelectionSets: Array<NestedSelectionSet> = [];
+  collectFieldNodes(
+    context,
+    type,
+    selectionSet,
+    fieldNodes,
+    fieldFragmentNames,
+    nestedSelectionSets,
+    visitedFragmentNames,
+  );
+
+  const fieldSubschemas = getFieldSubschemas(
+    context,
+    type,
+    fieldNodes,
+    subschema,
+  );
+  const delegations = fieldSubschemas.delegations;
+
+  const total: OperationCost = {
+    cost: delegations * getOption(context.options.delegationCost, 1),
+    depth: 0,
+    delegations,
+  };
+
+  fieldNodes.forEach((fieldNode) => {
+    const fieldName = fieldNode.name.value;
+    if (
+      fieldName.startsWith('__') ||
+      (!isObjectType(type) && !isInterfaceType(type))
+    ) {
+      return;
+    }
+
+    const field = type.getFields()[fieldName];
+    if (field == null) {
+      return;
+    }
+
+    addCost(
+      total,
+      getFieldCost(
+        context,
+        type,
+        field,
+        fieldNode,
+        fieldSubschemas.subschemas[fieldName],
+        fieldFragmentNames.get(fieldNode),
+      ),
+    );
+  });
+
+  nestedSelectionSets.forEach(
+    ([nestedType, nestedSelectionSet, nestedFragmentNames]) => {
+      addCost(
+        total,
+        getSelectionSetCost(
+          context,
+          nestedType,
+          nestedSelectionSet,
+          subschema,
+          nestedFragmentNames,
+        ),
+      );
+    },
+  );
+
+  return total;
+}
+
+function getFieldCost(
+  context: CostContext,
+  parentType: GraphQLNamedType,
+  field: GraphQLField<any, any>,
+  fieldNode: FieldNode,
+  subschema: SubschemaConfig,
+  visitedFragmentNames: Array<string>,
+): OperationCost {
+  const { options } = context;
+  const namedType = getNamedType(field.type);
+  const config = getFieldCostConfig(options, parentType, field);
+  const typeConfig = getCostDirective(namedType.astNode);
+
+  const value =
+    config.value != null
+      ? config.value
+      : typeConfig.value != null
+      ? typeConfig.value
+      : isLeafType(namedType)
+      ? getOption(options.defaultLeafCost, 0)
+      : getOption(options.defaultCost, 1);
+
+  if (fieldNode.selectionSet == null) {
+    return { cost: value, depth: 1, delegations: 0 };
+  }
+
+  const listSize =
+    isListType(getNullableType(field.type)) || config.multipliers != null
+      ? getListSize(options, config, fieldNode)
+      : 1;
+
+  const selectionSetCost = getSelectionSetCost(
+    context,
+    namedType,
+    fieldNode.selectionSet,
+    subschema,
+    visitedFragmentNames,
+  );
+
+  return {
+    cost: value + listSize * selectionSetCost.cost,
+    depth: selectionSetCost.depth + 1,
+    delegations: listSize * selectionSetCost.delegations,
+  };
+}
+
+function getListSize(
+  { variables = {}, listSizeArguments, defaultListSize }: CostAnalysisOptions,
+  config: FieldCostConfig,
+  fieldNode: FieldNode,
+): number {
+  const multipliers =
+    config.multipliers != null
+      ? config.multipliers
+      : getOption(listSizeArguments, ['first', 'last', 'limit']);
+
+  if (fieldNode.arguments != null) {
+    for (const multiplier of multipliers) {
+      const argument = fieldNode.arguments.find(
+        (arg) => arg.name.value === multiplier,
+      );
+      if (argument != null) {
+        const value = valueFromASTUntyped(argument.value, variables);
+        if (typeof value === 'number') {
+          return value;
+        }
+      }
+    }
+  }
+
+  return config.listSize != null
+    ? config.listSize
+    : getOption(defaultListSize, 10);
+}
+
+function getFieldCostConfig(
+  { fieldCosts }: CostAnalysisOptions,
+  parentType: GraphQLNamedType,
+  field: GraphQLField<any, any>,
+): FieldCostConfig {
+  const directiveConfig = getCostDirective(field.astNode);
+  const typeFieldCosts =
+    fieldCosts != null ? fieldCosts[parentType.name] : undefined;
+  const config =
+    typeFieldCosts != null ? typeFieldCosts[field.name] : undefined;
+  return config != null ? { ...directiveConfig, ...config } : directiveConfig;
+}
+
+function getCostDirective(node: ASTNode): FieldCostConfig {
+  if (node == null || !('directives' in node) || node.directives == null) {
+    return {};
+  }
+
+  const directive = node.directives.find(
+    (directiveNode) => directiveNode.name.value === COST_DIRECTIVE,
+  );
+  if (directive == null || directive.arguments == null) {
+    return {};
+  }
+
+  const config: Record<string, any> = {};
+  directive.arguments.forEach((arg) => {
+    config[arg.name.value] = valueFromASTUntyped(arg.value);
+  });
+  return config;
+}
+
+function collectFieldNodes(
+  context: CostContext,
+  type: GraphQLNamedType,
+  selectionSet: SelectionSetNode,
+  fieldNodes: Array<FieldNode>,
+  fieldFragmentNames: Map<FieldNode, Array<string>>,
+  nestedSelectionSets: Array<NestedSelectionSet>,
+  visitedFragmentNames: Array<string>,
+) {
+  selectionSet.selections.forEach((selection) => {
+    if (selection.kind === Kind.FIELD) {
+      fieldNodes.push(selection);
+      fieldFragmentNames.set(selection, visitedFragmentNames);
+      return;
+    }
+
+    let typeName: string;
+    let fragmentSelectionSet: SelectionSetNode;
+    let fragmentNames = visitedFragmentNames;
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      typeName =
+        selection.typeCondition != null
+          ? selection.typeCondition.name.value
+          : type.name;
+      fragmentSelectionSet = selection.selectionSet;
+    } else {
+      const fragmentName = selection.name.value;
+      const fragment = context.fragments[fragmentName];
+      if (fragment == null || visitedFragmentNames.includes(fragmentName)) {
+        return;
+      }
+      fragmentNames = [...visitedFragmentNames, fragmentName];
+      typeName = fragment.typeCondition.name.value;
+      fragmentSelectionSet = fragment.selectionSet;
+    }
+
+    const fragmentType = context.schema.getType(typeName);
+    if (fragmentType == null) {
+      return;
+    }
+
+    if (
+      fragmentType === type ||
+      (isObjectType(type) &&
+        isAbstractType(fragmentType) &&
+        context.schema.isPossibleType(fragmentType, type))
+    ) {
+      collectFieldNodes(
+        context,
+        type,
+        fragmentSelectionSet,
+        fieldNodes,
+        fieldFragmentNames,
+        nestedSelectionSets,
+        fragmentNames,
+      );
+    } else {
+      nestedSelectionSets.push([
+        fragmentType,
+        fragmentSelectionSet,
+        fragmentNames,
+      ]);
+    }
+  });
+}
+
+// assigns each field to the subschema resolving it, counting the delegations
+// to subschemas other than the one returning the object
+function getFieldSubschemas(
+  context: CostContext,
+  type: GraphQLNamedType,
+  fieldNodes: Array<FieldNode>,
+  subschema: SubschemaConfig,
+): {
+  subschemas: Record<string, SubschemaConfig>;
+  delegations: number;
+} {
+  const subschemas: Record<string, SubschemaConfig> = Object.create(null);
+  const fieldNames = fieldNodes.map((fieldNode) => fieldNode.name.value);
+
+  if (subschema == null) {
+    if (type === getRootType(context.schema, type)) {
+      fieldNames.forEach((fieldName) => {
+        subschemas[fieldName] = context.subschemas.find((candidate) =>
+          hasField(getTypeMap(context, candidate), type.name, fieldName),
+        );
+      });
+    }
+    return { subschemas, delegations: 0 };
+  }
+
+  const mergedTypeInfo = context.mergedTypes[type.name];
+  const typeMap = getTypeMap(context, subschema);
+  const targetSubschemas: Array<SubschemaConfig> = [];
+  const unassignedFieldNames: Array<string> = [];
+
+  fieldNames.forEach((fieldName) => {
+    if (
+      mergedTypeInfo == null ||
+      fieldName.startsWith('__') ||
+      hasField(typeMap, type.name, fieldName)
+    ) {
+      subschemas[fieldName] = subschema;
+    } else if (mergedTypeInfo.uniqueFields[fieldName] != null) {
+      const targetSubschema = mergedTypeInfo.uniqueFields[fieldName];
+      subschemas[fieldName] = targetSubschema;
+      if (!targetSubschemas.includes(targetSubschema)) {
+        targetSubschemas.push(targetSubschema);
+      }
+    } else if (mergedTypeInfo.nonUniqueFields[fieldName] != null) {
+      unassignedFieldNames.push(fieldName);
+    }
+  });
+
+  unassignedFieldNames.forEach((fieldName) => {
+    const candidates = mergedTypeInfo.nonUniqueFields[fieldName];
+    let targetSubschema = candidates.find((candidate) =>
+      targetSubschemas.includes(candidate),
+    );
+    if (targetSubschema == null) {
+      targetSubschema = candidates[0];
+      targetSubschemas.push(targetSubschema);
+    }
+    subschemas[fieldName] = targetSubschema;
+  });
+
+  return { subschemas, delegations: targetSubschemas.length };
+}
+
+function getRootType(
+  schema: GraphQLSchema,
+  type: GraphQLNamedType,
+): GraphQLObjectType {
+  return [
+    schema.getQueryType(),
+    schema.getMutationType(),
+    schema.getSubscriptionType(),
+  ].find((rootType) => rootType === type);
+}
+
+function getTypeMap(context: CostContext, subschema: SubschemaConfig): TypeMap {
+  let typeMap: TypeMap;
+  Object.keys(context.mergedTypes).forEach((typeName) => {
+    if (typeMap == null) {
+      typeMap = context.mergedTypes[typeName].typeMaps.get(subschema);
+    }
+  });
+  return typeMap;
+}
+
+function hasField(typeMap: TypeMap, typeName: string, fieldName: string) {
+  if (typeMap == null) {
+    return false;
+  }
+
+  const type = typeMap[typeName];
+  return type != null && 'getFields' in type && fieldName in type.getFields();
+}
+
+function addCost(total: OperationCost, cost: OperationCost) {
+  total.cost += cost.cost;
+  total.depth = Math.max(total.depth, cost.depth);
+  total.delegations += cost.delegations;
+}
+
+function getOption<T>(value: T, defaultValue: T): T {
+  return value != null ? value : defaultValue;
+}
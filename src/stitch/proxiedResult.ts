@@ -147,7 +147,7 @@ export function dehoistResult(
 
 export function mergeProxiedResults(target: any, ...sources: any): any {
   const errors = target[ERROR_SYMBOL].concat(
-    sources.map((source: any) => source[ERROR_SYMBOL]),
+    ...sources.map((source: any) => source[ERROR_SYMBOL]),
   );
   const fieldSubschemaMap = sources.reduce(
     (acc: Record<any, SubschemaConfig>, source: any) => {
@@ -161,8 +161,9 @@ export function mergeProxiedResults(target: any, ...sources: any): any {
   );
   const result = mergeDeep(target, ...sources);
   result[ERROR_SYMBOL] = errors;
+  // subschemas are not merged, the last subschema to return a field wins
   result[FIELD_SUBSCHEMA_MAP_SYMBOL] = target[FIELD_SUBSCHEMA_MAP_SYMBOL]
-    ? mergeDeep(target[FIELD_SUBSCHEMA_MAP_SYMBOL], fieldSubschemaMap)
+    ? { ...target[FIELD_SUBSCHEMA_MAP_SYMBOL], ...fieldSubschemaMap }
     : fieldSubschemaMap;
   return result;
 }
@@ -0,0 +1,346 @@
+import {
+  ASTNode,
+  DirectiveNode,
+  GraphQLField,
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  Kind,
+  getNamedType,
+  getNullableType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  visit,
+} from 'graphql';
+
+import {
+  MapperKind,
+  MergedTypeConfig,
+  SubschemaConfig,
+  Transform,
+} from '../Interfaces';
+import { mapSchema, parseSelectionSet } from '../utils/index';
+import { applySchemaTransforms } from '../wrap/index';
+import { toConfig } from '../polyfills/index';
+import valueFromASTUntyped from '../utils/valueFromASTUntyped';
+
+const KEY_DIRECTIVE = 'key';
+const MERGE_DIRECTIVE = 'merge';
+
+/**
+ * Definitions of the `@key` and `@merge` directives, to be included within
+ * the type definitions of subschemas that declare type merging in SDL.
+ *
+ * @category Schema Stitching
+ */
+export const stitchingDirectivesTypeDefs = `
+  directive @${KEY_DIRECTIVE}(selectionSet: String!) on OBJECT | INTERFACE
+  directive @${MERGE_DIRECTIVE}(keyField: String, keyArg: String) on FIELD_DEFINITION
+`;
+
+/**
+ * Returns a copy of the subschema configuration with merged type
+ * configuration generated from `@key` and `@merge` directives within the
+ * subschema SDL, and with a transform removing those directives from the
+ * gateway schema.
+ *
+ * `@key(selectionSet: "{ id }")` on a type sets the selection set required
+ * to merge the type. `@merge` on a root query field designates the field used
+ * to fetch the type it returns. The key passed to the field is the value of
+ * `keyField` within the original result if specified, otherwise the value of
+ * the single top-level field of the key selection set, or an object with its
+ * top-level fields if it has several. The key is passed as `keyArg`, which
+ * may be omitted if the field has a single argument. Fields returning lists
+ * are called once with a list of keys for all objects merged within the same
+ * tick.
+ *
+ * Directives are read from the AST nodes of the subschema, and so are not
+ * available for schemas obtained via introspection. As with explicit merged
+ * type configuration, the generated configuration refers to type and field
+ * names of the subschema after its transforms, e.g. renamed types. Explicit
+ * merged type configuration takes precedence over the generated
+ * configuration: if it sets any of `args`, `key`, `argsFromKeys` or
+ * `resolve`, none of the generated ones are kept.
+ *
+ * @category Schema Stitching
+ */
+export function addMergedTypeConfigFromDirectives(
+  subschemaConfig: SubschemaConfig,
+): SubschemaConfig {
+  const transforms: Array<Transform> =
+    subschemaConfig.transforms != null ? subschemaConfig.transforms : [];
+
+  // the AST nodes holding the directives are kept by transforms
+  const generatedConfig = getMergedTypeConfigFromDirectives(
+    applySchemaTransforms(subschemaConfig.schema, transforms),
+  );
+
+  const merge: Record<string, MergedTypeConfig> = {};
+  Object.keys(generatedConfig).forEach((typeName) => {
+    merge[typeName] = generatedConfig[typeName];
+  });
+  if (subschemaConfig.merge != null) {
+    Object.keys(subschemaConfig.merge).forEach((typeName) => {
+      merge[typeName] = overrideMergedTypeConfig(
+        merge[typeName],
+        subschemaConfig.merge[typeName],
+      );
+    });
+  }
+
+  return {
+    ...subschemaConfig,
+    merge,
+    transforms: [...transforms, { transformSchema: removeStitchingDirectives }],
+  };
+}
+
+// explicit configuration of how to fetch the type replaces the generated one
+// as a whole, so that e.g. explicit `args` are not bypassed by a generated
+// `key`
+function overrideMergedTypeConfig(
+  generatedConfig: MergedTypeConfig,
+  explicitConfig: MergedTypeConfig,
+): MergedTypeConfig {
+  if (generatedConfig == null) {
+    return explicitConfig;
+  }
+
+  const config: MergedTypeConfig = { ...generatedConfig };
+  if (
+    explicitConfig.args != null ||
+    explicitConfig.key != null ||
+    explicitConfig.argsFromKeys != null ||
+    explicitConfig.resolve != null
+  ) {
+    delete config.args;
+    delete config.key;
+    delete config.argsFromKeys;
+    delete config.valuesFromResults;
+    delete config.resolve;
+  }
+  return { ...config, ...explicitConfig };
+}
+
+function getMergedTypeConfigFromDirectives(
+  schema: GraphQLSchema,
+): Record<string, MergedTypeConfig> {
+  const mergedTypeConfig: Record<string, MergedTypeConfig> = {};
+
+  const queryType = schema.getQueryType();
+  if (queryType == null) {
+    return mergedTypeConfig;
+  }
+
+  const fields = queryType.getFields();
+  Object.keys(fields).forEach((fieldName) => {
+    const field = fields[fieldName];
+    const mergeArgs = getDirectiveArgs(
+      getFieldDirectives(field),
+      MERGE_DIRECTIVE,
+    );
+    if (mergeArgs == null) {
+      return;
+    }
+
+    const type = getNamedType(field.type);
+    if (!isObjectType(type) && !isInterfaceType(type)) {
+      throw new Error(
+        `Field "${queryType.name}.${fieldName}" annotated with @${MERGE_DIRECTIVE} must return an object or interface type.`,
+      );
+    }
+
+    if (mergedTypeConfig[type.name] != null) {
+      throw new Error(
+        `Type "${type.name}" is merged using both "${
+          mergedTypeConfig[type.name].fieldName
+        }" and "${fieldName}"; only one root field per type may be annotated with @${MERGE_DIRECTIVE}.`,
+      );
+    }
+
+    const keyArgs = getDirectiveArgs(getTypeDirectives(type), KEY_DIRECTIVE);
+    const selectionSet: string =
+      keyArgs != null ? keyArgs.selectionSet : undefined;
+
+    mergedTypeConfig[type.name] = createMergedTypeConfig(
+      field,
+      queryType.name,
+      selectionSet,
+      mergeArgs.keyField,
+      mergeArgs.keyArg,
+    );
+  });
+
+  return mergedTypeConfig;
+}
+
+function createMergedTypeConfig(
+  field: GraphQLField<any, any>,
+  queryTypeName: string,
+  selectionSet: string,
+  keyField: string,
+  keyArg: string,
+): MergedTypeConfig {
+  const fieldName = field.name;
+
+  let argName = keyArg;
+  if (argName == null) {
+    if (field.args.length !== 1) {
+      throw new Error(
+        `Field "${queryTypeName}.${fieldName}" annotated with @${MERGE_DIRECTIVE} must specify a keyArg, as it does not have exactly one argument.`,
+      );
+    }
+    argName = field.args[0].name;
+  } else if (!field.args.some((arg) => arg.name === argName)) {
+    throw new Error(
+      `Field "${queryTypeName}.${fieldName}" does not have the argument "${argName}" specified as the keyArg of @${MERGE_DIRECTIVE}.`,
+    );
+  }
+
+  let getKey: (originalResult: any) => any;
+  if (keyField != null) {
+    getKey = (originalResult) => originalResult[keyField];
+  } else if (selectionSet != null) {
+    const keyFieldNames: Array<string> = [];
+    parseSelectionSet(selectionSet).selections.forEach((selection) => {
+      if (selection.kind === Kind.FIELD) {
+        keyFieldNames.push(selection.name.value);
+      }
+    });
+    getKey = (originalResult) => {
+      if (keyFieldNames.length === 1) {
+        return originalResult[keyFieldNames[0]];
+      }
+
+      const key = {};
+      keyFieldNames.forEach((keyFieldName) => {
+        key[keyFieldName] = originalResult[keyFieldName];
+      });
+      return key;
+    };
+  } else {
+    throw new Error(
+      `Field "${queryTypeName}.${fieldName}" annotated with @${MERGE_DIRECTIVE} must specify a keyField, as its type has no @${KEY_DIRECTIVE}.`,
+    );
+  }
+
+  if (isListType(getNullableType(field.type))) {
+    return {
+      selectionSet,
+      fieldName,
+      key: getKey,
+      argsFromKeys: (keys) => ({ [argName]: keys }),
+    };
+  }
+
+  return {
+    selectionSet,
+    fieldName,
+    args: (originalResult) => ({ [argName]: getKey(originalResult) }),
+  };
+}
+
+function getTypeDirectives(
+  type: GraphQLObjectType | GraphQLInterfaceType,
+): Array<DirectiveNode> {
+  const astNodes: Array<{ directives?: ReadonlyArray<DirectiveNode> }> = [
+    type.astNode,
+  ];
+  if (type.extensionASTNodes != null) {
+    astNodes.push(...type.extensionASTNodes);
+  }
+  return getDirectiveNodes(astNodes);
+}
+
+function getFieldDirectives(
+  field: GraphQLField<any, any>,
+): Array<DirectiveNode> {
+  return getDirectiveNodes([field.astNode]);
+}
+
+function getDirectiveNodes(
+  astNodes: Array<{ directives?: ReadonlyArray<DirectiveNode> }>,
+): Array<DirectiveNode> {
+  let directives: Array<DirectiveNode> = [];
+  astNodes.forEach((astNode) => {
+    if (astNode != null) {
+      directives = directives.concat(astNode.directives);
+    }
+  });
+  return directives.filter((directive) => directive != null);
+}
+
+function getDirectiveArgs(
+  directives: ReadonlyArray<DirectiveNode>,
+  directiveName: string,
+): Record<string, any> {
+  const directive = directives.find(
+    (directiveNode) => directiveNode.name.value === directiveName,
+  );
+  if (directive == null) {
+    return undefined;
+  }
+
+  const args = {};
+  if (directive.arguments != null) {
+    directive.arguments.forEach((arg) => {
+      args[arg.name.value] = valueFromASTUntyped(arg.value);
+    });
+  }
+  return args;
+}
+
+function isStitchingDirective(directiveNode: DirectiveNode): boolean {
+  return (
+    directiveNode.name.value === KEY_DIRECTIVE ||
+    directiveNode.name.value === MERGE_DIRECTIVE
+  );
+}
+
+function removeStitchingDirectives(schema: GraphQLSchema): GraphQLSchema {
+  return mapSchema(schema, {
+    [MapperKind.DIRECTIVE]: (directive) =>
+      directive.name === KEY_DIRECTIVE || directive.name === MERGE_DIRECTIVE
+        ? null
+        : undefined,
+    [MapperKind.OBJECT_TYPE]: (type) =>
+      new GraphQLObjectType(removeDirectiveNodes(toConfig(type))),
+    [MapperKind.INTERFACE_TYPE]: (type) =>
+      new GraphQLInterfaceType(removeDirectiveNodes(toConfig(type))),
+  });
+}
+
+function removeDirectiveNodes<T extends Record<string, any>>(config: T): T {
+  const newConfig: Record<string, any> = {
+    ...config,
+    astNode: removeDirectiveNodesFromASTNode(config.astNode),
+    extensionASTNodes:
+      config.extensionASTNodes != null
+        ? config.extensionASTNodes.map(removeDirectiveNodesFromASTNode)
+        : config.extensionASTNodes,
+  };
+
+  const fields = {};
+  Object.keys(config.fields).forEach((fieldName) => {
+    const fieldConfig = config.fields[fieldName];
+    fields[fieldName] = {
+      ...fieldConfig,
+      astNode: removeDirectiveNodesFromASTNode(fieldConfig.astNode),
+    };
+  });
+  newConfig.fields = fields;
+
+  return newConfig as T;
+}
+
+function removeDirectiveNodesFromASTNode<T extends ASTNode>(astNode: T): T {
+  if (astNode == null) {
+    return astNode;
+  }
+
+  return visit(astNode, {
+    [Kind.DIRECTIVE]: (directiveNode) =>
+      isStitchingDirective(directiveNode) ? null : undefined,
+  });
+}
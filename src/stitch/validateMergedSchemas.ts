@@ -0,0 +1,366 @@
+import {
+  GraphQLObjectType,
+  GraphQLSchema,
+  Kind,
+  SelectionSetNode,
+  isNonNullType,
+  print,
+} from 'graphql';
+
+import {
+  MergedSchemasTypeConflict,
+  MergedSchemasValidationIssue,
+  MergedSchemasValidationReport,
+  MergedTypeConfig,
+  MergedTypeInfo,
+  SchemaLikeObject,
+  SubschemaConfig,
+  isSubschemaConfig,
+} from '../Interfaces';
+import { createPlaceholderData } from '../delegate/explainOperation';
+
+import {
+  MergeSchemasOptions,
+  MergeTypeCandidate,
+  createMergedSchema,
+} from './mergeSchemas';
+
+/**
+ * Performs a dry run of `mergeSchemas` with the given options, returning a
+ * report of type conflicts and how they were resolved, as well as of merged
+ * type configuration that cannot be used at query time: root fields that do
+ * not exist, arguments that do not match the root field, selection sets that
+ * cannot be satisfied by any other subschema and fields that cannot be
+ * reached from all subschemas.
+ *
+ * Merged type configuration is called with placeholder data, so `args` and
+ * `key` functions should not have side effects. The dry run is performed on
+ * copies of the subschema configurations, which are left untouched.
+ *
+ * @category Schema Stitching
+ */
+export function validateMergedSchemas(
+  mergeSchemasOptions: MergeSchemasOptions,
+): MergedSchemasValidationReport {
+  const options: MergeSchemasOptions = {
+    ...mergeSchemasOptions,
+    subschemas:
+      mergeSchemasOptions.subschemas != null
+        ? mergeSchemasOptions.subschemas.map(copySchemaLikeObject)
+        : undefined,
+    schemas:
+      mergeSchemasOptions.schemas != null
+        ? mergeSchemasOptions.schemas.map(copySchemaLikeObject)
+        : undefined,
+  };
+  const describe = (subschema: GraphQLSchema | SubschemaConfig) =>
+    describeSubschema(options, subschema);
+
+  let mergedSchema: ReturnType<typeof createMergedSchema>;
+  try {
+    mergedSchema = createMergedSchema(options);
+  } catch (error) {
+    return {
+      valid: false,
+      typeConflicts: [],
+      issues: [
+        {
+          kind: 'mergeError',
+          message: error.message,
+          error,
+        },
+      ],
+    };
+  }
+
+  const { schema, mergeInfo, typeCandidates } = mergedSchema;
+  const queryTypeName =
+    options.queryTypeName != null ? options.queryTypeName : 'Query';
+
+  const typeConflicts: Array<MergedSchemasTypeConflict> = mergedSchema.typeConflicts.map(
+    ({ typeName, candidates, resolution, selectedCandidate }) => ({
+      typeName,
+      subschemas: candidates.map((candidate) =>
+        describeCandidate(candidate, describe),
+      ),
+      resolution,
+      selectedSubschema:
+        selectedCandidate != null
+          ? describeCandidate(selectedCandidate, describe)
+          : undefined,
+    }),
+  );
+
+  const issues: Array<MergedSchemasValidationIssue> = [];
+
+  Object.keys(mergeInfo.mergedTypes).forEach((typeName) => {
+    const mergedTypeInfo = mergeInfo.mergedTypes[typeName];
+
+    mergedTypeInfo.subschemas.forEach((subschema) => {
+      const queryTypeCandidate = typeCandidates[queryTypeName].find(
+        (candidate) => candidate.subschema === subschema,
+      );
+      issues.push(
+        ...validateMergedTypeConfig(
+          schema,
+          typeName,
+          subschema,
+          queryTypeCandidate != null
+            ? queryTypeCandidate.transformedSubschema.getQueryType()
+            : undefined,
+          mergedTypeInfo,
+          describe,
+        ),
+      );
+    });
+
+    issues.push(
+      ...validateFieldReachability(typeName, mergedTypeInfo, describe),
+    );
+  });
+
+  return {
+    valid: !issues.length,
+    typeConflicts,
+    issues,
+  };
+}
+
+function validateMergedTypeConfig(
+  schema: GraphQLSchema,
+  typeName: string,
+  subschema: SubschemaConfig,
+  queryType: GraphQLObjectType,
+  mergedTypeInfo: MergedTypeInfo,
+  describe: (subschema: GraphQLSchema | SubschemaConfig) => string,
+): Array<MergedSchemasValidationIssue> {
+  const issues: Array<MergedSchemasValidationIssue> = [];
+  const mergedTypeConfig = mergedTypeInfo.mergedTypeConfigs.get(subschema);
+  const subschemaName = describe(subschema);
+
+  unsatisfiableSelectionSets(mergedTypeInfo, subschema).forEach(
+    (selectionSet) => {
+      issues.push({
+        kind: 'unsatisfiableSelectionSet',
+        message: `Selection set "${print(selectionSet).replace(
+          /\s+/g,
+          ' ',
+        )}" required by subschema "${subschemaName}" to merge type "${typeName}" cannot be satisfied by any other subschema.`,
+        typeName,
+        subschema: subschemaName,
+      });
+    },
+  );
+
+  const fieldName = mergedTypeConfig.fieldName;
+  if (fieldName == null) {
+    return issues;
+  }
+
+  const rootField =
+    queryType != null ? queryType.getFields()[fieldName] : undefined;
+  if (rootField == null) {
+    issues.push({
+      kind: 'invalidFieldName',
+      message: `Subschema "${subschemaName}" merges type "${typeName}" using "${fieldName}", which is not a field of its root query type.`,
+      typeName,
+      fieldName,
+      subschema: subschemaName,
+    });
+    return issues;
+  }
+
+  let args: Record<string, any>;
+  try {
+    const originalResult = createPlaceholderData(
+      schema,
+      schema.getType(typeName) as GraphQLObjectType,
+      mergedTypeInfo.selectionSets.get(subschema) != null
+        ? mergedTypeInfo.selectionSets.get(subschema)
+        : { kind: Kind.SELECTION_SET, selections: [] },
+    );
+    if (mergedTypeConfig.key != null) {
+      const keys = [mergedTypeConfig.key(originalResult)];
+      args =
+        mergedTypeConfig.argsFromKeys != null
+          ? mergedTypeConfig.argsFromKeys(keys)
+          : { ids: keys };
+    } else if (mergedTypeConfig.args != null) {
+      args = mergedTypeConfig.args(originalResult);
+    }
+  } catch (error) {
+    issues.push({
+      kind: 'invalidArgs',
+      message: `Arguments for "${fieldName}" used by subschema "${subschemaName}" to merge type "${typeName}" could not be created: ${String(
+        error.message,
+      )}`,
+      typeName,
+      fieldName,
+      subschema: subschemaName,
+      error,
+    });
+    return issues;
+  }
+
+  if (args == null) {
+    return issues;
+  }
+
+  const unknownArgs = Object.keys(args).filter(
+    (argName) => !rootField.args.some((arg) => arg.name === argName),
+  );
+  const missingArgs = rootField.args
+    .filter(
+      (arg) =>
+        isNonNullType(arg.type) &&
+        arg.defaultValue === undefined &&
+        args[arg.name] == null,
+    )
+    .map((arg) => arg.name);
+
+  if (unknownArgs.length || missingArgs.length) {
+    const problems: Array<string> = [];
+    if (unknownArgs.length) {
+      problems.push(`unknown arguments ${unknownArgs.join(', ')}`);
+    }
+    if (missingArgs.length) {
+      problems.push(`missing required arguments ${missingArgs.join(', ')}`);
+    }
+    issues.push({
+      kind: 'invalidArgs',
+      message: `Arguments for "${fieldName}" used by subschema "${subschemaName}" to merge type "${typeName}" do not match the root field: ${problems.join(
+        '; ',
+      )}.`,
+      typeName,
+      fieldName,
+      subschema: subschemaName,
+    });
+  }
+
+  return issues;
+}
+
+function unsatisfiableSelectionSets(
+  mergedTypeInfo: MergedTypeInfo,
+  subschema: SubschemaConfig,
+): Array<SelectionSetNode> {
+  const fieldSelectionSets = mergedTypeInfo.fieldSelectionSets.get(subschema);
+  if (fieldSelectionSets == null) {
+    return [];
+  }
+
+  const otherSubschemas = Array.from(mergedTypeInfo.typeMaps.keys()).filter(
+    (s) => s !== subschema,
+  );
+  return fieldSelectionSets.filter(
+    (fieldSelectionSet) =>
+      !otherSubschemas.some((s) =>
+        mergedTypeInfo.containsSelectionSet.get(s).get(fieldSelectionSet),
+      ),
+  );
+}
+
+// A field is reachable from a subschema lacking it if it is provided by a
+// subschema with merged type configuration whose selection set can be
+// satisfied.
+function validateFieldReachability(
+  typeName: string,
+  mergedTypeInfo: MergedTypeInfo,
+  describe: (subschema: GraphQLSchema | SubschemaConfig) => string,
+): Array<MergedSchemasValidationIssue> {
+  const issues: Array<MergedSchemasValidationIssue> = [];
+  const subschemas = Array.from(mergedTypeInfo.typeMaps.keys());
+  const reachableSubschemas = mergedTypeInfo.subschemas.filter(
+    (subschema) =>
+      mergedTypeInfo.selectionSets.get(subschema) != null &&
+      !unsatisfiableSelectionSets(mergedTypeInfo, subschema).length,
+  );
+
+  const fieldNames: Array<string> = [];
+  subschemas.forEach((subschema) => {
+    const type = mergedTypeInfo.typeMaps.get(subschema)[
+      typeName
+    ] as GraphQLObjectType;
+    Object.keys(type.getFields()).forEach((fieldName) => {
+      if (!fieldNames.includes(fieldName)) {
+        fieldNames.push(fieldName);
+      }
+    });
+  });
+
+  const hasField = (subschema: SubschemaConfig, fieldName: string) =>
+    (mergedTypeInfo.typeMaps.get(subschema)[
+      typeName
+    ] as GraphQLObjectType).getFields()[fieldName] != null;
+
+  fieldNames.forEach((fieldName) => {
+    if (reachableSubschemas.some((s) => hasField(s, fieldName))) {
+      return;
+    }
+
+    const unreachableFrom = subschemas.filter((s) => !hasField(s, fieldName));
+    if (unreachableFrom.length) {
+      issues.push({
+        kind: 'unreachableField',
+        message: `Field "${typeName}.${fieldName}" cannot be resolved for objects returned by ${unreachableFrom
+          .map((s) => `subschema "${describe(s)}"`)
+          .join(', ')}.`,
+        typeName,
+        fieldName,
+      });
+    }
+  });
+
+  return issues;
+}
+
+function describeCandidate(
+  candidate: MergeTypeCandidate,
+  describe: (subschema: GraphQLSchema | SubschemaConfig) => string,
+): string {
+  return candidate.subschema != null
+    ? describe(candidate.subschema)
+    : 'typeDefs';
+}
+
+function copySchemaLikeObject<T extends SchemaLikeObject>(
+  schemaLikeObject: T,
+): T {
+  if (!isSubschemaConfig(schemaLikeObject)) {
+    return schemaLikeObject;
+  }
+
+  const subschemaConfig: SubschemaConfig = {
+    ...(schemaLikeObject as SubschemaConfig),
+  };
+  if (subschemaConfig.merge != null) {
+    const merge: Record<string, MergedTypeConfig> = {};
+    Object.keys(subschemaConfig.merge).forEach((typeName) => {
+      merge[typeName] = { ...subschemaConfig.merge[typeName] };
+    });
+    subschemaConfig.merge = merge;
+  }
+  if (subschemaConfig.transforms != null) {
+    subschemaConfig.transforms = [...subschemaConfig.transforms];
+  }
+  return subschemaConfig as T;
+}
+
+function describeSubschema(
+  options: MergeSchemasOptions,
+  subschema: GraphQLSchema | SubschemaConfig,
+): string {
+  if (isSubschemaConfig(subschema) && subschema.name != null) {
+    return subschema.name;
+  }
+
+  const subschemaIndex =
+    options.subschemas != null ? options.subschemas.indexOf(subschema) : -1;
+  if (subschemaIndex !== -1) {
+    return `subschemas[${String(subschemaIndex)}]`;
+  }
+
+  const schemaIndex =
+    options.schemas != null ? options.schemas.indexOf(subschema) : -1;
+  return `schemas[${String(schemaIndex)}]`;
+}
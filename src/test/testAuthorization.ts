@@ -0,0 +1,224 @@
+import { expect } from 'chai';
+import {
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  graphql,
+  validateSchema,
+} from 'graphql';
+
+import {
+  addAuthorizationToSchema,
+  authDirectiveTypeDefs,
+  filterSchemaByRoles,
+  makeExecutableSchema,
+} from '../generate/index';
+import { AuthorizationOptions } from '../Interfaces';
+
+const users = [
+  { id: '1', name: 'Alice', email: 'alice@example.com', salary: 100 },
+  { id: '2', name: 'Bob', email: 'bob@example.com', salary: 200 },
+];
+
+const schema = makeExecutableSchema({
+  typeDefs: `
+    ${authDirectiveTypeDefs}
+
+    type User @auth {
+      id: ID!
+      name: String
+      email: String @auth(requires: ["ADMIN"])
+      salary: Int
+    }
+
+    type Query {
+      me: User
+      users: [User]
+      version: String
+    }
+
+    type Mutation {
+      deleteUser(id: ID!): Boolean @auth(requires: ["ADMIN"])
+      ping: Boolean
+    }
+  `,
+  resolvers: {
+    Query: {
+      me: (_root, _args, context) =>
+        users.find((user) => user.id === context.userId),
+      users: () => users,
+      version: () => '1.0',
+    },
+    Mutation: {
+      deleteUser: () => true,
+      ping: () => true,
+    },
+  },
+});
+
+const options: AuthorizationOptions = {
+  getRoles: (context) => context.roles,
+  rules: {
+    User: {
+      salary: (context, _args, parent) =>
+        Promise.resolve(parent.id === context.userId),
+    },
+  },
+};
+
+describe('authorization', () => {
+  const authorizedSchema = addAuthorizationToSchema(schema, options);
+
+  it('requires authentication', async () => {
+    const result = await graphql(
+      authorizedSchema,
+      '{ version users { name } }',
+      undefined,
+      {},
+    );
+
+    expect(result.data).to.deep.equal({
+      version: '1.0',
+      users: [{ name: null }, { name: null }],
+    });
+    expect(result.errors[0].message).to.equal(
+      'You must be authenticated to access "User.name".',
+    );
+    expect(result.errors[0].extensions).to.deep.equal({
+      code: 'UNAUTHENTICATED',
+    });
+  });
+
+  it('applies role and predicate rules', async () => {
+    const result = await graphql(
+      authorizedSchema,
+      '{ users { name email salary } }',
+      undefined,
+      { roles: ['USER'], userId: '1' },
+    );
+
+    expect(result.data).to.deep.equal({
+      users: [
+        { name: 'Alice', email: null, salary: 100 },
+        { name: 'Bob', email: null, salary: null },
+      ],
+    });
+    expect(
+      result.errors.map(({ message, path, extensions }) => ({
+        message,
+        path,
+        extensions,
+      })),
+    ).to.deep.equal([
+      {
+        message: 'You are not authorized to access "User.email".',
+        path: ['users', 0, 'email'],
+        extensions: { code: 'FORBIDDEN' },
+      },
+      {
+        message: 'You are not authorized to access "User.email".',
+        path: ['users', 1, 'email'],
+        extensions: { code: 'FORBIDDEN' },
+      },
+      {
+        message: 'You are not authorized to access "User.salary".',
+        path: ['users', 1, 'salary'],
+        extensions: { code: 'FORBIDDEN' },
+      },
+    ]);
+
+    const adminResult = await graphql(
+      authorizedSchema,
+      'mutation { deleteUser(id: "2") }',
+      undefined,
+      { roles: ['ADMIN'] },
+    );
+    expect(adminResult).to.deep.equal({ data: { deleteUser: true } });
+  });
+
+  it('requires getRoles for role rules', () => {
+    expect(() => addAuthorizationToSchema(schema)).to.throw(
+      'Authorization rules for "User.id" require roles, but no getRoles function was provided.',
+    );
+  });
+
+  it('prunes the schema for the given roles', () => {
+    const getFieldNames = (prunedSchema: GraphQLSchema, typeName: string) => {
+      const type = prunedSchema.getType(typeName) as GraphQLObjectType;
+      return type != null ? Object.keys(type.getFields()) : undefined;
+    };
+
+    const publicSchema = filterSchemaByRoles(schema, null, options);
+    expect(publicSchema.getType('User')).to.equal(undefined);
+    expect(getFieldNames(publicSchema, 'Query')).to.deep.equal(['version']);
+    expect(getFieldNames(publicSchema, 'Mutation')).to.deep.equal(['ping']);
+
+    const userSchema = filterSchemaByRoles(schema, ['USER'], options);
+    expect(getFieldNames(userSchema, 'User')).to.deep.equal([
+      'id',
+      'name',
+      'salary',
+    ]);
+    expect(getFieldNames(userSchema, 'Mutation')).to.deep.equal(['ping']);
+
+    const adminSchema = filterSchemaByRoles(schema, ['ADMIN'], options);
+    expect(getFieldNames(adminSchema, 'User')).to.deep.equal([
+      'id',
+      'name',
+      'email',
+      'salary',
+    ]);
+    expect(getFieldNames(adminSchema, 'Mutation')).to.deep.equal([
+      'deleteUser',
+      'ping',
+    ]);
+  });
+
+  it('prunes the fields of interfaces with pruned implementations', () => {
+    const nodeSchema = makeExecutableSchema({
+      typeDefs: `
+        ${authDirectiveTypeDefs}
+
+        interface Node {
+          id: ID!
+          secret: String
+        }
+
+        type Account implements Node {
+          id: ID!
+          secret: String @auth(requires: ["ADMIN"])
+        }
+
+        type Group implements Node {
+          id: ID!
+          secret: String
+        }
+
+        type Query {
+          node(id: ID!): Node
+        }
+      `,
+      resolverValidationOptions: { requireResolversForResolveType: false },
+    });
+
+    const userSchema = filterSchemaByRoles(nodeSchema, ['USER'], options);
+    expect(validateSchema(userSchema)).to.deep.equal([]);
+    expect(
+      Object.keys(
+        (userSchema.getType('Node') as GraphQLInterfaceType).getFields(),
+      ),
+    ).to.deep.equal(['id']);
+    expect(
+      Object.keys(
+        (userSchema.getType('Group') as GraphQLObjectType).getFields(),
+      ),
+    ).to.deep.equal(['id', 'secret']);
+
+    const adminSchema = filterSchemaByRoles(nodeSchema, ['ADMIN'], options);
+    expect(
+      Object.keys(
+        (adminSchema.getType('Node') as GraphQLInterfaceType).getFields(),
+      ),
+    ).to.deep.equal(['id', 'secret']);
+  });
+});
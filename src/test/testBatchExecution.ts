@@ -0,0 +1,245 @@
+import { expect } from 'chai';
+import {
+  DocumentNode,
+  GraphQLError,
+  graphql,
+  execute,
+  getOperationAST,
+  parse,
+  print,
+  validate,
+} from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import { mergeSchemas } from '../stitch/index';
+import { getBatchingExecutor } from '../delegate/batchingExecutor';
+
+describe('batch execution', () => {
+  let executions: Array<string>;
+
+  const innerSchema = makeExecutableSchema({
+    typeDefs: `
+      type User {
+        id: ID!
+        name: String
+      }
+
+      type Query {
+        user(id: ID!): User
+        greeting(name: String!): String
+        broken: String
+      }
+    `,
+    resolvers: {
+      Query: {
+        user: (_root, { id }) => ({ id, name: `User ${String(id)}` }),
+        greeting: (_root, { name }) => `Hello, ${String(name)}!`,
+        broken: () => new Error('broken field'),
+      },
+    },
+  });
+
+  const outerSchema = mergeSchemas({
+    subschemas: [
+      {
+        schema: innerSchema,
+        batch: true,
+        executor: ({ document, variables, context }) => {
+          executions.push(print(document));
+          return execute({
+            schema: innerSchema,
+            document,
+            variableValues: variables,
+            contextValue: context,
+          });
+        },
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    executions = [];
+  });
+
+  it('merges delegated root fields into a single request', async () => {
+    const query = `
+      query($id: ID!, $name: String!) {
+        first: user(id: $id) {
+          id
+          name
+        }
+        second: user(id: "2") {
+          name
+        }
+        greeting(name: $name)
+      }
+    `;
+
+    const result = await graphql(
+      outerSchema,
+      query,
+      undefined,
+      {},
+      { id: '1', name: 'World' },
+    );
+
+    expect(result).to.deep.equal({
+      data: {
+        first: { id: '1', name: 'User 1' },
+        second: { name: 'User 2' },
+        greeting: 'Hello, World!',
+      },
+    });
+    expect(executions.length).to.equal(1);
+  });
+
+  it('splits errors back to the delegating field', async () => {
+    const query = `
+      query {
+        greeting(name: "World")
+        broken
+      }
+    `;
+
+    const result = await graphql(outerSchema, query, undefined, {});
+
+    expect(executions.length).to.equal(1);
+    expect(result.data).to.deep.equal({
+      greeting: 'Hello, World!',
+      broken: null,
+    });
+    expect(result.errors.length).to.equal(1);
+    expect(result.errors[0].message).to.equal('broken field');
+    expect(result.errors[0].path).to.deep.equal(['broken']);
+  });
+
+  it('does not batch requests from different contexts', async () => {
+    const query = `
+      query {
+        greeting(name: "World")
+      }
+    `;
+
+    await Promise.all([
+      graphql(outerSchema, query, undefined, {}),
+      graphql(outerSchema, query, undefined, {}),
+    ]);
+
+    expect(executions.length).to.equal(2);
+  });
+
+  it('does not cache executors for requests without a context', async () => {
+    const subschemaConfig = { schema: innerSchema, batch: true };
+    const firstExecutor = getBatchingExecutor(
+      undefined,
+      subschemaConfig,
+      () => ({ data: { greeting: 'first' } }),
+    );
+    const secondExecutor = getBatchingExecutor(
+      undefined,
+      subschemaConfig,
+      () => ({ data: { greeting: 'second' } }),
+    );
+
+    const document = parse('{ greeting(name: "World") }');
+    expect(await secondExecutor({ document })).to.deep.equal({
+      data: { greeting: 'second' },
+    });
+    expect(await firstExecutor({ document })).to.deep.equal({
+      data: { greeting: 'first' },
+    });
+  });
+
+  it('merges operation names, fragments and extensions', async () => {
+    let mergedRequest: {
+      document: DocumentNode;
+      extensions?: Record<string, any>;
+    };
+    const executor = getBatchingExecutor(
+      {},
+      { schema: innerSchema, batch: true },
+      ({ document, variables, extensions }) => {
+        mergedRequest = { document, extensions };
+        return execute({
+          schema: innerSchema,
+          document,
+          variableValues: variables,
+        });
+      },
+    );
+
+    const results = await Promise.all([
+      executor({
+        document: parse(`
+          query First {
+            ...Root
+          }
+
+          fragment Root on Query {
+            user(id: "1") {
+              ...UserFields
+            }
+          }
+
+          fragment UserFields on User {
+            name
+          }
+        `),
+        extensions: { tracing: true },
+      }),
+      executor({
+        document: parse('query Second { greeting(name: "World") }'),
+        extensions: { priority: 'low' },
+      }),
+    ]);
+
+    expect(results).to.deep.equal([
+      { data: { user: { name: 'User 1' } } },
+      { data: { greeting: 'Hello, World!' } },
+    ]);
+    expect(validate(innerSchema, mergedRequest.document)).to.deep.equal([]);
+    expect(
+      getOperationAST(mergedRequest.document, undefined).name.value,
+    ).to.equal('First_Second');
+    expect(mergedRequest.extensions).to.deep.equal({
+      tracing: true,
+      priority: 'low',
+    });
+  });
+
+  it('splits extensions and errors without a path of merged results', async () => {
+    const pathlessError = new GraphQLError('Rate limited');
+    const executor = getBatchingExecutor(
+      {},
+      { schema: innerSchema, batch: true },
+      ({ document, variables }) =>
+        Promise.resolve(
+          execute({
+            schema: innerSchema,
+            document,
+            variableValues: variables,
+          }),
+        ).then((result) => ({
+          ...result,
+          errors: [pathlessError],
+          extensions: { cost: 2 },
+        })),
+    );
+
+    const results = await Promise.all([
+      executor({ document: parse('{ greeting(name: "World") }') }),
+      executor({ document: parse('{ user(id: "1") { name } }') }),
+    ]);
+    expect(results).to.deep.equal([
+      {
+        data: { greeting: 'Hello, World!' },
+        errors: [pathlessError],
+        extensions: { cost: 2 },
+      },
+      {
+        data: { user: { name: 'User 1' } },
+        extensions: { cost: 2 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import { buildSchema } from 'graphql';
+
+import { diffSchemas } from '../utils/index';
+import { SchemaChangeCriticality, SchemaChangeType } from '../Interfaces';
+
+const oldSchema = buildSchema(`
+  directive @auth(requires: String) on FIELD_DEFINITION | OBJECT
+
+  interface Node {
+    id: ID!
+  }
+
+  type User implements Node {
+    "The user's name"
+    name: String
+    id: ID!
+    email: String!
+    friends(first: Int = 10): [User]
+  }
+
+  type Post {
+    id: ID!
+  }
+
+  union SearchResult = User | Post
+
+  enum Role {
+    ADMIN
+    EDITOR
+  }
+
+  input UserFilter {
+    role: Role!
+    name: String
+  }
+
+  type Query {
+    user(id: ID!): User
+    users(filter: UserFilter): [User]
+    search(term: String!): [SearchResult]
+  }
+`);
+
+describe('diffSchemas', () => {
+  it('reports no changes for identical schemas', () => {
+    expect(diffSchemas(oldSchema, oldSchema)).to.deep.equal([]);
+  });
+
+  it('classifies changes', () => {
+    const newSchema = buildSchema(`
+      directive @auth(requires: String!) on FIELD_DEFINITION
+
+      directive @cacheControl(maxAge: Int) on FIELD_DEFINITION
+
+      interface Node {
+        id: ID!
+      }
+
+      type User {
+        "The name of the user"
+        name: String @deprecated(reason: "Use fullName")
+        fullName: String
+        id: ID!
+        email: String
+        friends(first: Int = 20, after: String): [User!]
+      }
+
+      type Post implements Node {
+        id: ID!
+      }
+
+      type Comment {
+        id: ID!
+      }
+
+      union SearchResult = User | Comment
+
+      enum Role {
+        ADMIN
+        VIEWER
+      }
+
+      input UserFilter {
+        role: Role
+        name: Int
+        active: Boolean!
+      }
+
+      type Query {
+        user(id: ID, locale: String!): User
+        search(term: String!): [SearchResult]
+      }
+    `);
+
+    const changes = diffSchemas(
+      oldSchema,
+      newSchema,
+    ).map(({ type, criticality, path }) => [type, criticality, path]);
+
+    const { BREAKING, DANGEROUS, SAFE } = SchemaChangeCriticality;
+    expect(changes).to.deep.equal([
+      [SchemaChangeType.ARG_TYPE_CHANGED, SAFE, 'Query.user.id'],
+      [SchemaChangeType.ARG_ADDED, BREAKING, 'Query.user.locale'],
+      [SchemaChangeType.FIELD_REMOVED, BREAKING, 'Query.users'],
+      [SchemaChangeType.INTERFACE_IMPLEMENTATION_REMOVED, BREAKING, 'User'],
+      [SchemaChangeType.FIELD_DESCRIPTION_CHANGED, SAFE, 'User.name'],
+      [SchemaChangeType.FIELD_DEPRECATION_CHANGED, SAFE, 'User.name'],
+      [SchemaChangeType.FIELD_TYPE_CHANGED, BREAKING, 'User.email'],
+      [SchemaChangeType.FIELD_TYPE_CHANGED, SAFE, 'User.friends'],
+      [
+        SchemaChangeType.ARG_DEFAULT_VALUE_CHANGED,
+        DANGEROUS,
+        'User.friends.first',
+      ],
+      [SchemaChangeType.ARG_ADDED, DANGEROUS, 'User.friends.after'],
+      [SchemaChangeType.FIELD_ADDED, SAFE, 'User.fullName'],
+      [SchemaChangeType.FIELD_TYPE_CHANGED, SAFE, 'UserFilter.role'],
+      [SchemaChangeType.FIELD_TYPE_CHANGED, BREAKING, 'UserFilter.name'],
+      [SchemaChangeType.FIELD_ADDED, BREAKING, 'UserFilter.active'],
+      [SchemaChangeType.ENUM_VALUE_REMOVED, BREAKING, 'Role.EDITOR'],
+      [SchemaChangeType.ENUM_VALUE_ADDED, DANGEROUS, 'Role.VIEWER'],
+      [SchemaChangeType.UNION_MEMBER_REMOVED, BREAKING, 'SearchResult'],
+      [SchemaChangeType.UNION_MEMBER_ADDED, DANGEROUS, 'SearchResult'],
+      [SchemaChangeType.INTERFACE_IMPLEMENTATION_ADDED, DANGEROUS, 'Post'],
+      [SchemaChangeType.TYPE_ADDED, SAFE, 'Comment'],
+      [SchemaChangeType.DIRECTIVE_LOCATION_REMOVED, BREAKING, '@auth'],
+      [SchemaChangeType.ARG_TYPE_CHANGED, BREAKING, '@auth.requires'],
+      [SchemaChangeType.DIRECTIVE_ADDED, SAFE, '@cacheControl'],
+    ]);
+  });
+
+  it('reports removed types and changes of kind', () => {
+    const newSchema = buildSchema(`
+      type Query {
+        user(id: ID!): User
+      }
+
+      input User {
+        id: ID!
+      }
+    `);
+
+    const changes = diffSchemas(
+      buildSchema(`
+        type Query {
+          user(id: ID!): User
+          post: Post
+        }
+
+        type User {
+          id: ID!
+        }
+
+        type Post {
+          id: ID!
+        }
+      `),
+      newSchema,
+    );
+
+    expect(changes.map((change) => change.message)).to.deep.equal([
+      'Field "Query.post" was removed.',
+      'Type "User" changed from an object type to an input object type.',
+      'Type "Post" was removed.',
+    ]);
+    expect(
+      changes.every(
+        (change) => change.criticality === SchemaChangeCriticality.BREAKING,
+      ),
+    ).to.equal(true);
+  });
+});
@@ -1,12 +1,17 @@
 import { expect, assert } from 'chai';
 import { GraphQLError, graphql } from 'graphql';
 
-import { relocatedError } from '../stitch/errors';
+import {
+  relocatedError,
+  AggregateGraphQLError,
+  expandAggregateErrors,
+} from '../stitch/errors';
 import { getErrors, ERROR_SYMBOL } from '../stitch/proxiedResult';
 import { checkResultAndHandleErrors } from '../delegate/checkResultAndHandleErrors';
 import { makeExecutableSchema } from '../generate/index';
 import { mergeSchemas } from '../stitch/index';
-import { IGraphQLToolsResolveInfo } from '../Interfaces';
+import { wrapSchema, MaskErrors } from '../wrap/index';
+import { IGraphQLToolsResolveInfo, ErrorPolicy } from '../Interfaces';
 
 class ErrorWithExtensions extends GraphQLError {
   constructor(message: string, code: string) {
@@ -93,25 +98,329 @@ describe('Errors', () => {
 
     it('combines errors and persists the original errors', () => {
       const result = {
-        errors: [new GraphQLError('Error1'), new GraphQLError('Error2')],
+        errors: [
+          new GraphQLError('Error1', undefined, undefined, undefined, [
+            'responseKey',
+          ]),
+          new GraphQLError('Error2', undefined, undefined, undefined, [
+            'responseKey',
+            'field',
+          ]),
+        ],
       };
-      try {
-        checkResultAndHandleErrors(
-          result,
-          {},
-          ({} as unknown) as IGraphQLToolsResolveInfo,
-          'responseKey',
-        );
-      } catch (e) {
-        assert.equal(e.message, 'Error1\nError2');
-        assert.isNotEmpty(e.originalError);
-        assert.isNotEmpty(e.originalError.errors);
-        assert.lengthOf(e.originalError.errors, result.errors.length);
-        result.errors.forEach((error, i) => {
-          assert.deepEqual(e.originalError.errors[i], error);
-        });
+      const error = checkResultAndHandleErrors(
+        result,
+        {},
+        ({} as unknown) as IGraphQLToolsResolveInfo,
+        'responseKey',
+      );
+      assert.instanceOf(error, AggregateGraphQLError);
+      assert.equal(error.message, 'Error1\nError2');
+      assert.lengthOf(error.errors, result.errors.length);
+      assert.deepEqual(
+        error.errors.map((e: GraphQLError) => e.message),
+        ['Error1', 'Error2'],
+      );
+      assert.deepEqual(
+        error.errors.map((e: GraphQLError) => e.path),
+        [[], ['field']],
+      );
+    });
+  });
+
+  describe('expandAggregateErrors', () => {
+    it('reports each error from a subschema with its own path', async () => {
+      const schema = makeExecutableSchema({
+        typeDefs: `
+          type Query {
+            user: User
+          }
+          type User {
+            name: String
+          }
+        `,
+      });
+
+      const mergedSchema = mergeSchemas({
+        subschemas: [
+          {
+            schema,
+            executor: () => ({
+              data: { user: null },
+              errors: [
+                new GraphQLError('Not found', undefined, undefined, undefined, [
+                  'user',
+                ]),
+                new GraphQLError('No name', undefined, undefined, undefined, [
+                  'user',
+                  'name',
+                ]),
+              ],
+            }),
+          },
+        ],
+      });
+      const result = await graphql(mergedSchema, '{ user { name } }');
+      expect(result.errors.map((error) => error.message)).to.deep.equal([
+        'Not found\nNo name',
+      ]);
+
+      const expandedResult = expandAggregateErrors(result);
+      expect(expandedResult.data).to.deep.equal({ user: null });
+      expect(
+        expandedResult.errors.map(({ message, path }) => ({ message, path })),
+      ).to.deep.equal([
+        { message: 'Not found', path: ['user'] },
+        { message: 'No name', path: ['user', 'name'] },
+      ]);
+    });
+  });
+
+  describe('aggregate errors from subschemas', () => {
+    it('reports each error at its own path', async () => {
+      const schema = makeExecutableSchema({
+        typeDefs: `
+          type Query {
+            user: User
+          }
+          type User {
+            name: String
+            email: String
+          }
+        `,
+      });
+
+      const mergedSchema = mergeSchemas({
+        subschemas: [
+          {
+            schema,
+            executor: () => ({
+              data: { user: { name: null, email: null } },
+              errors: [
+                new AggregateGraphQLError([
+                  new GraphQLError('No name', undefined, undefined, undefined, [
+                    'user',
+                    'name',
+                  ]),
+                  new GraphQLError(
+                    'No email',
+                    undefined,
+                    undefined,
+                    undefined,
+                    ['user', 'email'],
+                  ),
+                ]),
+              ],
+            }),
+          },
+        ],
+      });
+      const result = await graphql(mergedSchema, '{ user { name email } }');
+      expect(result.data).to.deep.equal({ user: { name: null, email: null } });
+      expect(
+        result.errors.map(({ message, path }) => ({ message, path })),
+      ).to.deep.equal([
+        { message: 'No name', path: ['user', 'name'] },
+        { message: 'No email', path: ['user', 'email'] },
+      ]);
+    });
+  });
+
+  describe('errorExtensions', () => {
+    const schema = makeExecutableSchema({
+      typeDefs: `
+        type Query {
+          user: User
+        }
+        type User {
+          email: String
+        }
+      `,
+      resolvers: {
+        Query: {
+          user: () => ({}),
+        },
+        User: {
+          email: () => new ErrorWithExtensions('No email', 'FORBIDDEN'),
+        },
+      },
+    });
+
+    it('identifies the subschema producing an error', async () => {
+      const mergedSchema = mergeSchemas({
+        subschemas: [{ schema, name: 'users', errorExtensions: true }],
+      });
+      const result = await graphql(
+        mergedSchema,
+        'query GetUser { user { email } }',
+      );
+      expect(result.data).to.deep.equal({ user: { email: null } });
+      expect(result.errors[0].path).to.deep.equal(['user', 'email']);
+      expect(result.errors[0].extensions).to.deep.equal({
+        code: 'FORBIDDEN',
+        subschema: 'users',
+        operationName: undefined,
+        originalPath: ['user', 'email'],
+      });
+    });
+
+    it('allows customizing the extensions', async () => {
+      const mergedSchema = mergeSchemas({
+        subschemas: [
+          {
+            schema,
+            name: 'users',
+            errorExtensions: ({ subschema, operation, fieldName }) => ({
+              service: subschema,
+              delegatedTo: `${operation}.${fieldName}`,
+            }),
+          },
+        ],
+      });
+      const result = await graphql(mergedSchema, '{ user { email } }');
+      expect(result.errors[0].extensions).to.deep.equal({
+        code: 'FORBIDDEN',
+        service: 'users',
+        delegatedTo: 'query.user',
+      });
+    });
+  });
+});
+
+describe('errorPolicy', () => {
+  const schema = makeExecutableSchema({
+    typeDefs: `
+      type Query {
+        user: User
+        secret: String
+      }
+      type User {
+        name: String
+        email: String
       }
+    `,
+    resolvers: {
+      Query: {
+        user: () => ({}),
+        secret: () => {
+          throw new Error('Database password is hunter2');
+        },
+      },
+      User: {
+        name: () => 'Alice',
+        email: () => new ErrorWithExtensions('Not allowed', 'FORBIDDEN'),
+      },
+    },
+  });
+
+  it('masks errors without an allowed code', async () => {
+    const loggedErrors: Array<GraphQLError> = [];
+    let correlationIds = 0;
+    const errorPolicy: ErrorPolicy = {
+      allowedCodes: ['FORBIDDEN'],
+      logger: { log: (error: GraphQLError) => loggedErrors.push(error) },
+      createCorrelationId: () => String(++correlationIds),
+    };
+
+    const wrappedSchema = wrapSchema({ schema, name: 'users', errorPolicy });
+    const result = await graphql(
+      wrappedSchema,
+      '{ user { name email } secret }',
+    );
+
+    expect(result.data).to.deep.equal({
+      user: { name: 'Alice', email: null },
+      secret: null,
     });
+    expect(
+      result.errors.map(({ message, path, extensions }) => ({
+        message,
+        path,
+        extensions,
+      })),
+    ).to.deep.equal([
+      {
+        message: 'Not allowed',
+        path: ['user', 'email'],
+        extensions: { code: 'FORBIDDEN' },
+      },
+      {
+        message: 'Internal server error',
+        path: ['secret'],
+        extensions: { code: 'INTERNAL_SERVER_ERROR', correlationId: '1' },
+      },
+    ]);
+
+    expect(loggedErrors.length).to.equal(1);
+    expect(loggedErrors[0].message).to.equal('Database password is hunter2');
+    expect(loggedErrors[0].extensions).to.deep.equal({
+      correlationId: '1',
+      subschema: 'users',
+    });
+  });
+
+  it('masks errors on nested fields using the transform', async () => {
+    const wrappedSchema = wrapSchema(schema, [
+      new MaskErrors({ message: 'Something went wrong' }),
+    ]);
+    const result = await graphql(wrappedSchema, '{ user { email } }');
+
+    expect(result.data).to.deep.equal({ user: { email: null } });
+    expect(result.errors[0].message).to.equal('Something went wrong');
+    expect(result.errors[0].path).to.deep.equal(['user', 'email']);
+    expect(result.errors[0].extensions.code).to.equal('INTERNAL_SERVER_ERROR');
+    expect(result.errors[0].extensions.correlationId).to.be.a('string');
+    expect(result.errors[0].originalError).to.equal(undefined);
+  });
+
+  it('masks errors thrown by executors', async () => {
+    const loggedErrors: Array<GraphQLError> = [];
+    const wrappedSchema = wrapSchema({
+      schema,
+      name: 'users',
+      executor: () =>
+        Promise.reject(new Error('connect ECONNREFUSED 10.0.0.1:4000')),
+      errorPolicy: {
+        logger: { log: (error: GraphQLError) => loggedErrors.push(error) },
+        createCorrelationId: () => '1',
+      },
+    });
+    const result = await graphql(wrappedSchema, '{ user { name } }');
+
+    expect(result.data).to.deep.equal({ user: null });
+    expect(
+      result.errors.map(({ message, path, extensions }) => ({
+        message,
+        path,
+        extensions,
+      })),
+    ).to.deep.equal([
+      {
+        message: 'Internal server error',
+        path: ['user'],
+        extensions: { code: 'INTERNAL_SERVER_ERROR', correlationId: '1' },
+      },
+    ]);
+    expect(loggedErrors.map((error) => error.message)).to.deep.equal([
+      'connect ECONNREFUSED 10.0.0.1:4000',
+    ]);
+
+    const transformedSchema = wrapSchema(
+      {
+        schema,
+        executor: () => {
+          throw new Error('connect ECONNREFUSED 10.0.0.1:4000');
+        },
+      },
+      [new MaskErrors({ message: 'Something went wrong' })],
+    );
+    const transformedResult = await graphql(
+      transformedSchema,
+      '{ user { name } }',
+    );
+    expect(transformedResult.errors[0].message).to.equal(
+      'Something went wrong',
+    );
   });
 });
 
@@ -0,0 +1,222 @@
+import { expect } from 'chai';
+import { parse } from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import { mergeSchemas } from '../stitch/index';
+import { explainOperation, printDelegationPlan } from '../delegate/index';
+
+const throwingResolver = () => {
+  throw new Error('subschemas should not be executed');
+};
+
+const chirpSchema = makeExecutableSchema({
+  typeDefs: `
+    type Chirp {
+      id: ID!
+      text: String
+      author: User
+    }
+
+    type User {
+      id: ID!
+      chirps: [Chirp]
+    }
+
+    type Query {
+      userById(id: ID!): User
+    }
+  `,
+  resolvers: {
+    Query: {
+      userById: throwingResolver,
+    },
+  },
+});
+
+const authorSchema = makeExecutableSchema({
+  typeDefs: `
+    type User {
+      id: ID!
+      email: String
+    }
+
+    type Query {
+      userById(id: ID!): User
+    }
+  `,
+  resolvers: {
+    Query: {
+      userById: throwingResolver,
+    },
+  },
+});
+
+const mergedSchema = mergeSchemas({
+  subschemas: [
+    {
+      name: 'authors',
+      schema: authorSchema,
+      merge: {
+        User: {
+          fieldName: 'userById',
+          args: (originalResult) => ({ id: originalResult.id }),
+          selectionSet: '{ id }',
+        },
+      },
+    },
+    {
+      name: 'chirps',
+      schema: chirpSchema,
+      merge: {
+        User: {
+          fieldName: 'userById',
+          args: (originalResult) => ({ id: originalResult.id }),
+          selectionSet: '{ id }',
+        },
+      },
+    },
+  ],
+  mergeTypes: true,
+});
+
+describe('explainOperation', () => {
+  it('returns the delegation plan without executing subschemas', async () => {
+    const query = parse(`
+      query($id: ID!) {
+        userById(id: $id) {
+          chirps {
+            text
+            author {
+              email
+            }
+          }
+        }
+      }
+    `);
+
+    const plan = await explainOperation(mergedSchema, query, { id: '5' });
+
+    expect(plan.length).to.equal(1);
+    expect(plan[0].subschemaName).to.equal('chirps');
+    expect(plan[0].operation).to.equal('query');
+    expect(plan[0].fieldName).to.equal('userById');
+    expect(plan[0].path).to.deep.equal(['userById']);
+    expect(plan[0].variables).to.deep.equal({ id: '5' });
+
+    expect(plan[0].children.length).to.equal(1);
+    const authorNode = plan[0].children[0];
+    expect(authorNode.subschemaName).to.equal('authors');
+    expect(authorNode.fieldName).to.equal('userById');
+    expect(authorNode.path).to.deep.equal(['userById', 'chirps', 0, 'author']);
+    expect(authorNode.children).to.deep.equal([]);
+    expect(authorNode.document).to.contain('email');
+  });
+
+  it('prints the delegation plan', async () => {
+    const query = parse(`
+      query {
+        userById(id: "5") {
+          chirps {
+            author {
+              email
+            }
+          }
+        }
+      }
+    `);
+
+    const plan = await explainOperation(mergedSchema, query);
+
+    expect(printDelegationPlan(plan)).to.equal(
+      [
+        'userById: query.userById -> chirps',
+        '  {',
+        '    userById(id: "5") {',
+        '      chirps {',
+        '        author {',
+        '          __typename',
+        '          id',
+        '          id',
+        '        }',
+        '        __typename',
+        '      }',
+        '      __typename',
+        '      id',
+        '      id',
+        '    }',
+        '    __typename',
+        '  }',
+        '  userById.chirps.0.author: query.userById -> authors',
+        '    query ($_v0_id: ID!) {',
+        '      userById(id: $_v0_id) {',
+        '        email',
+        '        __typename',
+        '        id',
+        '        id',
+        '      }',
+        '      __typename',
+        '    }',
+        '    variables: {"_v0_id":""}',
+      ].join('\n'),
+    );
+  });
+
+  it('rejects invalid operations', async () => {
+    let error: Error;
+    try {
+      await explainOperation(mergedSchema, parse('{ userById { id } }'));
+    } catch (e) {
+      error = e;
+    }
+    expect(error.message).to.equal(
+      'Field "userById" argument "id" of type "ID!" is required, but it was not provided.',
+    );
+  });
+
+  it('refuses mutations and reports execution errors', async () => {
+    let deleted = false;
+    const schema = makeExecutableSchema({
+      typeDefs: `
+        type Query {
+          version: String
+        }
+
+        type Mutation {
+          deleteAll: Boolean
+        }
+      `,
+      resolvers: {
+        Query: {
+          version: () => {
+            throw new Error('Version unavailable');
+          },
+        },
+        Mutation: {
+          deleteAll: () => {
+            deleted = true;
+            return true;
+          },
+        },
+      },
+    });
+
+    let mutationError: Error;
+    try {
+      await explainOperation(schema, parse('mutation { deleteAll }'));
+    } catch (e) {
+      mutationError = e;
+    }
+    expect(mutationError.message).to.equal(
+      'Mutations cannot be explained, as the resolvers of the schema are executed.',
+    );
+    expect(deleted).to.equal(false);
+
+    let executionError: Error;
+    try {
+      await explainOperation(schema, parse('{ version }'));
+    } catch (e) {
+      executionError = e;
+    }
+    expect(executionError.message).to.equal('Version unavailable');
+  });
+});
@@ -0,0 +1,196 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { expect } from 'chai';
+import { GraphQLSchema, execute, printSchema } from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import {
+  createFileIntrospectionCache,
+  introspectSchemaWithCache,
+} from '../stitch/index';
+import {
+  Fetcher,
+  IntrospectionCache,
+  IntrospectionCacheEntry,
+} from '../Interfaces';
+
+function createSchema(fields: string): GraphQLSchema {
+  return makeExecutableSchema({
+    typeDefs: `
+      type Query {
+        ${fields}
+      }
+    `,
+  });
+}
+
+describe('introspectSchemaWithCache', () => {
+  let remoteSchema: GraphQLSchema;
+  let entries: Record<string, IntrospectionCacheEntry>;
+
+  const fetcher: Fetcher = ({ query }) =>
+    remoteSchema != null
+      ? Promise.resolve(execute(remoteSchema, query))
+      : Promise.reject(new Error('service unavailable'));
+
+  const cache: IntrospectionCache = {
+    read: (key) => entries[key],
+    write: (key, entry) => {
+      entries[key] = entry;
+    },
+  };
+
+  beforeEach(() => {
+    remoteSchema = createSchema('greeting: String');
+    entries = {};
+  });
+
+  it('writes the live schema to the cache', async () => {
+    const result = await introspectSchemaWithCache(fetcher, {
+      cache,
+      key: 'greetings',
+    });
+
+    expect(result.source).to.equal('live');
+    expect(result.stale).to.equal(false);
+    expect(result.changes).to.equal(undefined);
+    expect(printSchema(result.schema)).to.equal(printSchema(remoteSchema));
+    expect(entries.greetings.sdl).to.equal(printSchema(remoteSchema));
+    expect(entries.greetings.timestamp).to.equal(result.timestamp);
+  });
+
+  it('falls back to the cached schema', async () => {
+    await introspectSchemaWithCache(fetcher, {
+      cache,
+      key: 'greetings',
+      format: 'introspection',
+    });
+    expect(entries.greetings.introspection).not.to.equal(undefined);
+    const cachedSchema = remoteSchema;
+
+    remoteSchema = undefined;
+    const result = await introspectSchemaWithCache(fetcher, {
+      cache,
+      key: 'greetings',
+    });
+
+    expect(result.source).to.equal('cache');
+    expect(result.stale).to.equal(true);
+    expect(result.error.message).to.equal('service unavailable');
+    expect(result.timestamp).to.equal(entries.greetings.timestamp);
+    expect(printSchema(result.schema)).to.equal(printSchema(cachedSchema));
+  });
+
+  it('throws if there is no recent enough cached schema', async () => {
+    remoteSchema = undefined;
+
+    let error: Error;
+    try {
+      await introspectSchemaWithCache(fetcher, { cache, key: 'greetings' });
+    } catch (e) {
+      error = e;
+    }
+    expect(error.message).to.equal('service unavailable');
+
+    entries.greetings = {
+      sdl: printSchema(createSchema('greeting: String')),
+      timestamp: Date.now() - 1000,
+    };
+    error = undefined;
+    try {
+      await introspectSchemaWithCache(fetcher, {
+        cache,
+        key: 'greetings',
+        maxAge: 500,
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error.message).to.equal('service unavailable');
+  });
+
+  it('reports changes from the cached schema', async () => {
+    await introspectSchemaWithCache(fetcher, { cache, key: 'greetings' });
+
+    remoteSchema = createSchema('greeting(name: String): String');
+    const result = await introspectSchemaWithCache(fetcher, {
+      cache,
+      key: 'greetings',
+    });
+
+    expect(result.source).to.equal('live');
+    expect(result.changes.map((change) => change.message)).to.deep.equal([
+      'Optional argument "name" was added to field "Query.greeting".',
+    ]);
+
+    remoteSchema = createSchema('farewell: String');
+    const nextResult = await introspectSchemaWithCache(fetcher, {
+      cache,
+      key: 'greetings',
+    });
+
+    expect(nextResult.changes.map((change) => change.message)).to.deep.equal([
+      'Field "Query.greeting" was removed.',
+      'Field "Query.farewell" was added.',
+    ]);
+  });
+
+  it('reports failures to write to the cache', async () => {
+    const writeError = new Error('disk full');
+    const result = await introspectSchemaWithCache(fetcher, {
+      cache: {
+        read: () => undefined,
+        write: () => Promise.reject(writeError),
+      },
+      key: 'greetings',
+    });
+
+    expect(result.source).to.equal('live');
+    expect(result.cacheError).to.equal(writeError);
+  });
+
+  describe('file cache', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'introspection-'));
+    });
+
+    afterEach(async () => {
+      const fileNames = await fs.readdir(directory);
+      await Promise.all(
+        fileNames.map((fileName) => fs.unlink(path.join(directory, fileName))),
+      );
+      await fs.rmdir(directory);
+    });
+
+    it('stores SDL and introspection results as files', async () => {
+      const fileCache = createFileIntrospectionCache(directory);
+
+      const result = await introspectSchemaWithCache(fetcher, {
+        cache: fileCache,
+        key: 'greetings',
+      });
+      expect(
+        await fs.readFile(path.join(directory, 'greetings.graphql'), 'utf8'),
+      ).to.equal(printSchema(remoteSchema));
+
+      const sdlEntry = await fileCache.read('greetings');
+      expect(sdlEntry.timestamp).to.equal(result.timestamp);
+
+      await introspectSchemaWithCache(fetcher, {
+        cache: fileCache,
+        key: 'users',
+        format: 'introspection',
+      });
+      const introspectionEntry = await fileCache.read('users');
+      expect(introspectionEntry.introspection.__schema.queryType.name).to.equal(
+        'Query',
+      );
+
+      expect(await fileCache.read('unknown')).to.equal(undefined);
+    });
+  });
+});
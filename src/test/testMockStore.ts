@@ -0,0 +1,292 @@
+import { expect } from 'chai';
+import { graphql } from 'graphql';
+
+import {
+  addMocksToSchema,
+  createMockStore,
+  mockDirectivesTypeDefs,
+} from '../mock/index';
+import { buildSchemaFromTypeDefinitions } from '../generate/index';
+
+const typeDefs = `
+  type User {
+    id: ID!
+    name: String
+    age: Int
+    friends: [User]
+  }
+
+  type Query {
+    me: User
+    user(id: ID!): User
+  }
+
+  type CreateUserPayload {
+    user: User
+  }
+
+  input CreateUserInput {
+    name: String
+    friends: [CreateUserInput]
+  }
+
+  type Mutation {
+    renameUser(id: ID!, name: String!): User
+    createUser(input: CreateUserInput!): CreateUserPayload
+    updateUser(id: ID!, name: String, age: Int): User
+    deleteUser(id: ID!): Boolean
+  }
+`;
+
+describe('Mock store', () => {
+  it('returns the same entities across queries', async () => {
+    const schema = buildSchemaFromTypeDefinitions(typeDefs);
+    const store = createMockStore({ schema });
+    addMocksToSchema({ schema, store });
+
+    const query = '{ me { id age } user(id: "1") { id age } }';
+    const result = await graphql(schema, query);
+    expect(result.data.user.id).to.equal('1');
+    expect(result.data.user.age).to.equal(store.get('User', '1', 'age'));
+    expect(result.data.me.age).to.equal(
+      store.get('User', result.data.me.id, 'age'),
+    );
+    expect(await graphql(schema, query)).to.deep.equal(result);
+  });
+
+  it('lets mock resolvers read and write the store', async () => {
+    const schema = buildSchemaFromTypeDefinitions(typeDefs);
+    const store = createMockStore({ schema });
+    addMocksToSchema({
+      schema,
+      store,
+      mocks: {
+        Mutation: () => ({
+          renameUser: (
+            _root: any,
+            { id, name }: { id: string; name: string },
+          ) => {
+            store.set('User', id, 'name', name);
+            return store.get('User', id);
+          },
+        }),
+      },
+    });
+
+    const mutationResult = await graphql(
+      schema,
+      'mutation { renameUser(id: "1", name: "Alice") { id name } }',
+    );
+    expect(mutationResult).to.deep.equal({
+      data: { renameUser: { id: '1', name: 'Alice' } },
+    });
+
+    const result = await graphql(schema, '{ user(id: "1") { name } }');
+    expect(result).to.deep.equal({ data: { user: { name: 'Alice' } } });
+  });
+
+  it('stores entities referenced by list fields', async () => {
+    const schema = buildSchemaFromTypeDefinitions(typeDefs);
+    const store = createMockStore({ schema });
+    addMocksToSchema({ schema, store });
+
+    store.set('User', '2', 'name', 'Bob');
+    store.set('User', '1', {
+      friends: [store.get('User', '2'), { id: '3', name: 'Carol' }],
+    });
+    expect(store.get('User', '3', 'name')).to.equal('Carol');
+
+    const result = await graphql(
+      schema,
+      '{ user(id: "1") { friends { id name } } }',
+    );
+    expect(result).to.deep.equal({
+      data: {
+        user: {
+          friends: [
+            { id: '2', name: 'Bob' },
+            { id: '3', name: 'Carol' },
+          ],
+        },
+      },
+    });
+
+    const friends = store.get('User', '2', 'friends');
+    expect(friends.length).to.equal(2);
+    expect(store.get('User', friends[0].$ref.key, 'id')).to.equal(
+      friends[0].$ref.key,
+    );
+  });
+
+  it('applies the rules of mocked mutations', async () => {
+    const schema = buildSchemaFromTypeDefinitions(typeDefs);
+    const store = createMockStore({ schema });
+    addMocksToSchema({
+      schema,
+      store,
+      mutations: {
+        rules: {
+          createUser: { kind: 'create', typeName: 'User' },
+          updateUser: { kind: 'update' },
+          deleteUser: { kind: 'delete', typeName: 'User' },
+        },
+      },
+    });
+
+    const createResult = await graphql(
+      schema,
+      `
+        mutation {
+          createUser(input: { name: "Alice", friends: [{ name: "Bob" }] }) {
+            user {
+              id
+              name
+              friends {
+                name
+              }
+            }
+          }
+        }
+      `,
+    );
+    const { user } = createResult.data.createUser;
+    expect(user.name).to.equal('Alice');
+    expect(user.friends).to.deep.equal([{ name: 'Bob' }]);
+    expect(store.get('User', user.id, 'name')).to.equal('Alice');
+
+    const updateResult = await graphql(
+      schema,
+      `mutation { updateUser(id: "${String(user.id)}", age: 30) { name age } }`,
+    );
+    expect(updateResult).to.deep.equal({
+      data: { updateUser: { name: 'Alice', age: 30 } },
+    });
+
+    const deleteResult = await graphql(
+      schema,
+      `mutation { deleteUser(id: "${String(user.id)}") }`,
+    );
+    expect(deleteResult).to.deep.equal({ data: { deleteUser: true } });
+    expect(store.has('User', user.id)).to.equal(false);
+  });
+
+  it('resolves keys of interfaces to stored entities', async () => {
+    const schema = buildSchemaFromTypeDefinitions(`
+      interface Node {
+        id: ID!
+      }
+
+      type User implements Node {
+        id: ID!
+        name: String
+      }
+
+      type Post implements Node {
+        id: ID!
+        title: String
+      }
+
+      type Query {
+        node(id: ID!): Node
+      }
+    `);
+    const store = createMockStore({ schema });
+    addMocksToSchema({ schema, store });
+
+    store.set('User', '1', 'name', 'Alice');
+    store.set('Post', '2', 'title', 'Hello');
+
+    const result = await graphql(
+      schema,
+      `
+        {
+          user: node(id: "1") {
+            id
+            ... on User {
+              name
+            }
+          }
+          post: node(id: "2") {
+            id
+            ... on Post {
+              title
+            }
+          }
+          missing: node(id: "3") {
+            id
+          }
+        }
+      `,
+    );
+    expect(result.data).to.deep.equal({
+      user: { id: '1', name: 'Alice' },
+      post: { id: '2', title: 'Hello' },
+      missing: null,
+    });
+    expect(result.errors.map((error) => error.message)).to.deep.equal([
+      'No entity of a type implementing "Node" with key "3" in the mock store',
+    ]);
+  });
+
+  it('stores the values of fields for each set of arguments', async () => {
+    const schema = buildSchemaFromTypeDefinitions(`
+      type User {
+        id: ID!
+      }
+
+      type Query {
+        users(first: Int): [User]
+      }
+    `);
+    const store = createMockStore({ schema });
+    addMocksToSchema({ schema, store });
+
+    const query =
+      '{ one: users(first: 1) { id } five: users(first: 5) { id } }';
+    const result = await graphql(schema, query);
+    expect(result.data.one).to.not.deep.equal(result.data.five);
+    expect(await graphql(schema, query)).to.deep.equal(result);
+  });
+
+  it('generates entities from the mock hints of directives', () => {
+    const schema = buildSchemaFromTypeDefinitions(`
+      ${mockDirectivesTypeDefs}
+
+      type User {
+        id: ID!
+        name: String @examples(values: ["Alice"])
+        friends: [User] @listLength(min: 3, max: 3)
+      }
+
+      type Query {
+        me: User
+      }
+    `);
+    const store = createMockStore({ schema });
+
+    expect(store.get('User', '1', 'name')).to.equal('Alice');
+    expect(store.get('User', '1', 'friends').length).to.equal(3);
+  });
+
+  it('can be reset to its fixtures', () => {
+    const schema = buildSchemaFromTypeDefinitions(typeDefs);
+    const store = createMockStore({
+      schema,
+      seed: 1,
+      fixtures: { User: { '1': { name: 'Alice' } } },
+    });
+
+    const age = store.get('User', '2', 'age');
+    store.set('User', '1', 'name', 'Bob');
+    expect(store.get('User', '1', 'name')).to.equal('Bob');
+
+    store.reset();
+    expect(store.get('User', '1', 'name')).to.equal('Alice');
+    expect(store.has('User', '2')).to.equal(false);
+    expect(store.get('User', '2', 'age')).to.equal(age);
+
+    expect(() => store.set('User', '1', 'email', 'alice@example.com')).to.throw(
+      'Field "email" is not defined on type "User".',
+    );
+  });
+});
@@ -1,12 +1,22 @@
 import { expect } from 'chai';
 import {
+  ExecutionResult,
   graphql,
   GraphQLResolveInfo,
   GraphQLSchema,
   GraphQLFieldResolver,
+  parse,
+  subscribe,
 } from 'graphql';
+import { createAsyncIterator, forAwaitEach } from 'iterall';
 
-import { addMocksToSchema, MockList, mockServer } from '../mock/index';
+import {
+  addMocksToSchema,
+  defaultMockGenerators,
+  mockDirectivesTypeDefs,
+  MockList,
+  mockServer,
+} from '../mock/index';
 import {
   buildSchemaFromTypeDefinitions,
   addResolversToSchema,
@@ -1474,6 +1484,342 @@ describe('Mock', () => {
     });
   });
 
+  it('returns the same results for the same seed', async () => {
+    const mockMap = {
+      RootQuery: () => ({ returnListOfInt: () => new MockList([1, 100]) }),
+    };
+    const testQuery = `{
+      returnInt
+      returnFloat
+      returnBoolean
+      returnID
+      returnEnum
+      returnListOfInt
+      returnFlying {
+        __typename
+        id
+        returnInt
+      }
+    }`;
+
+    const server = mockServer(shorthand, mockMap, false, 1);
+    const result = await server.query(testQuery);
+    expect(result.errors).to.equal(undefined);
+    expect(result.data.returnID).to.match(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+
+    expect(await server.query(testQuery)).to.deep.equal(result);
+    expect(
+      await mockServer(shorthand, mockMap, false, 1).query(testQuery),
+    ).to.deep.equal(result);
+    expect(
+      await mockServer(shorthand, mockMap, false, 2).query(testQuery),
+    ).not.to.deep.equal(result);
+
+    const jsSchema = buildSchemaFromTypeDefinitions(shorthand);
+    addMocksToSchema({ schema: jsSchema, mocks: mockMap, seed: 1 });
+    expect(await graphql(jsSchema, testQuery)).to.deep.equal(result);
+  });
+
+  it('continues the seeded sequence across subscription events', async () => {
+    const jsSchema = makeExecutableSchema({
+      typeDefs: `
+        type Query {
+          returnInt: Int
+        }
+
+        type Subscription {
+          returnInt: Int
+        }
+      `,
+      resolvers: {
+        Subscription: {
+          returnInt: {
+            subscribe: () => createAsyncIterator([{}, {}]),
+          },
+        },
+      },
+    });
+    addMocksToSchema({ schema: jsSchema, seed: 1, preserveResolvers: true });
+
+    const getEvents = async () => {
+      const iterator = (await subscribe(
+        jsSchema,
+        parse('subscription { returnInt }'),
+      )) as AsyncIterableIterator<ExecutionResult>;
+      const events: Array<ExecutionResult> = [];
+      await forAwaitEach(iterator, (event) => {
+        events.push(event);
+      });
+      return events;
+    };
+
+    const events = await getEvents();
+    expect(events.length).to.equal(2);
+    expect(events[0].data.returnInt).to.be.a('number');
+    expect(events[1].data.returnInt).not.to.equal(events[0].data.returnInt);
+    expect(await getEvents()).to.deep.equal(events);
+  });
+
+  it('echoes the arguments of mutations', async () => {
+    const jsSchema = buildSchemaFromTypeDefinitions(`
+      enum Role {
+        ADMIN
+        USER
+      }
+
+      type Address {
+        city: String
+        zip: String
+      }
+
+      type User {
+        id: ID!
+        name: String
+        role: Role
+        address: Address
+        tags: [String]
+      }
+
+      type CreateUserPayload {
+        user: User
+      }
+
+      input AddressInput {
+        city: String
+      }
+
+      input UserInput {
+        name: String
+        role: Role
+        address: AddressInput
+        tags: [String]
+      }
+
+      type Query {
+        user: User
+      }
+
+      type Mutation {
+        createUser(input: UserInput!): User
+        createUserWithPayload(input: UserInput!): CreateUserPayload
+        renameUser(id: ID!, name: String): User
+      }
+    `);
+    addMocksToSchema({
+      schema: jsSchema,
+      mocks: {
+        ID: () => 'id',
+        Mutation: () => ({ renameUser: () => ({ name: 'Mocked' }) }),
+      },
+      mutations: true,
+    });
+
+    const result = await graphql(
+      jsSchema,
+      `
+        mutation {
+          createUser(
+            input: {
+              name: "Alice"
+              role: ADMIN
+              address: { city: "Paris" }
+              tags: ["a", "b"]
+            }
+          ) {
+            id
+            name
+            role
+            address {
+              city
+              zip
+            }
+            tags
+          }
+          createUserWithPayload(input: { name: "Bob" }) {
+            user {
+              name
+            }
+          }
+          renameUser(id: "1", name: "Carol") {
+            name
+          }
+        }
+      `,
+    );
+    expect(result).to.deep.equal({
+      data: {
+        createUser: {
+          id: 'id',
+          name: 'Alice',
+          role: 'ADMIN',
+          address: { city: 'Paris', zip: 'Hello World' },
+          tags: ['a', 'b'],
+        },
+        createUserWithPayload: { user: { name: 'Bob' } },
+        renameUser: { name: 'Mocked' },
+      },
+    });
+  });
+
+  it('uses the mock hints of directives', async () => {
+    const typeDefs = `
+      ${mockDirectivesTypeDefs}
+
+      scalar Email @fake(type: email)
+
+      enum Role @examples(values: [ADMIN]) {
+        ADMIN
+        USER
+      }
+
+      type User {
+        id: ID! @mock(value: "1")
+        name: String @examples(values: ["Alice", "Bob"])
+        email: Email
+        website: String @fake(type: url)
+        role: Role
+        tags: [String] @examples(values: ["a"]) @listLength(min: 3, max: 3)
+        friends: [User] @listLength(max: 1)
+      }
+
+      type Query {
+        user: User
+        users(count: Int @mock(value: 3)): [User]
+      }
+    `;
+    const query = `{
+      user {
+        id
+        name
+        email
+        website
+        role
+        tags
+        friends {
+          id
+        }
+      }
+      users {
+        id
+      }
+    }`;
+
+    const jsSchema = buildSchemaFromTypeDefinitions(typeDefs);
+    addMocksToSchema({
+      schema: jsSchema,
+      mocks: {
+        Query: () => ({
+          users: (_root: any, { count }: { count: number }) =>
+            new MockList(count),
+        }),
+      },
+    });
+    const { data } = await graphql(jsSchema, query);
+    expect(data.user.id).to.equal('1');
+    expect(data.user.name).to.be.oneOf(['Alice', 'Bob']);
+    expect(data.user.email).to.match(/^[a-z]+\.[a-z]+@example\.com$/);
+    expect(data.user.website).to.match(/^https:\/\/example\.com\//);
+    expect(data.user.role).to.equal('ADMIN');
+    expect(data.user.tags).to.deep.equal(['a', 'a', 'a']);
+    expect(data.user.friends.length).to.be.within(0, 1);
+    expect(data.users).to.deep.equal([{ id: '1' }, { id: '1' }, { id: '1' }]);
+
+    const mockedSchema = buildSchemaFromTypeDefinitions(typeDefs);
+    addMocksToSchema({
+      schema: mockedSchema,
+      mocks: { User: () => ({ name: 'Carol' }) },
+    });
+    const result = await graphql(mockedSchema, '{ user { id name } }');
+    expect(result.data).to.deep.equal({ user: { id: '1', name: 'Carol' } });
+
+    expect(() =>
+      addMocksToSchema({
+        schema: buildSchemaFromTypeDefinitions(`
+          ${mockDirectivesTypeDefs}
+
+          type Query {
+            name: String @fake(type: unknown)
+          }
+        `),
+      }),
+    ).to.throw('Unknown fake type "unknown" for "Query.name".');
+  });
+
+  it('generates realistic values from field and scalar names', async () => {
+    const typeDefs = `
+      scalar DateTime
+      scalar JSON
+
+      enum EmailKind {
+        HOME
+        WORK
+      }
+
+      type Product {
+        name: String
+        sku: String
+        email: String
+        avatarUrl: String
+        createdAt: DateTime
+        releaseDate: String
+        price: Float
+        total: Int
+        emailKind: EmailKind
+        metadata: JSON
+      }
+
+      type Query {
+        product: Product
+      }
+    `;
+    const query = `{
+      product {
+        name
+        sku
+        email
+        avatarUrl
+        createdAt
+        releaseDate
+        price
+        total
+        emailKind
+        metadata
+      }
+    }`;
+
+    const jsSchema = buildSchemaFromTypeDefinitions(typeDefs);
+    addMocksToSchema({
+      schema: jsSchema,
+      generators: [
+        { fieldName: /^sku$/, generate: () => 'SKU-1' },
+        ...defaultMockGenerators,
+      ],
+    });
+    const { data, errors } = await graphql(jsSchema, query);
+    expect(errors).to.equal(undefined);
+
+    const { product } = data;
+    expect(product.name).to.equal('Hello World');
+    expect(product.sku).to.equal('SKU-1');
+    expect(product.email).to.match(/^[a-z]+\.[a-z]+@example\.com$/);
+    expect(product.avatarUrl).to.match(/^https:\/\/example\.com\/images\//);
+    expect(new Date(product.createdAt).toISOString()).to.equal(
+      product.createdAt,
+    );
+    expect(product.releaseDate).to.match(/^\d{4}-\d{2}-\d{2}$/);
+    expect(String(product.price)).to.match(/^\d+(\.\d{1,2})?$/);
+    expect(Number.isInteger(product.total)).to.equal(true);
+    expect(product.emailKind).to.be.oneOf(['HOME', 'WORK']);
+    expect(product.metadata).to.be.an('object');
+
+    const defaultSchema = buildSchemaFromTypeDefinitions(typeDefs);
+    addMocksToSchema({ schema: defaultSchema });
+    const result = await graphql(defaultSchema, '{ product { email } }');
+    expect(result.data).to.deep.equal({ product: { email: 'Hello World' } });
+  });
+
   // TODO add a test that checks that even when merging defaults, lists invoke
   // the function for every object, not just once per list.
 
@@ -0,0 +1,225 @@
+import { expect } from 'chai';
+import { parse, specifiedRules, validate } from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import {
+  addMergedTypeConfigFromDirectives,
+  costDirectiveTypeDefs,
+  createCostLimitRule,
+  getOperationCost,
+  mergeSchemas,
+  stitchingDirectivesTypeDefs,
+} from '../stitch/index';
+
+const postSchema = makeExecutableSchema({
+  typeDefs: `
+    ${costDirectiveTypeDefs}
+
+    type Post @cost(value: 3) {
+      title: String
+      comments(limit: Int): [Comment]
+      author: Author
+    }
+
+    type Comment {
+      text: String @cost(value: 1)
+    }
+
+    type Author {
+      name: String
+    }
+
+    type Query {
+      posts(first: Int): [Post] @cost(value: 2)
+      post(id: ID!): Post
+    }
+  `,
+});
+
+describe('getOperationCost', () => {
+  it('computes the cost and depth of operations', () => {
+    expect(
+      getOperationCost(
+        postSchema,
+        parse(`
+          {
+            posts(first: 5) {
+              title
+              comments(limit: 2) {
+                text
+              }
+              author {
+                name
+              }
+            }
+          }
+        `),
+      ),
+    ).to.deep.equal({ cost: 22, depth: 3, delegations: 0 });
+
+    expect(
+      getOperationCost(
+        postSchema,
+        parse(
+          '{ post(id: "1") { ...PostFields } } fragment PostFields on Post { title }',
+        ),
+      ),
+    ).to.deep.equal({ cost: 3, depth: 2, delegations: 0 });
+  });
+
+  it('uses list sizes from variables, configuration or defaults', () => {
+    const document = parse(`
+      query Posts($first: Int) {
+        posts(first: $first) {
+          author {
+            name
+          }
+        }
+      }
+    `);
+
+    expect(getOperationCost(postSchema, document).cost).to.equal(12);
+    expect(
+      getOperationCost(postSchema, document, { variables: { first: 3 } }).cost,
+    ).to.equal(5);
+    expect(
+      getOperationCost(postSchema, document, {
+        fieldCosts: { Query: { posts: { value: 1, listSize: 50 } } },
+      }).cost,
+    ).to.equal(51);
+  });
+
+  it('counts delegations to resolve merged types', () => {
+    const chirpSchema = makeExecutableSchema({
+      typeDefs: `
+        ${stitchingDirectivesTypeDefs}
+
+        type Chirp {
+          id: ID!
+          text: String
+          author: User
+        }
+
+        type User @key(selectionSet: "{ id }") {
+          id: ID!
+          chirps: [Chirp]
+        }
+
+        type Query {
+          chirps: [Chirp]
+          userById(id: ID!): User @merge(keyField: "id")
+        }
+      `,
+    });
+
+    const authorSchema = makeExecutableSchema({
+      typeDefs: `
+        ${stitchingDirectivesTypeDefs}
+
+        type User @key(selectionSet: "{ id }") {
+          id: ID!
+          email: String
+        }
+
+        type Query {
+          userById(id: ID!): User @merge(keyField: "id")
+        }
+      `,
+    });
+
+    const stitchedSchema = mergeSchemas({
+      subschemas: [
+        addMergedTypeConfigFromDirectives({ schema: chirpSchema }),
+        addMergedTypeConfigFromDirectives({ schema: authorSchema }),
+      ],
+    });
+
+    expect(
+      getOperationCost(
+        stitchedSchema,
+        parse('{ chirps { text author { id email } } }'),
+      ),
+    ).to.deep.equal({ cost: 21, depth: 3, delegations: 10 });
+
+    expect(
+      getOperationCost(
+        stitchedSchema,
+        parse('{ chirps { author { id chirps { text } } } }'),
+      ),
+    ).to.deep.equal({ cost: 21, depth: 4, delegations: 0 });
+  });
+
+  it('rejects operations exceeding the maximum cost or depth', () => {
+    const rules = [
+      ...specifiedRules,
+      createCostLimitRule({ maximumCost: 10, maximumDepth: 2 }),
+    ];
+
+    expect(
+      validate(postSchema, parse('{ post(id: "1") { title } }'), rules),
+    ).to.deep.equal([]);
+
+    const errors = validate(
+      postSchema,
+      parse('query Posts { posts(first: 5) { comments { text } } }'),
+      rules,
+    );
+    expect(errors.map((error) => error.message)).to.deep.equal([
+      'Operation "Posts" has a cost of 57, exceeding the maximum cost of 10.',
+      'Operation "Posts" has a depth of 3, exceeding the maximum depth of 2.',
+    ]);
+    expect(errors[0].extensions).to.deep.equal({
+      code: 'OPERATION_COST_EXCEEDED',
+      cost: 57,
+    });
+  });
+
+  it('does not recurse into fragment cycles', () => {
+    const schema = makeExecutableSchema({
+      typeDefs: `
+        interface A {
+          id: ID
+          b: B
+        }
+
+        interface B {
+          id: ID
+        }
+
+        type T implements A & B {
+          id: ID
+          b: B
+        }
+
+        type Query {
+          a: A
+        }
+      `,
+      resolverValidationOptions: { requireResolversForResolveType: false },
+    });
+    const rules = [...specifiedRules, createCostLimitRule({ maximumCost: 10 })];
+
+    const errors = validate(
+      schema,
+      parse(`
+        { a { ...FA } }
+        fragment FA on A { id ...FB }
+        fragment FB on B { ...FA }
+      `),
+      rules,
+    );
+    expect(errors.map((error) => error.message)).to.deep.equal([
+      'Cannot spread fragment "FA" within itself via FB.',
+    ]);
+
+    expect(
+      getOperationCost(
+        schema,
+        parse(`
+          { a { ...FA } }
+          fragment FA on A { b { ...FA } }
+        `),
+      ),
+    ).to.deep.equal({ cost: 2, depth: 2, delegations: 0 });
+  });
+});
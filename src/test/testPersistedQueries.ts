@@ -0,0 +1,225 @@
+import { expect } from 'chai';
+import { ApolloLink, Observable } from 'apollo-link';
+import { execute, graphql, parse, print } from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import {
+  createPersistedQueries,
+  explainOperation,
+  getPersistedQueryHash,
+} from '../delegate/index';
+import { mergeSchemas } from '../stitch/index';
+import { IFetcherOperation, SubschemaConfig } from '../Interfaces';
+
+const userSchema = makeExecutableSchema({
+  typeDefs: `
+    type User {
+      id: ID!
+      name: String
+    }
+
+    type Query {
+      userById(id: ID!): User
+    }
+  `,
+  resolvers: {
+    Query: {
+      userById: (_root, { id }: { id: string }) => ({ id, name: `User ${id}` }),
+    },
+  },
+});
+
+const postSchema = makeExecutableSchema({
+  typeDefs: `
+    type Post {
+      id: ID!
+      title: String
+      authorId: ID!
+    }
+
+    type Query {
+      posts: [Post]
+    }
+  `,
+  resolvers: {
+    Query: {
+      posts: () => [{ id: '1', title: 'Hello', authorId: '2' }],
+    },
+  },
+});
+
+const createGatewaySchema = (userSubschema: SubschemaConfig) =>
+  mergeSchemas({
+    subschemas: [userSubschema, postSchema],
+    typeDefs: `
+      extend type Post {
+        author: User
+      }
+    `,
+    resolvers: {
+      Post: {
+        author: {
+          fragment: '... on Post { authorId }',
+          resolve: (post, _args, context, info) =>
+            info.mergeInfo.delegateToSchema({
+              schema: userSubschema,
+              operation: 'query',
+              fieldName: 'userById',
+              args: { id: post.authorId },
+              context,
+              info,
+            }),
+        },
+      },
+    },
+  });
+
+const postsQuery = `
+  query Posts {
+    posts {
+      title
+      author {
+        name
+      }
+    }
+  }
+`;
+
+describe('persisted queries', () => {
+  const gatewaySchema = createGatewaySchema({ schema: userSchema });
+  const persistedQueries = createPersistedQueries(gatewaySchema, [postsQuery]);
+  const expectedResult = {
+    data: { posts: [{ title: 'Hello', author: { name: 'User 2' } }] },
+  };
+
+  it('executes only persisted operations of a stitched schema', async () => {
+    const hash = getPersistedQueryHash(parse(postsQuery));
+    expect(persistedQueries.hashes).to.deep.equal([hash]);
+
+    expect(await persistedQueries.execute({ hash })).to.deep.equal(
+      expectedResult,
+    );
+    expect(
+      await persistedQueries.execute({
+        extensions: { persistedQuery: { version: 1, sha256Hash: hash } },
+      }),
+    ).to.deep.equal(expectedResult);
+    expect(
+      await persistedQueries.execute({
+        query: 'query Posts { posts { title author { name } } }',
+      }),
+    ).to.deep.equal(expectedResult);
+
+    const result = await persistedQueries.execute({
+      query: '{ posts { id } }',
+    });
+    expect(result.errors[0].message).to.equal('PersistedQueryNotFound');
+    expect(result.errors[0].extensions).to.deep.equal({
+      code: 'PERSISTED_QUERY_NOT_FOUND',
+    });
+
+    const syntaxErrorResult = await persistedQueries.execute({
+      query: '{ posts { ',
+    });
+    expect(syntaxErrorResult.errors.length).to.equal(1);
+    expect(syntaxErrorResult.errors[0].message).to.match(/^Syntax Error/);
+  });
+
+  it('validates persisted operations', () => {
+    expect(() =>
+      createPersistedQueries(gatewaySchema, ['{ posts { author { email } } }']),
+    ).to.throw(
+      'Invalid persisted operation:\nCannot query field "email" on type "User".',
+    );
+  });
+
+  it('forwards hashes alone to subschemas with automatic persisted queries', async () => {
+    const plan = await explainOperation(gatewaySchema, parse(postsQuery));
+    const userPersistedQueries = createPersistedQueries(
+      userSchema,
+      plan
+        .filter((node) => node.fieldName === 'userById')
+        .map((node) => node.document),
+    );
+
+    const operations: Array<IFetcherOperation> = [];
+    const schema = createGatewaySchema({
+      schema: userSchema,
+      persistedQueries: 'automatic',
+      fetcher: (operation) => {
+        operations.push(operation);
+        return userPersistedQueries.executor({
+          document: operation.query,
+          variables: operation.variables,
+          extensions: operation.extensions,
+        });
+      },
+    });
+
+    expect(await graphql(schema, postsQuery)).to.deep.equal(expectedResult);
+    expect(operations.length).to.equal(1);
+    expect(operations[0].query).to.equal(undefined);
+    expect(userPersistedQueries.hashes).to.include(
+      operations[0].extensions.persistedQuery.sha256Hash,
+    );
+
+    operations.length = 0;
+    const result = await execute(
+      schema,
+      parse('{ posts { author { id name } } }'),
+    );
+    expect(result.data).to.deep.equal({ posts: [{ author: null }] });
+    expect(result.errors[0].message).to.equal('PersistedQueryNotFound');
+    expect(operations.length).to.equal(2);
+    expect(operations[0].query).to.equal(undefined);
+    expect(operations[1].extensions).to.deep.equal({
+      persistedQuery: {
+        version: 1,
+        sha256Hash: getPersistedQueryHash(operations[1].query),
+      },
+    });
+    expect(operations[0].extensions).to.deep.equal(operations[1].extensions);
+  });
+
+  it('forwards hashes along with delegated operations to subschemas', async () => {
+    const hashes: Array<string> = [];
+    const link = new ApolloLink(
+      (operation) =>
+        new Observable((observer) => {
+          const { persistedQuery } = operation.extensions;
+          hashes.push(persistedQuery.sha256Hash);
+          expect(persistedQuery.sha256Hash).to.equal(
+            getPersistedQueryHash(operation.query),
+          );
+          graphql(
+            userSchema,
+            print(operation.query),
+            null,
+            null,
+            operation.variables,
+          )
+            .then((result) => {
+              observer.next(result);
+              observer.complete();
+            })
+            .catch((error) => observer.error(error));
+        }),
+    );
+
+    const linkSchema = createGatewaySchema({
+      schema: userSchema,
+      persistedQueries: true,
+      link,
+    });
+    expect(await graphql(linkSchema, postsQuery)).to.deep.equal(expectedResult);
+    expect(hashes.length).to.equal(1);
+
+    const localSchema = createGatewaySchema({
+      schema: userSchema,
+      persistedQueries: true,
+    });
+    expect(await graphql(localSchema, postsQuery)).to.deep.equal(
+      expectedResult,
+    );
+  });
+});
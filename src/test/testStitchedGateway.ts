@@ -0,0 +1,262 @@
+import { expect } from 'chai';
+import { GraphQLSchema, graphql } from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import { StitchedGateway } from '../stitch/index';
+import { SubschemaConfig } from '../Interfaces';
+
+function createGreetingSchema(greeting: string, delay = 0): GraphQLSchema {
+  return makeExecutableSchema({
+    typeDefs: `
+      type Query {
+        greeting: String
+      }
+    `,
+    resolvers: {
+      Query: {
+        greeting: () =>
+          new Promise((resolve) => setTimeout(() => resolve(greeting), delay)),
+      },
+    },
+  });
+}
+
+function createVersionSchema(version: number): GraphQLSchema {
+  return makeExecutableSchema({
+    typeDefs: `
+      type Query {
+        version${String(version)}: Int
+      }
+    `,
+    resolvers: {
+      Query: {
+        [`version${String(version)}`]: () => version,
+      },
+    },
+  });
+}
+
+describe('StitchedGateway', () => {
+  let subschemas: Array<SubschemaConfig>;
+  let loadError: Error;
+  let gateway: StitchedGateway;
+
+  const loader = {
+    load: () => {
+      if (loadError != null) {
+        throw loadError;
+      }
+      return subschemas;
+    },
+  };
+
+  beforeEach(() => {
+    subschemas = [{ name: 'greetings', schema: createGreetingSchema('Hello') }];
+    loadError = undefined;
+    gateway = new StitchedGateway({ loader });
+  });
+
+  afterEach(() => {
+    gateway.stop();
+  });
+
+  it('builds the stitched schema on start', async () => {
+    const schema = await gateway.start();
+
+    expect(schema).to.equal(gateway.schema);
+    expect(gateway.subschemas).to.equal(subschemas);
+
+    const result = await graphql(gateway.schema, '{ greeting }');
+    expect(result).to.deep.equal({ data: { greeting: 'Hello' } });
+  });
+
+  it('rejects on start if the schema cannot be built', async () => {
+    loadError = new Error('service unavailable');
+
+    let error: Error;
+    try {
+      await gateway.start();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.equal(loadError);
+    expect(gateway.schema).to.equal(undefined);
+  });
+
+  it('swaps in the rebuilt schema without affecting executing requests', async () => {
+    subschemas = [
+      { name: 'greetings', schema: createGreetingSchema('Hello', 20) },
+    ];
+    await gateway.start();
+
+    const updates: Array<[GraphQLSchema, GraphQLSchema]> = [];
+    gateway.on('update', (schema, previousSchema) =>
+      updates.push([schema, previousSchema]),
+    );
+
+    const previousSchema = gateway.schema;
+    const inFlightResult = graphql(gateway.schema, '{ greeting }');
+
+    subschemas = [
+      { name: 'greetings', schema: createGreetingSchema('Goodbye') },
+      { name: 'versions', schema: createVersionSchema(2) },
+    ];
+    expect(await gateway.reload()).to.equal(true);
+
+    expect(gateway.schema).not.to.equal(previousSchema);
+    expect(updates).to.deep.equal([[gateway.schema, previousSchema]]);
+    expect(await inFlightResult).to.deep.equal({ data: { greeting: 'Hello' } });
+
+    const result = await graphql(gateway.schema, '{ greeting version2 }');
+    expect(result).to.deep.equal({
+      data: { greeting: 'Goodbye', version2: 2 },
+    });
+  });
+
+  it('keeps the last good schema when a rebuild fails', async () => {
+    await gateway.start();
+    const previousSchema = gateway.schema;
+
+    const errors: Array<Error> = [];
+    gateway.on('updateError', (error) => errors.push(error));
+
+    loadError = new Error('service unavailable');
+    expect(await gateway.reload()).to.equal(false);
+
+    loadError = undefined;
+    subschemas = [
+      {
+        name: 'invalid',
+        schema: new GraphQLSchema({ query: undefined }),
+      },
+    ];
+    expect(await gateway.reload()).to.equal(false);
+
+    expect(gateway.schema).to.equal(previousSchema);
+    expect(errors.length).to.equal(2);
+    expect(errors[0].message).to.equal('service unavailable');
+    expect(errors[1].message).to.contain('Stitched schema is invalid');
+  });
+
+  it('rejects rebuilt schemas failing custom validation', async () => {
+    gateway = new StitchedGateway({
+      loader,
+      validate: (schema) => {
+        if (schema.getQueryType().getFields().greeting == null) {
+          throw new Error('greeting is required');
+        }
+      },
+    });
+    await gateway.start();
+    const previousSchema = gateway.schema;
+
+    const errors: Array<Error> = [];
+    gateway.on('updateError', (error) => errors.push(error));
+
+    subschemas = [{ name: 'versions', schema: createVersionSchema(1) }];
+    expect(await gateway.reload()).to.equal(false);
+
+    expect(gateway.schema).to.equal(previousSchema);
+    expect(errors.map((error) => error.message)).to.deep.equal([
+      'greeting is required',
+    ]);
+  });
+
+  it('skips rebuilding when the subschemas are unchanged', async () => {
+    await gateway.start();
+    const previousSchema = gateway.schema;
+
+    subschemas = [{ name: 'greetings', schema: createGreetingSchema('Hi') }];
+    expect(await gateway.reload()).to.equal(false);
+    expect(gateway.schema).to.equal(previousSchema);
+  });
+
+  it('rebuilds when the configs of the subschemas change', async () => {
+    await gateway.start();
+    const schema = createGreetingSchema('Hi');
+    const executor = () => ({ data: { greeting: 'Hi' } });
+
+    subschemas = [{ name: 'greetings', schema, executor }];
+    expect(await gateway.reload()).to.equal(true);
+
+    subschemas = [{ name: 'greetings', schema, executor }];
+    expect(await gateway.reload()).to.equal(false);
+
+    subschemas = [
+      { name: 'greetings', schema, executor: () => ({ data: {} }) },
+    ];
+    expect(await gateway.reload()).to.equal(true);
+
+    subschemas = [{ name: 'greetings', schema, executor, batch: true }];
+    expect(await gateway.reload()).to.equal(true);
+  });
+
+  it('ignores exceptions thrown by listeners', async () => {
+    gateway = new StitchedGateway({ loader, pollInterval: 5 });
+    await gateway.start();
+
+    const errors: Array<Error> = [];
+    gateway.on('update', () => {
+      throw new Error('update listener failed');
+    });
+    gateway.on('updateError', () => {
+      throw new Error('updateError listener failed');
+    });
+    gateway.on('updateError', (error) => errors.push(error));
+
+    subschemas = [{ name: 'versions', schema: createVersionSchema(1) }];
+    expect(await gateway.reload()).to.equal(true);
+    expect(errors).to.deep.equal([]);
+
+    loadError = new Error('service unavailable');
+    expect(await gateway.reload()).to.equal(false);
+
+    const updated = new Promise((resolve) => gateway.on('update', resolve));
+    loadError = undefined;
+    subschemas = [{ name: 'versions', schema: createVersionSchema(2) }];
+    await updated;
+
+    expect(errors.length).to.be.at.least(1);
+    expect(errors[0].message).to.equal('service unavailable');
+  });
+
+  it('reloads when notified by the loader', async () => {
+    let notify: () => void;
+    gateway = new StitchedGateway({
+      loader: {
+        ...loader,
+        watch: (onChange) => {
+          notify = onChange;
+          return () => {
+            notify = undefined;
+          };
+        },
+      },
+    });
+    await gateway.start();
+
+    const updated = new Promise((resolve) => gateway.on('update', resolve));
+    subschemas = [{ name: 'versions', schema: createVersionSchema(1) }];
+    notify();
+    await updated;
+
+    const result = await graphql(gateway.schema, '{ version1 }');
+    expect(result).to.deep.equal({ data: { version1: 1 } });
+
+    gateway.stop();
+    expect(notify).to.equal(undefined);
+  });
+
+  it('polls for changes', async () => {
+    gateway = new StitchedGateway({ loader, pollInterval: 5 });
+    await gateway.start();
+
+    const updated = new Promise((resolve) => gateway.on('update', resolve));
+    subschemas = [{ name: 'versions', schema: createVersionSchema(3) }];
+    await updated;
+
+    const result = await graphql(gateway.schema, '{ version3 }');
+    expect(result).to.deep.equal({ data: { version3: 3 } });
+  });
+});
@@ -0,0 +1,288 @@
+import { expect } from 'chai';
+import { graphql, print } from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import { RenameTypes, wrapSchema } from '../wrap/index';
+import {
+  addMergedTypeConfigFromDirectives,
+  mergeSchemas,
+  stitchingDirectivesTypeDefs,
+} from '../stitch/index';
+
+const users = [
+  { id: '1', email: 'one@example.com' },
+  { id: '2', email: 'two@example.com' },
+];
+
+const chirps = [
+  { id: '1', text: 'hello', authorId: '1' },
+  { id: '2', text: 'world', authorId: '2' },
+];
+
+const chirpSchema = makeExecutableSchema({
+  typeDefs: `
+    ${stitchingDirectivesTypeDefs}
+
+    type Chirp {
+      id: ID!
+      text: String
+      author: User
+    }
+
+    type User @key(selectionSet: "{ id }") {
+      id: ID!
+      chirps: [Chirp]
+    }
+
+    type Query {
+      chirpById(id: ID!): Chirp
+      userById(id: ID!): User @merge(keyField: "id")
+    }
+  `,
+  resolvers: {
+    Chirp: {
+      author: (chirp) => ({ id: chirp.authorId }),
+    },
+    User: {
+      chirps: (user) => chirps.filter((chirp) => chirp.authorId === user.id),
+    },
+    Query: {
+      chirpById: (_root, { id }) => chirps.find((chirp) => chirp.id === id),
+      userById: (_root, { id }) => ({ id }),
+    },
+  },
+});
+
+describe('stitching directives', () => {
+  let batches: Array<Array<string>>;
+
+  const authorSchema = makeExecutableSchema({
+    typeDefs: `
+      ${stitchingDirectivesTypeDefs}
+
+      type User @key(selectionSet: "{ id }") {
+        id: ID!
+        email: String
+      }
+
+      type Query {
+        usersByIds(ids: [ID!]!): [User]! @merge(keyField: "id")
+      }
+    `,
+    resolvers: {
+      Query: {
+        usersByIds: (_root, { ids }) => {
+          batches.push(ids);
+          return ids.map((id: string) => users.find((user) => user.id === id));
+        },
+      },
+    },
+  });
+
+  const stitchedSchema = mergeSchemas({
+    subschemas: [
+      addMergedTypeConfigFromDirectives({ schema: chirpSchema }),
+      addMergedTypeConfigFromDirectives({ schema: authorSchema }),
+    ],
+    mergeTypes: true,
+    mergeDirectives: true,
+  });
+
+  beforeEach(() => {
+    batches = [];
+  });
+
+  it('generates merged type configuration', () => {
+    const config = addMergedTypeConfigFromDirectives({ schema: chirpSchema });
+
+    expect(Object.keys(config.merge)).to.deep.equal(['User']);
+    expect(config.merge.User.selectionSet).to.equal('{ id }');
+    expect(config.merge.User.fieldName).to.equal('userById');
+    expect(config.merge.User.args({ id: '1', chirps: [] })).to.deep.equal({
+      id: '1',
+    });
+  });
+
+  it('merges types using the generated configuration', async () => {
+    const result = await graphql(
+      stitchedSchema,
+      `
+        query {
+          chirpById(id: "1") {
+            text
+            author {
+              email
+              chirps {
+                author {
+                  email
+                }
+              }
+            }
+          }
+        }
+      `,
+    );
+
+    expect(result).to.deep.equal({
+      data: {
+        chirpById: {
+          text: 'hello',
+          author: {
+            email: 'one@example.com',
+            chirps: [
+              {
+                author: {
+                  email: 'one@example.com',
+                },
+              },
+            ],
+          },
+        },
+      },
+    });
+    expect(batches).to.deep.equal([['1'], ['1']]);
+  });
+
+  it('generates configuration for transformed subschemas', async () => {
+    const accountSchema = makeExecutableSchema({
+      typeDefs: `
+        ${stitchingDirectivesTypeDefs}
+
+        type Account @key(selectionSet: "{ id }") {
+          id: ID!
+          email: String
+        }
+
+        type Query {
+          accountById(id: ID!): Account @merge
+        }
+      `,
+      resolvers: {
+        Query: {
+          accountById: (_root, { id }) => users.find((user) => user.id === id),
+        },
+      },
+    });
+
+    const accountSubschema = addMergedTypeConfigFromDirectives({
+      schema: accountSchema,
+      transforms: [
+        new RenameTypes((name) => (name === 'Account' ? 'User' : undefined)),
+      ],
+    });
+    expect(Object.keys(accountSubschema.merge)).to.deep.equal(['User']);
+    expect(accountSubschema.merge.User.args({ id: '1' })).to.deep.equal({
+      id: '1',
+    });
+
+    const schema = mergeSchemas({
+      subschemas: [
+        addMergedTypeConfigFromDirectives({ schema: chirpSchema }),
+        accountSubschema,
+      ],
+      mergeTypes: true,
+    });
+    const result = await graphql(
+      schema,
+      '{ chirpById(id: "2") { author { id email } } }',
+    );
+    expect(result).to.deep.equal({
+      data: {
+        chirpById: { author: { id: '2', email: 'two@example.com' } },
+      },
+    });
+  });
+
+  it('lets explicit configuration override generated configuration', async () => {
+    const requests: Array<string> = [];
+    const userSchema = makeExecutableSchema({
+      typeDefs: `
+        ${stitchingDirectivesTypeDefs}
+
+        type User @key(selectionSet: "{ id }") {
+          id: ID!
+          email: String
+        }
+
+        type Query {
+          usersByIds(ids: [ID!]!): [User]! @merge(keyField: "id")
+          userById(id: ID!): User
+        }
+      `,
+      resolvers: {
+        Query: {
+          usersByIds: (_root, { ids }) => {
+            requests.push('usersByIds');
+            return ids.map((id: string) =>
+              users.find((user) => user.id === id),
+            );
+          },
+          userById: (_root, { id }) => {
+            requests.push('userById');
+            return users.find((user) => user.id === id);
+          },
+        },
+      },
+    });
+
+    const userSubschema = addMergedTypeConfigFromDirectives({
+      schema: userSchema,
+      merge: {
+        User: {
+          fieldName: 'userById',
+          args: (originalResult) => ({ id: originalResult.id }),
+        },
+      },
+    });
+    expect(userSubschema.merge.User.key).to.equal(undefined);
+    expect(userSubschema.merge.User.argsFromKeys).to.equal(undefined);
+    expect(userSubschema.merge.User.selectionSet).to.equal('{ id }');
+
+    const schema = mergeSchemas({
+      subschemas: [
+        addMergedTypeConfigFromDirectives({ schema: chirpSchema }),
+        userSubschema,
+      ],
+      mergeTypes: true,
+    });
+    const result = await graphql(
+      schema,
+      '{ chirpById(id: "1") { author { email } } }',
+    );
+    expect(result).to.deep.equal({
+      data: { chirpById: { author: { email: 'one@example.com' } } },
+    });
+    expect(requests).to.deep.equal(['userById']);
+  });
+
+  it('removes the directives from the gateway schema', () => {
+    expect(stitchedSchema.getDirective('key')).to.equal(undefined);
+    expect(stitchedSchema.getDirective('merge')).to.equal(undefined);
+
+    const wrappedSchema = wrapSchema(
+      addMergedTypeConfigFromDirectives({ schema: authorSchema }),
+    );
+    expect(print(wrappedSchema.getType('User').astNode)).not.to.contain('@');
+    expect(print(wrappedSchema.getQueryType().astNode)).not.to.contain('@');
+  });
+
+  it('requires a key for fields with multiple arguments', () => {
+    const schema = makeExecutableSchema({
+      typeDefs: `
+        ${stitchingDirectivesTypeDefs}
+
+        type User {
+          id: ID!
+        }
+
+        type Query {
+          user(id: ID, name: String): User @merge(keyField: "id")
+        }
+      `,
+    });
+
+    expect(() => addMergedTypeConfigFromDirectives({ schema })).to.throw(
+      'must specify a keyArg',
+    );
+  });
+});
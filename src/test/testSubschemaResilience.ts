@@ -0,0 +1,206 @@
+import { expect } from 'chai';
+import { GraphQLError, GraphQLSchema, execute, graphql } from 'graphql';
+
+import { makeExecutableSchema } from '../generate/index';
+import { mergeSchemas } from '../stitch/index';
+import { Delegator, SubschemaConfig } from '../Interfaces';
+
+const usersSchema = makeExecutableSchema({
+  typeDefs: `
+    type Query {
+      user: String
+    }
+    type Mutation {
+      renameUser(name: String!): String
+    }
+  `,
+  resolvers: {
+    Query: {
+      user: () => 'Alice',
+    },
+    Mutation: {
+      renameUser: (_root, { name }: { name: string }) => name,
+    },
+  },
+});
+
+const postsSchema = makeExecutableSchema({
+  typeDefs: `
+    type Query {
+      post: String
+    }
+  `,
+  resolvers: {
+    Query: {
+      post: () => 'Hello',
+    },
+  },
+});
+
+const localExecutor = (schema: GraphQLSchema): Delegator => ({
+  document,
+  variables,
+}) => execute({ schema, document, variableValues: variables });
+
+describe('subschema timeouts, retries and circuit breaking', () => {
+  let requests: number;
+  let failures: number;
+  let errorResults: number;
+  let hang: boolean;
+
+  const usersExecutor: Delegator = (params) => {
+    requests++;
+    if (hang) {
+      return new Promise(() => undefined);
+    }
+    if (failures > 0) {
+      failures--;
+      return Promise.reject(new Error('Connection refused'));
+    }
+    if (errorResults > 0) {
+      errorResults--;
+      return { errors: [new GraphQLError('Internal server error')] };
+    }
+    return localExecutor(usersSchema)(params);
+  };
+
+  const createGatewaySchema = (
+    config: Partial<SubschemaConfig>,
+  ): GraphQLSchema =>
+    mergeSchemas({
+      subschemas: [
+        {
+          schema: usersSchema,
+          name: 'users',
+          executor: usersExecutor,
+          ...config,
+        },
+        { schema: postsSchema, executor: localExecutor(postsSchema) },
+      ],
+    });
+
+  beforeEach(() => {
+    requests = 0;
+    failures = 0;
+    errorResults = 0;
+    hang = false;
+  });
+
+  it('times out requests to a subschema', async () => {
+    hang = true;
+    const result = await graphql(
+      createGatewaySchema({ timeout: 10 }),
+      '{ user post }',
+    );
+
+    expect(result.data).to.deep.equal({ user: null, post: 'Hello' });
+    expect(result.errors.length).to.equal(1);
+    expect(result.errors[0].message).to.equal(
+      'Subschema "users" did not respond within 10ms.',
+    );
+    expect(result.errors[0].path).to.deep.equal(['user']);
+    expect(result.errors[0].extensions).to.deep.equal({
+      code: 'SUBSCHEMA_TIMEOUT',
+      subschema: 'users',
+      timeout: 10,
+    });
+  });
+
+  it('retries failed queries but not mutations', async () => {
+    const schema = createGatewaySchema({ retry: { attempts: 2, delay: 1 } });
+
+    failures = 2;
+    const result = await graphql(schema, '{ user }');
+    expect(result).to.deep.equal({ data: { user: 'Alice' } });
+    expect(requests).to.equal(3);
+
+    requests = 0;
+    failures = 1;
+    const mutationResult = await graphql(
+      schema,
+      'mutation { renameUser(name: "Bob") }',
+    );
+    expect(mutationResult.errors[0].message).to.equal('Connection refused');
+    expect(requests).to.equal(1);
+  });
+
+  it('short-circuits requests to a failing subschema', async () => {
+    const schema = createGatewaySchema({
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 20 },
+    });
+
+    failures = 2;
+    await graphql(schema, '{ user }');
+    await graphql(schema, '{ user }');
+    expect(requests).to.equal(2);
+
+    const result = await graphql(schema, '{ user post }');
+    expect(requests).to.equal(2);
+    expect(result.data).to.deep.equal({ user: null, post: 'Hello' });
+    expect(result.errors[0].message).to.equal(
+      'Subschema "users" is unavailable after 2 consecutive failures.',
+    );
+    expect(result.errors[0].extensions.code).to.equal('SUBSCHEMA_UNAVAILABLE');
+    expect(result.errors[0].extensions.failures).to.equal(2);
+    expect(result.errors[0].extensions.retryAfter).to.be.at.most(20);
+
+    await new Promise((resolve) => setTimeout(resolve, 25));
+    const recoveredResult = await graphql(schema, '{ user }');
+    expect(recoveredResult).to.deep.equal({ data: { user: 'Alice' } });
+    expect(requests).to.equal(3);
+  });
+
+  it('times out trial requests of a half-open circuit', async () => {
+    const schema = createGatewaySchema({
+      circuitBreaker: { failureThreshold: 1, resetTimeout: 20 },
+    });
+
+    failures = 1;
+    await graphql(schema, '{ user }');
+    await new Promise((resolve) => setTimeout(resolve, 25));
+
+    hang = true;
+    const trialResult = await graphql(schema, '{ user }');
+    expect(requests).to.equal(2);
+    expect(trialResult.errors[0].extensions.code).to.equal('SUBSCHEMA_TIMEOUT');
+
+    const result = await graphql(schema, '{ user }');
+    expect(requests).to.equal(2);
+    expect(result.errors[0].extensions.code).to.equal('SUBSCHEMA_UNAVAILABLE');
+
+    hang = false;
+    await new Promise((resolve) => setTimeout(resolve, 25));
+    expect(await graphql(schema, '{ user }')).to.deep.equal({
+      data: { user: 'Alice' },
+    });
+  });
+
+  it('counts results with errors and no data as failures', async () => {
+    const schema = createGatewaySchema({
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 20 },
+    });
+
+    errorResults = 2;
+    await graphql(schema, '{ user }');
+    await graphql(schema, '{ user }');
+    const result = await graphql(schema, '{ user }');
+    expect(requests).to.equal(2);
+    expect(result.errors[0].extensions.code).to.equal('SUBSCHEMA_UNAVAILABLE');
+
+    const lenientSchema = createGatewaySchema({
+      circuitBreaker: {
+        failureThreshold: 2,
+        resetTimeout: 20,
+        isFailure: () => false,
+      },
+    });
+
+    requests = 0;
+    errorResults = 2;
+    await graphql(lenientSchema, '{ user }');
+    await graphql(lenientSchema, '{ user }');
+    const lenientResult = await graphql(lenientSchema, '{ user }');
+    expect(requests).to.equal(3);
+    expect(lenientResult).to.deep.equal({ data: { user: 'Alice' } });
+  });
+});
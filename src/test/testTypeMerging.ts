@@ -2,9 +2,25 @@
 // which relies on type merging.
 
 import { expect } from 'chai';
-import { graphql } from 'graphql';
+import {
+  ExecutionResult,
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLUnionType,
+  execute,
+  graphql,
+  parse,
+  subscribe,
+} from 'graphql';
+import { PubSub } from 'graphql-subscriptions';
 
-import { mergeSchemas, addMocksToSchema, makeExecutableSchema } from '../index';
+import {
+  mergeSchemas,
+  addMocksToSchema,
+  makeExecutableSchema,
+  MergeConflictError,
+} from '../index';
+import { MergedTypeConfig, SubschemaConfig } from '../Interfaces';
 
 const chirpSchema = makeExecutableSchema({
   typeDefs: `
@@ -90,3 +106,903 @@ describe('merging using type merging', () => {
     expect(result.data.userById.chirps[1].author.email).to.not.equal(null);
   });
 });
+
+describe('merging using batched type merging', () => {
+  let usersByIdsCalls: Array<Array<string>>;
+
+  const batchedChirpSchema = makeExecutableSchema({
+    typeDefs: `
+      type Chirp {
+        id: ID!
+        text: String
+        author: User
+      }
+
+      type User {
+        id: ID!
+      }
+
+      type Query {
+        chirps: [Chirp]
+      }
+    `,
+    resolvers: {
+      Query: {
+        chirps: () => [
+          { id: '1', text: 'first', author: { id: '10' } },
+          { id: '2', text: 'second', author: { id: '20' } },
+          { id: '3', text: 'third', author: { id: '30' } },
+        ],
+      },
+    },
+  });
+
+  const batchedAuthorSchema = makeExecutableSchema({
+    typeDefs: `
+      type User {
+        id: ID!
+        email: String
+      }
+
+      type Query {
+        usersByIds(ids: [ID!]!): [User]
+      }
+    `,
+    resolvers: {
+      Query: {
+        usersByIds: (_root, { ids }) => {
+          usersByIdsCalls.push(ids);
+          return ids.map((id: string) => ({ id, email: `${id}@example.com` }));
+        },
+      },
+    },
+  });
+
+  const batchedMergedSchema = mergeSchemas({
+    subschemas: [
+      { schema: batchedChirpSchema },
+      {
+        schema: batchedAuthorSchema,
+        merge: {
+          User: {
+            fieldName: 'usersByIds',
+            selectionSet: '{ id }',
+            key: (originalResult) => originalResult.id,
+            argsFromKeys: (ids) => ({ ids }),
+          },
+        },
+      },
+    ],
+    mergeTypes: true,
+  });
+
+  beforeEach(() => {
+    usersByIdsCalls = [];
+  });
+
+  it('sends a single delegated request for all objects of a list', async () => {
+    const query = `
+      query {
+        chirps {
+          id
+          author {
+            email
+          }
+        }
+      }
+    `;
+
+    const result = await graphql(batchedMergedSchema, query, undefined, {});
+
+    expect(result).to.deep.equal({
+      data: {
+        chirps: [
+          { id: '1', author: { email: '10@example.com' } },
+          { id: '2', author: { email: '20@example.com' } },
+          { id: '3', author: { email: '30@example.com' } },
+        ],
+      },
+    });
+    expect(usersByIdsCalls).to.deep.equal([['10', '20', '30']]);
+  });
+
+  it('maps results back using valuesFromResults', async () => {
+    const reversingSchema = mergeSchemas({
+      subschemas: [
+        { schema: batchedChirpSchema },
+        {
+          schema: batchedAuthorSchema,
+          merge: {
+            User: {
+              fieldName: 'usersByIds',
+              selectionSet: '{ id }',
+              key: (originalResult) => originalResult.id,
+              argsFromKeys: (ids) => ({ ids: ids.slice().reverse() }),
+              valuesFromResults: (results, keys) =>
+                keys.map((key) => results.find((r: any) => r.id === key)),
+            },
+          },
+        },
+      ],
+      mergeTypes: true,
+    });
+
+    const query = `
+      query {
+        chirps {
+          author {
+            id
+            email
+          }
+        }
+      }
+    `;
+
+    const result = await graphql(reversingSchema, query, undefined, {});
+
+    expect(result.errors).to.equal(undefined);
+    expect(
+      result.data.chirps.map((chirp: any) => chirp.author.email),
+    ).to.deep.equal(['10@example.com', '20@example.com', '30@example.com']);
+    expect(usersByIdsCalls).to.deep.equal([['30', '20', '10']]);
+  });
+
+  it('batches requests without a context within each execution', async () => {
+    const query = parse(`
+      query {
+        chirps {
+          author {
+            email
+          }
+        }
+      }
+    `);
+
+    const results = await Promise.all([
+      execute({ schema: batchedMergedSchema, document: query }),
+      execute({ schema: batchedMergedSchema, document: query }),
+    ]);
+
+    results.forEach((result) => {
+      expect(result.errors).to.equal(undefined);
+    });
+    expect(usersByIdsCalls).to.deep.equal([
+      ['10', '20', '30'],
+      ['10', '20', '30'],
+    ]);
+  });
+});
+
+describe('merging using multi-hop type merging', () => {
+  const catalogSchema = makeExecutableSchema({
+    typeDefs: `
+      type Product {
+        id: ID!
+        name: String
+      }
+
+      type Query {
+        topProducts: [Product]
+      }
+    `,
+    resolvers: {
+      Query: {
+        topProducts: () => [
+          { id: '1', name: 'Table' },
+          { id: '2', name: 'Chair' },
+        ],
+      },
+    },
+  });
+
+  const inventorySchema = makeExecutableSchema({
+    typeDefs: `
+      type Product {
+        id: ID!
+        sku: String
+        upc: String
+      }
+
+      type Query {
+        productById(id: ID!): Product
+        productByUpc(upc: String!): Product
+      }
+    `,
+    resolvers: {
+      Query: {
+        productById: (_root, { id }) => ({
+          id,
+          sku: `sku-${String(id)}`,
+          upc: `upc-${String(id)}`,
+        }),
+        productByUpc: (_root, { upc }) => ({
+          id: upc.slice(4),
+          sku: `sku-${String(upc.slice(4))}`,
+          upc,
+        }),
+      },
+    },
+  });
+
+  const pricingSchema = makeExecutableSchema({
+    typeDefs: `
+      type Product {
+        id: ID!
+        sku: String
+        price: Float
+        upc: String
+      }
+
+      type Query {
+        productByKey(id: ID!, sku: String!): Product
+        productBySku(sku: String!): Product
+      }
+    `,
+    resolvers: {
+      Query: {
+        productByKey: (_root, { id, sku }) => ({
+          id,
+          sku,
+          price: Number(id) * 10,
+        }),
+        productBySku: (_root, { sku }) => ({
+          id: sku.slice(4),
+          sku,
+          price: Number(sku.slice(4)) * 10,
+          upc: `upc-${String(sku.slice(4))}`,
+        }),
+      },
+    },
+  });
+
+  it('collects required fields from an intermediate subschema', async () => {
+    const multiHopSchema = mergeSchemas({
+      subschemas: [
+        { schema: catalogSchema },
+        {
+          schema: inventorySchema,
+          merge: {
+            Product: {
+              fieldName: 'productById',
+              selectionSet: '{ id }',
+              args: (originalResult) => ({ id: originalResult.id }),
+            },
+          },
+        },
+        {
+          schema: pricingSchema,
+          merge: {
+            Product: {
+              fieldName: 'productByKey',
+              selectionSet: '{ id sku }',
+              args: (originalResult) => ({
+                id: originalResult.id,
+                sku: originalResult.sku,
+              }),
+            },
+          },
+        },
+      ],
+      mergeTypes: true,
+    });
+
+    const query = `
+      query {
+        topProducts {
+          name
+          price
+        }
+      }
+    `;
+
+    const result = await graphql(multiHopSchema, query);
+
+    expect(result).to.deep.equal({
+      data: {
+        topProducts: [
+          { name: 'Table', price: 10 },
+          { name: 'Chair', price: 20 },
+        ],
+      },
+    });
+  });
+
+  it('reports an error when required fields cannot be collected', async () => {
+    const cyclicSchema = mergeSchemas({
+      subschemas: [
+        { schema: catalogSchema },
+        {
+          schema: inventorySchema,
+          merge: {
+            Product: {
+              fieldName: 'productByUpc',
+              selectionSet: '{ upc }',
+              args: (originalResult) => ({ upc: originalResult.upc }),
+            },
+          },
+        },
+        {
+          schema: pricingSchema,
+          merge: {
+            Product: {
+              fieldName: 'productBySku',
+              selectionSet: '{ sku }',
+              args: (originalResult) => ({ sku: originalResult.sku }),
+            },
+          },
+        },
+      ],
+      mergeTypes: true,
+    });
+
+    const query = `
+      query {
+        topProducts {
+          name
+          price
+        }
+      }
+    `;
+
+    const result = await graphql(cyclicSchema, query);
+
+    expect(result.data).to.deep.equal({
+      topProducts: [
+        { name: 'Table', price: null },
+        { name: 'Chair', price: null },
+      ],
+    });
+    expect(result.errors.length).to.equal(2);
+    expect(result.errors[0].message).to.equal(
+      'Cannot resolve field "Product.price": the fields required to merge it ' +
+        'from a subschema providing it cannot be resolved from the other ' +
+        'subschemas.',
+    );
+    expect(result.errors[0].path).to.deep.equal(['topProducts', 0, 'price']);
+  });
+});
+
+describe('merging using abstract type merging', () => {
+  const productSchema = makeExecutableSchema({
+    typeDefs: `
+      interface Node {
+        id: ID!
+      }
+
+      type Product implements Node {
+        id: ID!
+        name: String
+      }
+
+      union SearchResult = Product
+
+      type Query {
+        products: [Product]
+        search: [SearchResult]
+        productNode(id: ID!): Node
+      }
+    `,
+    resolvers: {
+      Node: {
+        __resolveType: (obj: any) => obj.__typename,
+      },
+      SearchResult: {
+        __resolveType: (obj: any) => obj.__typename,
+      },
+      Query: {
+        products: () => [
+          { __typename: 'Product', id: '1', name: 'Table' },
+          { __typename: 'Product', id: '2', name: 'Chair' },
+        ],
+        search: () => [{ __typename: 'Product', id: '2', name: 'Chair' }],
+        productNode: (_root, { id }) => ({
+          __typename: 'Product',
+          id,
+          name: id === '1' ? 'Table' : 'Chair',
+        }),
+      },
+    },
+  });
+
+  const reviewSchema = makeExecutableSchema({
+    typeDefs: `
+      interface Node {
+        id: ID!
+        reviewCount: Int
+      }
+
+      type Product implements Node {
+        id: ID!
+        rating: Float
+        reviewCount: Int
+      }
+
+      type Review implements Node {
+        id: ID!
+        body: String
+        reviewCount: Int
+      }
+
+      union SearchResult = Product | Review
+
+      type Query {
+        reviewNode(id: ID!): Node
+      }
+    `,
+    resolvers: {
+      Node: {
+        __resolveType: (obj: any) => obj.__typename,
+      },
+      SearchResult: {
+        __resolveType: (obj: any) => obj.__typename,
+      },
+      Query: {
+        reviewNode: (_root, { id }) => ({
+          __typename: 'Product',
+          id,
+          rating: Number(id) + 3,
+          reviewCount: Number(id) * 5,
+        }),
+      },
+    },
+  });
+
+  const abstractSubschemas: Array<SubschemaConfig> = [
+    {
+      schema: productSchema,
+      merge: {
+        Node: {
+          fieldName: 'productNode',
+          selectionSet: '{ id }',
+          args: (originalResult) => ({ id: originalResult.id }),
+        },
+      },
+    },
+    {
+      schema: reviewSchema,
+      merge: {
+        Node: {
+          fieldName: 'reviewNode',
+          selectionSet: '{ id }',
+          args: (originalResult) => ({ id: originalResult.id }),
+        },
+      },
+    },
+  ];
+
+  const abstractMergedSchema = mergeSchemas({
+    subschemas: abstractSubschemas,
+  });
+
+  it('does not modify the merged type configuration of subschemas', () => {
+    abstractSubschemas.forEach((subschema) => {
+      expect(Object.keys(subschema.merge)).to.deep.equal(['Node']);
+      expect(subschema.merge.Node.resolve).to.equal(undefined);
+    });
+  });
+
+  it('merges the fields and possible types of abstract types', () => {
+    const nodeType = abstractMergedSchema.getType(
+      'Node',
+    ) as GraphQLInterfaceType;
+    expect(Object.keys(nodeType.getFields())).to.deep.equal([
+      'id',
+      'reviewCount',
+    ]);
+
+    const searchResultType = abstractMergedSchema.getType(
+      'SearchResult',
+    ) as GraphQLUnionType;
+    expect(searchResultType.getTypes().map((type) => type.name)).to.deep.equal([
+      'Product',
+      'Review',
+    ]);
+  });
+
+  it('merges possible types using configuration for their interface', async () => {
+    const query = `
+      query {
+        products {
+          name
+          rating
+        }
+        search {
+          ... on Product {
+            name
+            rating
+          }
+        }
+      }
+    `;
+
+    const result = await graphql(abstractMergedSchema, query);
+
+    expect(result).to.deep.equal({
+      data: {
+        products: [
+          { name: 'Table', rating: 4 },
+          { name: 'Chair', rating: 5 },
+        ],
+        search: [{ name: 'Chair', rating: 5 }],
+      },
+    });
+  });
+
+  it('routes fields of interface-typed fields by concrete type', async () => {
+    const query = `
+      query {
+        productNode(id: "1") {
+          id
+          reviewCount
+          ... on Product {
+            name
+            rating
+          }
+        }
+      }
+    `;
+
+    const result = await graphql(abstractMergedSchema, query);
+
+    expect(result).to.deep.equal({
+      data: {
+        productNode: {
+          id: '1',
+          reviewCount: 5,
+          name: 'Table',
+          rating: 4,
+        },
+      },
+    });
+  });
+});
+
+describe('merging using field conflict resolution', () => {
+  const firstSchema = makeExecutableSchema({
+    typeDefs: `
+      type Product {
+        id: ID!
+        "Name from the first subschema"
+        name: String
+      }
+
+      type Query {
+        topProducts: [Product]
+        firstProductById(id: ID!): Product
+      }
+    `,
+    resolvers: {
+      Query: {
+        topProducts: () => [{ id: '1', name: 'first' }],
+        firstProductById: (_root, { id }) => ({ id, name: 'first' }),
+      },
+    },
+  });
+
+  const secondSchema = makeExecutableSchema({
+    typeDefs: `
+      type Product {
+        id: ID!
+        "Name from the second subschema"
+        name(upper: Boolean): String!
+      }
+
+      type Query {
+        secondProductById(id: ID!): Product
+      }
+    `,
+    resolvers: {
+      Product: {
+        name: (_product, { upper }) => (upper ? 'SECOND' : 'second'),
+      },
+      Query: {
+        secondProductById: (_root, { id }) => ({ id }),
+      },
+    },
+  });
+
+  const createSubschemas = (
+    firstConfig: MergedTypeConfig = {},
+    secondConfig: MergedTypeConfig = {},
+  ): Array<SubschemaConfig> => [
+    {
+      schema: firstSchema,
+      merge: {
+        Product: {
+          fieldName: 'firstProductById',
+          selectionSet: '{ id }',
+          args: (originalResult) => ({ id: originalResult.id }),
+          ...firstConfig,
+        },
+      },
+    },
+    {
+      schema: secondSchema,
+      merge: {
+        Product: {
+          fieldName: 'secondProductById',
+          selectionSet: '{ id }',
+          args: (originalResult) => ({ id: originalResult.id }),
+          ...secondConfig,
+        },
+      },
+    },
+  ];
+
+  it('routes shared fields to the canonical subschema', async () => {
+    const canonicalSchema = mergeSchemas({
+      subschemas: createSubschemas({}, { canonical: ['name'] }),
+    });
+
+    const nameField = (canonicalSchema.getType(
+      'Product',
+    ) as GraphQLObjectType).getFields().name;
+    expect(nameField.description).to.equal('Name from the second subschema');
+    expect(String(nameField.type)).to.equal('String!');
+    expect(nameField.args.map((arg) => arg.name)).to.deep.equal(['upper']);
+
+    const result = await graphql(
+      canonicalSchema,
+      `
+        query {
+          topProducts {
+            id
+            name(upper: true)
+          }
+        }
+      `,
+    );
+
+    expect(result).to.deep.equal({
+      data: {
+        topProducts: [{ id: '1', name: 'SECOND' }],
+      },
+    });
+  });
+
+  it('selects the owner of shared fields using prefer', () => {
+    const firstPreferredSchema = mergeSchemas({
+      subschemas: createSubschemas({ prefer: 'first' }),
+    });
+    expect(
+      (firstPreferredSchema.getType('Product') as GraphQLObjectType).getFields()
+        .name.description,
+    ).to.equal('Name from the first subschema');
+
+    const selectorPreferredSchema = mergeSchemas({
+      subschemas: createSubschemas({
+        prefer: (candidates) =>
+          candidates.find((candidate) => candidate.field.args.length > 0),
+      }),
+    });
+    expect(
+      (selectorPreferredSchema.getType(
+        'Product',
+      ) as GraphQLObjectType).getFields().name.description,
+    ).to.equal('Name from the second subschema');
+  });
+
+  it('throws when subschemas prefer different owners of shared fields', () => {
+    expect(() =>
+      mergeSchemas({
+        subschemas: createSubschemas({ prefer: 'first' }, { prefer: 'last' }),
+      }),
+    ).to.throw(
+      'Cannot merge field "Product.id": subschemas declare different prefer options.',
+    );
+  });
+
+  it('throws when shared fields have differing signatures', () => {
+    expect(() =>
+      mergeSchemas({
+        subschemas: createSubschemas({ failOnFieldConflict: true }),
+      }),
+    ).to.throw(
+      'Cannot merge field "Product.name": subschemas define it with differing signatures.',
+    );
+  });
+
+  it('throws a merge conflict error when shared fields have different types', () => {
+    const conflictingSchema = makeExecutableSchema({
+      typeDefs: `
+        type Product {
+          id: ID!
+          name: Int
+        }
+
+        type Query {
+          conflictingProductById(id: ID!): Product
+        }
+      `,
+    });
+
+    let error: MergeConflictError;
+    try {
+      mergeSchemas({
+        subschemas: [
+          ...createSubschemas(),
+          {
+            schema: conflictingSchema,
+            merge: {
+              Product: {
+                fieldName: 'conflictingProductById',
+                selectionSet: '{ id }',
+                args: (originalResult) => ({ id: originalResult.id }),
+              },
+            },
+          },
+        ],
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error.message).to.equal(
+      'Cannot merge field "Product.name": subschemas define it with different types (String, String!, Int).',
+    );
+    expect(error.typeName).to.equal('Product');
+    expect(error.fieldName).to.equal('name');
+    expect(
+      error.candidates.map((candidate) => String(candidate.field.type)),
+    ).to.deep.equal(['String', 'String!', 'Int']);
+  });
+
+  it('throws when shared fields have list items of different nullability', () => {
+    const createTaggedSubschema = (tagsType: string): SubschemaConfig => ({
+      schema: makeExecutableSchema({
+        typeDefs: `
+          type Product {
+            id: ID!
+            tags: ${tagsType}
+          }
+
+          type Query {
+            productById(id: ID!): Product
+          }
+        `,
+      }),
+      merge: {
+        Product: {
+          fieldName: 'productById',
+          selectionSet: '{ id }',
+          args: (originalResult) => ({ id: originalResult.id }),
+        },
+      },
+    });
+
+    expect(() =>
+      mergeSchemas({
+        subschemas: [
+          createTaggedSubschema('[String]'),
+          createTaggedSubschema('[String!]!'),
+        ],
+      }),
+    ).to.throw(
+      'Cannot merge field "Product.tags": subschemas define it with different types ([String], [String!]!).',
+    );
+    expect(() =>
+      mergeSchemas({
+        subschemas: [
+          createTaggedSubschema('[String]'),
+          createTaggedSubschema('[String]!'),
+        ],
+      }),
+    ).to.not.throw();
+  });
+});
+
+describe('merging subscriptions using type merging', () => {
+  const pubsub = new PubSub();
+
+  const userConfig: MergedTypeConfig = {
+    fieldName: 'userById',
+    selectionSet: '{ id }',
+    args: (originalResult) => ({ id: originalResult.id }),
+  };
+
+  const mergedSubscriptionSchema = mergeSchemas({
+    subschemas: [
+      {
+        schema: makeExecutableSchema({
+          typeDefs: `
+            type User {
+              id: ID!
+              name: String
+            }
+            type Query {
+              userById(id: ID!): User
+            }
+            type Subscription {
+              userChanged: User
+            }
+          `,
+          resolvers: {
+            Query: {
+              userById: (_root, { id }: { id: string }) => ({
+                id,
+                name: `User ${id}`,
+              }),
+            },
+            Subscription: {
+              userChanged: {
+                subscribe: () => pubsub.asyncIterator('USER_CHANGED'),
+              },
+            },
+          },
+        }),
+        merge: { User: userConfig },
+      },
+      {
+        schema: makeExecutableSchema({
+          typeDefs: `
+            type User {
+              id: ID!
+              email: String
+            }
+            type Query {
+              userByEmailId(id: ID!): User
+            }
+          `,
+          resolvers: {
+            Query: {
+              userByEmailId: (_root, { id }: { id: string }) => {
+                if (id === 'unknown') {
+                  throw new Error(`No email for user ${id}`);
+                }
+                return { id, email: `${id}@example.com` };
+              },
+            },
+          },
+        }),
+        merge: { User: { ...userConfig, fieldName: 'userByEmailId' } },
+      },
+    ],
+  });
+
+  it('resolves merged fields for each event without closing the stream on errors', async () => {
+    const results = (await subscribe(
+      mergedSubscriptionSchema,
+      parse(`
+        subscription {
+          userChanged {
+            id
+            name
+            email
+          }
+        }
+      `),
+    )) as AsyncIterableIterator<ExecutionResult>;
+
+    const publish = (id: string) => {
+      const next = results.next();
+      return pubsub
+        .publish('USER_CHANGED', { userChanged: { id, name: `User ${id}` } })
+        .then(() => next);
+    };
+
+    expect((await publish('1')).value).to.deep.equal({
+      data: {
+        userChanged: { id: '1', name: 'User 1', email: '1@example.com' },
+      },
+    });
+
+    const failedEvent = await publish('unknown');
+    const failedResult: ExecutionResult = failedEvent.value;
+    expect(failedEvent.done).to.equal(false);
+    expect(failedResult.data).to.deep.equal({
+      userChanged: { id: 'unknown', name: 'User unknown', email: null },
+    });
+    expect(failedResult.errors.map((error) => error.message)).to.deep.equal([
+      'No email for user unknown',
+    ]);
+    expect(failedResult.errors[0].path).to.deep.equal(['userChanged', 'email']);
+
+    expect((await publish('2')).value).to.deep.equal({
+      data: {
+        userChanged: { id: '2', name: 'User 2', email: '2@example.com' },
+      },
+    });
+
+    await results.return();
+  });
+});
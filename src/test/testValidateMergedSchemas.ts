@@ -0,0 +1,219 @@
+import { expect } from 'chai';
+
+import { makeExecutableSchema } from '../generate/index';
+import { validateMergedSchemas } from '../stitch/index';
+import { SubschemaConfig } from '../Interfaces';
+
+const chirpSchema = makeExecutableSchema({
+  typeDefs: `
+    type Chirp {
+      id: ID!
+      text: String
+      author: User
+    }
+
+    type User {
+      id: ID!
+      chirps: [Chirp]
+    }
+
+    type Query {
+      chirpById(id: ID!): Chirp
+      userById(id: ID!): User
+    }
+  `,
+});
+
+const authorSchema = makeExecutableSchema({
+  typeDefs: `
+    type Chirp {
+      id: ID!
+    }
+
+    type User {
+      id: ID!
+      email: String
+    }
+
+    type Query {
+      userById(id: ID!): User
+    }
+  `,
+});
+
+const profileSchema = makeExecutableSchema({
+  typeDefs: `
+    type User {
+      handle: String!
+      bio: String
+    }
+
+    type Query {
+      userByHandle(handle: String!): User
+    }
+  `,
+});
+
+describe('validateMergedSchemas', () => {
+  it('reports valid merged type configuration', () => {
+    const subschemas: Array<SubschemaConfig> = [
+      {
+        name: 'chirps',
+        schema: chirpSchema,
+        merge: {
+          User: {
+            fieldName: 'userById',
+            selectionSet: '{ id }',
+            args: (originalResult) => ({ id: originalResult.id }),
+          },
+        },
+      },
+      {
+        name: 'authors',
+        schema: authorSchema,
+        merge: {
+          User: {
+            fieldName: 'userById',
+            selectionSet: '{ id }',
+            key: (originalResult) => originalResult.id,
+            argsFromKeys: (ids) => ({ id: ids[0] }),
+          },
+        },
+      },
+    ];
+    const report = validateMergedSchemas({ subschemas });
+
+    expect(report.valid).to.equal(true);
+    expect(report.issues).to.deep.equal([]);
+    expect(report.typeConflicts).to.deep.equal([
+      {
+        typeName: 'Chirp',
+        subschemas: ['chirps', 'authors'],
+        resolution: 'last',
+        selectedSubschema: 'authors',
+      },
+      {
+        typeName: 'User',
+        subschemas: ['chirps', 'authors'],
+        resolution: 'merged',
+        selectedSubschema: undefined,
+      },
+    ]);
+    subschemas.forEach((subschema) => {
+      expect(Object.keys(subschema.merge)).to.deep.equal(['User']);
+      expect(subschema.merge.User.resolve).to.equal(undefined);
+    });
+  });
+
+  it('reports invalid merged type configuration', () => {
+    const report = validateMergedSchemas({
+      subschemas: [
+        {
+          schema: chirpSchema,
+          merge: {
+            User: {
+              fieldName: 'userById',
+              selectionSet: '{ id }',
+              args: (originalResult) => ({ userId: originalResult.id }),
+            },
+          },
+        },
+        {
+          schema: authorSchema,
+          merge: {
+            User: {
+              fieldName: 'usersByIds',
+              selectionSet: '{ id }',
+              args: (originalResult) => ({ ids: [originalResult.id] }),
+            },
+          },
+        },
+        {
+          name: 'profiles',
+          schema: profileSchema,
+          merge: {
+            User: {
+              fieldName: 'userByHandle',
+              selectionSet: '{ handle }',
+              args: (originalResult) => ({ handle: originalResult.handle }),
+            },
+          },
+        },
+      ],
+    });
+
+    expect(report.valid).to.equal(false);
+    expect(
+      report.issues.map(({ kind, typeName, fieldName, subschema }) => ({
+        kind,
+        typeName,
+        fieldName,
+        subschema,
+      })),
+    ).to.deep.equal([
+      {
+        kind: 'invalidArgs',
+        typeName: 'User',
+        fieldName: 'userById',
+        subschema: 'subschemas[0]',
+      },
+      {
+        kind: 'invalidFieldName',
+        typeName: 'User',
+        fieldName: 'usersByIds',
+        subschema: 'subschemas[1]',
+      },
+      {
+        kind: 'unsatisfiableSelectionSet',
+        typeName: 'User',
+        fieldName: undefined,
+        subschema: 'profiles',
+      },
+      {
+        kind: 'unreachableField',
+        typeName: 'User',
+        fieldName: 'handle',
+        subschema: undefined,
+      },
+      {
+        kind: 'unreachableField',
+        typeName: 'User',
+        fieldName: 'bio',
+        subschema: undefined,
+      },
+    ]);
+    expect(report.issues[0].message).to.equal(
+      'Arguments for "userById" used by subschema "subschemas[0]" to merge type "User" do not match the root field: unknown arguments userId; missing required arguments id.',
+    );
+    expect(report.issues[2].message).to.equal(
+      'Selection set "{ handle }" required by subschema "profiles" to merge type "User" cannot be satisfied by any other subschema.',
+    );
+    expect(report.issues[3].message).to.equal(
+      'Field "User.handle" cannot be resolved for objects returned by subschema "subschemas[0]", subschema "subschemas[1]".',
+    );
+  });
+
+  it('reports errors thrown when merging', () => {
+    const conflictingSchema = makeExecutableSchema({
+      typeDefs: `
+        type User {
+          id: ID!
+          email: Int
+        }
+
+        type Query {
+          user(id: ID!): User
+        }
+      `,
+    });
+
+    const report = validateMergedSchemas({
+      subschemas: [{ schema: authorSchema }, { schema: conflictingSchema }],
+      mergeTypes: true,
+    });
+
+    expect(report.valid).to.equal(false);
+    expect(report.issues.length).to.equal(1);
+    expect(report.issues[0].kind).to.equal('mergeError');
+  });
+});
@@ -0,0 +1,298 @@
+import { expect } from 'chai';
+import {
+  ExecutionResult,
+  GraphQLSchema,
+  buildSchema,
+  parse,
+  subscribe,
+} from 'graphql';
+
+import { makeRemoteExecutableSchema } from '../wrap/index';
+import { createWebSocketSubscriber, mergeSchemas } from '../stitch/index';
+
+class FakeWebSocket {
+  public static instances: Array<FakeWebSocket> = [];
+
+  public readyState = 0;
+  public sent: Array<any> = [];
+  public closeCode: number;
+  public onopen: (event: any) => void;
+  public onmessage: (event: { data: any }) => void;
+  public onclose: (event: { code: number; reason: string }) => void;
+  public onerror: (event: any) => void;
+
+  public readonly url: string;
+  public readonly protocol: string | Array<string>;
+
+  constructor(url: string, protocol: string | Array<string>) {
+    this.url = url;
+    this.protocol = protocol;
+    FakeWebSocket.instances.push(this);
+  }
+
+  public send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  public close(code: number) {
+    this.readyState = 3;
+    this.closeCode = code;
+  }
+
+  public open() {
+    this.readyState = 1;
+    this.onopen({});
+  }
+
+  public receive(message: Record<string, any>) {
+    this.onmessage({ data: JSON.stringify(message) });
+  }
+
+  public drop(code: number) {
+    this.readyState = 3;
+    this.onclose({ code, reason: '' });
+  }
+}
+
+const remoteSchema = buildSchema(`
+  type Notification {
+    text: String
+  }
+
+  type Query {
+    notification: Notification
+  }
+
+  type Subscription {
+    notifications(channel: String!): Notification
+  }
+`);
+
+const subscription = parse(`
+  subscription {
+    notifications(channel: "news") {
+      text
+    }
+  }
+`);
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+function subscribeTo(
+  schema: GraphQLSchema,
+  contextValue: Record<string, any> = {},
+): Promise<AsyncIterableIterator<ExecutionResult>> {
+  return subscribe({
+    schema,
+    document: subscription,
+    contextValue,
+  }) as Promise<AsyncIterableIterator<ExecutionResult>>;
+}
+
+describe('createWebSocketSubscriber', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  it('subscribes using the graphql-ws protocol', async () => {
+    const schema = makeRemoteExecutableSchema({
+      schema: remoteSchema,
+      fetcher: () => Promise.resolve({ data: null }),
+      subscriber: createWebSocketSubscriber({
+        url: 'ws://localhost/graphql',
+        webSocketImpl: FakeWebSocket,
+        connectionParams: (context) => ({ token: context.token }),
+      }),
+    });
+
+    const results = await subscribeTo(schema, { token: 'secret' });
+    const [socket] = FakeWebSocket.instances;
+    expect(socket.url).to.equal('ws://localhost/graphql');
+    expect(socket.protocol).to.equal('graphql-transport-ws');
+
+    socket.open();
+    socket.receive({ type: 'connection_ack' });
+    expect(socket.sent.map((message) => message.type)).to.deep.equal([
+      'connection_init',
+      'subscribe',
+    ]);
+    expect(socket.sent[0].payload).to.deep.equal({ token: 'secret' });
+    const { id, payload } = socket.sent[1];
+    expect(parse(payload.query).definitions[0]).to.have.property(
+      'operation',
+      'subscription',
+    );
+
+    socket.receive({ type: 'ping' });
+    socket.receive({
+      id,
+      type: 'next',
+      payload: { data: { notifications: { text: 'Hello' } } },
+    });
+    expect((await results.next()).value).to.deep.equal({
+      data: { notifications: { text: 'Hello' } },
+    });
+
+    await results.return();
+    expect(socket.sent.slice(2)).to.deep.equal([
+      { type: 'pong' },
+      { id, type: 'complete' },
+    ]);
+    expect(socket.closeCode).to.equal(1000);
+  });
+
+  it('subscribes using the subscriptions-transport-ws protocol', async () => {
+    const schema = mergeSchemas({
+      subschemas: [
+        {
+          schema: remoteSchema,
+          subscriber: createWebSocketSubscriber({
+            url: 'ws://localhost/graphql',
+            protocol: 'subscriptions-transport-ws',
+            webSocketImpl: FakeWebSocket,
+          }),
+        },
+      ],
+    });
+
+    const results = await subscribeTo(schema);
+    const [socket] = FakeWebSocket.instances;
+    expect(socket.protocol).to.equal('graphql-ws');
+
+    socket.open();
+    socket.receive({ type: 'connection_ack' });
+    socket.receive({ type: 'ka' });
+    const { id, type } = socket.sent[1];
+    expect(type).to.equal('start');
+
+    socket.receive({
+      id,
+      type: 'data',
+      payload: { data: { notifications: { text: 'Hello' } } },
+    });
+    socket.receive({ id, type: 'error', payload: { message: 'Gone' } });
+
+    expect((await results.next()).value).to.deep.equal({
+      data: { notifications: { text: 'Hello' } },
+    });
+    const failedEvent = await results.next();
+    const failedResult: ExecutionResult = failedEvent.value;
+    expect(failedResult.errors.map((error) => error.message)).to.deep.equal([
+      'Gone',
+    ]);
+    expect(await results.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(socket.sent.map((message) => message.type)).to.deep.equal([
+      'connection_init',
+      'start',
+      'connection_terminate',
+    ]);
+    expect(socket.closeCode).to.equal(1000);
+  });
+
+  it('shares connections between operations with the same connection params', async () => {
+    const schema = makeRemoteExecutableSchema({
+      schema: remoteSchema,
+      fetcher: () => Promise.resolve({ data: null }),
+      subscriber: createWebSocketSubscriber({
+        url: 'ws://localhost/graphql',
+        webSocketImpl: FakeWebSocket,
+        connectionParams: (context) => ({ token: context.token }),
+      }),
+    });
+
+    const first = await subscribeTo(schema, { token: 'a' });
+    const second = await subscribeTo(schema, { token: 'a' });
+    const third = await subscribeTo(schema, { token: 'b' });
+    expect(FakeWebSocket.instances.length).to.equal(2);
+
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+    socket.receive({ type: 'connection_ack' });
+    expect(socket.sent.map((message) => message.id)).to.deep.equal([
+      undefined,
+      '1',
+      '2',
+    ]);
+
+    await first.return();
+    expect(socket.closeCode).to.equal(undefined);
+    await second.return();
+    expect(socket.closeCode).to.equal(1000);
+    await third.return();
+    expect(FakeWebSocket.instances[1].closeCode).to.equal(1000);
+  });
+
+  it('reconnects and resubscribes when the connection is lost', async () => {
+    const schema = makeRemoteExecutableSchema({
+      schema: remoteSchema,
+      fetcher: () => Promise.resolve({ data: null }),
+      subscriber: createWebSocketSubscriber({
+        url: 'ws://localhost/graphql',
+        webSocketImpl: FakeWebSocket,
+        retryAttempts: 1,
+        retryDelay: 1,
+      }),
+    });
+
+    const results = await subscribeTo(schema);
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+    socket.receive({ type: 'connection_ack' });
+    const { id } = socket.sent[1];
+
+    socket.drop(1006);
+    await tick();
+    expect(FakeWebSocket.instances.length).to.equal(2);
+
+    const reconnectedSocket = FakeWebSocket.instances[1];
+    reconnectedSocket.open();
+    reconnectedSocket.receive({ type: 'connection_ack' });
+    expect(reconnectedSocket.sent[1]).to.have.property('id', id);
+    reconnectedSocket.receive({
+      id,
+      type: 'next',
+      payload: { data: { notifications: { text: 'Reconnected' } } },
+    });
+    expect((await results.next()).value).to.deep.equal({
+      data: { notifications: { text: 'Reconnected' } },
+    });
+
+    reconnectedSocket.drop(1006);
+    await tick();
+    const lastSocket = FakeWebSocket.instances[2];
+    lastSocket.drop(1006);
+
+    const failedResult: ExecutionResult = (await results.next()).value;
+    expect(failedResult.errors.map((error) => error.message)).to.deep.equal([
+      'WebSocket connection to ws://localhost/graphql closed with code 1006',
+    ]);
+    expect((await results.next()).done).to.equal(true);
+  });
+
+  it('does not reconnect after the server rejects the connection', async () => {
+    const schema = makeRemoteExecutableSchema({
+      schema: remoteSchema,
+      fetcher: () => Promise.resolve({ data: null }),
+      subscriber: createWebSocketSubscriber({
+        url: 'ws://localhost/graphql',
+        webSocketImpl: FakeWebSocket,
+        retryDelay: 1,
+      }),
+    });
+
+    const results = await subscribeTo(schema);
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+    socket.drop(4403);
+    await tick();
+
+    const failedResult: ExecutionResult = (await results.next()).value;
+    expect(failedResult.errors.map((error) => error.message)).to.deep.equal([
+      'WebSocket connection to ws://localhost/graphql closed with code 4403',
+    ]);
+    expect(FakeWebSocket.instances.length).to.equal(1);
+  });
+});
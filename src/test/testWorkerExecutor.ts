@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import { ExecutionResult, graphql, parse, subscribe } from 'graphql';
+
+import { createWorkerExecutor } from '../delegate/index';
+import { mergeSchemas } from '../stitch/index';
+import { WorkerExecutor } from '../Interfaces';
+
+import { schema as workerSchema } from './workerSchema';
+
+// worker_threads is not available in Node 10
+function loadWorkerThreads(): typeof import('worker_threads') {
+  try {
+    // eslint-disable-next-line global-require, @typescript-eslint/no-require-imports
+    return require('worker_threads');
+  } catch (error) {
+    return undefined;
+  }
+}
+
+const workerThreads = loadWorkerThreads();
+
+(workerThreads != null ? describe : describe.skip)(
+  'createWorkerExecutor',
+  () => {
+    let workerExecutor: WorkerExecutor;
+
+    beforeEach(() => {
+      workerExecutor = createWorkerExecutor({
+        schemaModule: require.resolve('./workerSchema'),
+        contextFields: ['locale'],
+      });
+    });
+
+    afterEach(() => workerExecutor.terminate());
+
+    it('executes operations within a worker', async () => {
+      const { executor, subscriber } = workerExecutor;
+      const gatewaySchema = mergeSchemas({
+        subschemas: [{ schema: workerSchema, executor, subscriber }],
+      });
+
+      const result = await graphql(
+        gatewaySchema,
+        `
+          query($name: String!) {
+            threadId
+            greeting(name: $name)
+            locale
+            secret
+            failure
+          }
+        `,
+        undefined,
+        { locale: 'en', secret: 'not copied' },
+        { name: 'World' },
+      );
+
+      expect(result.data).to.deep.equal({
+        threadId: result.data.threadId,
+        greeting: 'Hello World',
+        locale: 'en',
+        secret: null,
+        failure: null,
+      });
+      expect(result.data.threadId).to.not.equal(workerThreads.threadId);
+      expect(result.errors.map((error) => error.message)).to.deep.equal([
+        'Failed in worker',
+      ]);
+      expect(result.errors[0].path).to.deep.equal(['failure']);
+    });
+
+    it('streams subscription results from the worker', async () => {
+      const { executor, subscriber } = workerExecutor;
+      const gatewaySchema = mergeSchemas({
+        subschemas: [{ schema: workerSchema, executor, subscriber }],
+      });
+
+      const results = (await subscribe(
+        gatewaySchema,
+        parse('subscription { countdown(from: 1) }'),
+      )) as AsyncIterableIterator<ExecutionResult>;
+
+      expect((await results.next()).value).to.deep.equal({
+        data: { countdown: 1 },
+      });
+      expect((await results.next()).value).to.deep.equal({
+        data: { countdown: 0 },
+      });
+      expect((await results.next()).done).to.equal(true);
+
+      const earlyReturned = (await subscribe(
+        gatewaySchema,
+        parse('subscription { countdown(from: 5) }'),
+      )) as AsyncIterableIterator<ExecutionResult>;
+      expect((await earlyReturned.next()).value).to.deep.equal({
+        data: { countdown: 5 },
+      });
+      expect(await earlyReturned.return()).to.deep.equal({
+        value: undefined,
+        done: true,
+      });
+    });
+
+    it('fails pending operations when the worker is terminated', async () => {
+      const pendingError: Promise<Error> = workerExecutor
+        .executor({ document: parse('{ greeting(name: "World") }') })
+        .catch((error: Error) => error);
+      await workerExecutor.terminate();
+
+      const error = await pendingError;
+      expect(error.message).to.equal('Worker was terminated');
+
+      const result = await workerExecutor.executor({
+        document: parse('{ greeting(name: "World") }'),
+      });
+      expect(result).to.deep.equal({ data: { greeting: 'Hello World' } });
+    });
+  },
+);
@@ -0,0 +1,58 @@
+import { $$asyncIterator } from 'iterall';
+
+import { makeExecutableSchema } from '../generate/index';
+
+// Schema module loaded within the worker by testWorkerExecutor
+
+function countdown(from: number): AsyncIterator<any> {
+  let current = from;
+  return {
+    next: () =>
+      Promise.resolve(
+        current >= 0
+          ? { value: { countdown: current-- }, done: false }
+          : { value: undefined, done: true },
+      ),
+    return: () => {
+      current = -1;
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [$$asyncIterator]() {
+      return this;
+    },
+  } as any;
+}
+
+export const schema = makeExecutableSchema({
+  typeDefs: `
+    type Query {
+      threadId: Int
+      greeting(name: String!): String
+      locale: String
+      secret: String
+      failure: String
+    }
+
+    type Subscription {
+      countdown(from: Int!): Int
+    }
+  `,
+  resolvers: {
+    Query: {
+      // worker_threads is not available in Node 10
+      // eslint-disable-next-line global-require, @typescript-eslint/no-require-imports
+      threadId: () => require('worker_threads').threadId,
+      greeting: (_root, { name }: { name: string }) => `Hello ${name}`,
+      locale: (_root, _args, context) => context.locale,
+      secret: (_root, _args, context) => context.secret,
+      failure: () => {
+        throw new Error('Failed in worker');
+      },
+    },
+    Subscription: {
+      countdown: {
+        subscribe: (_root, args) => countdown(args.from),
+      },
+    },
+  },
+});
@@ -0,0 +1,701 @@
+import {
+  GraphQLArgument,
+  GraphQLDirective,
+  GraphQLEnumType,
+  GraphQLField,
+  GraphQLInputField,
+  GraphQLInputObjectType,
+  GraphQLInputType,
+  GraphQLInterfaceType,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLType,
+  GraphQLUnionType,
+  astFromValue,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isListType,
+  isNamedType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  isUnionType,
+  print,
+} from 'graphql';
+
+import {
+  SchemaChange,
+  SchemaChangeCriticality,
+  SchemaChangeType,
+} from '../Interfaces';
+
+const { BREAKING, DANGEROUS, SAFE } = SchemaChangeCriticality;
+
+type ChangeCollector = (
+  type: SchemaChangeType,
+  criticality: SchemaChangeCriticality,
+  path: string,
+  message: string,
+) => void;
+
+/**
+ * Compares two schemas, returning the added, removed and changed types,
+ * fields, arguments, enum values, union members, interface implementations
+ * and directives.
+ *
+ * Each change is classified as breaking if it may cause existing operations
+ * to fail validation or existing clients to fail, as dangerous if it may
+ * change the behavior of existing operations or clients, e.g. a new enum
+ * value that clients may not handle, and as safe otherwise.
+ *
+ * @category Schema Utility
+ */
+export function diffSchemas(
+  oldSchema: GraphQLSchema,
+  newSchema: GraphQLSchema,
+): Array<SchemaChange> {
+  const changes: Array<SchemaChange> = [];
+  const addChange: ChangeCollector = (type, criticality, path, message) => {
+    changes.push({ type, criticality, path, message });
+  };
+
+  diffRootTypes(oldSchema, newSchema, addChange);
+  diffTypes(oldSchema, newSchema, addChange);
+  diffDirectives(oldSchema, newSchema, addChange);
+
+  return changes;
+}
+
+function diffRootTypes(
+  oldSchema: GraphQLSchema,
+  newSchema: GraphQLSchema,
+  addChange: ChangeCollector,
+): void {
+  const rootTypes: Array<[
+    string,
+    GraphQLObjectType | null | undefined,
+    GraphQLObjectType | null | undefined,
+  ]> = [
+    ['query', oldSchema.getQueryType(), newSchema.getQueryType()],
+    ['mutation', oldSchema.getMutationType(), newSchema.getMutationType()],
+    [
+      'subscription',
+      oldSchema.getSubscriptionType(),
+      newSchema.getSubscriptionType(),
+    ],
+  ];
+
+  rootTypes.forEach(([operation, oldType, newType]) => {
+    const oldName = oldType != null ? oldType.name : undefined;
+    const newName = newType != null ? newType.name : undefined;
+    if (oldName !== newName) {
+      addChange(
+        SchemaChangeType.ROOT_TYPE_CHANGED,
+        oldName != null ? BREAKING : SAFE,
+        operation,
+        `Root ${operation} type changed from ${describeName(
+          oldName,
+        )} to ${describeName(newName)}.`,
+      );
+    }
+  });
+}
+
+function diffTypes(
+  oldSchema: GraphQLSchema,
+  newSchema: GraphQLSchema,
+  addChange: ChangeCollector,
+): void {
+  const oldTypeMap = oldSchema.getTypeMap();
+  const newTypeMap = newSchema.getTypeMap();
+
+  Object.keys(oldTypeMap).forEach((typeName) => {
+    if (typeName.startsWith('__')) {
+      return;
+    }
+
+    const oldType = oldTypeMap[typeName];
+    const newType = newTypeMap[typeName];
+
+    if (newType == null) {
+      addChange(
+        SchemaChangeType.TYPE_REMOVED,
+        BREAKING,
+        typeName,
+        `Type "${typeName}" was removed.`,
+      );
+      return;
+    }
+
+    if (getTypeKind(oldType) !== getTypeKind(newType)) {
+      addChange(
+        SchemaChangeType.TYPE_KIND_CHANGED,
+        BREAKING,
+        typeName,
+        `Type "${typeName}" changed from ${getTypeKind(
+          oldType,
+        )} to ${getTypeKind(newType)}.`,
+      );
+      return;
+    }
+
+    if (descriptionChanged(oldType.description, newType.description)) {
+      addChange(
+        SchemaChangeType.TYPE_DESCRIPTION_CHANGED,
+        SAFE,
+        typeName,
+        `Description of type "${typeName}" changed.`,
+      );
+    }
+
+    if (isObjectType(oldType) && isObjectType(newType)) {
+      diffInterfaces(oldType, newType, addChange);
+      diffFields(oldType, newType, addChange);
+    } else if (isInterfaceType(oldType) && isInterfaceType(newType)) {
+      diffFields(oldType, newType, addChange);
+    } else if (isInputObjectType(oldType) && isInputObjectType(newType)) {
+      diffInputFields(oldType, newType, addChange);
+    } else if (isUnionType(oldType) && isUnionType(newType)) {
+      diffUnionMembers(oldType, newType, addChange);
+    } else if (isEnumType(oldType) && isEnumType(newType)) {
+      diffEnumValues(oldType, newType, addChange);
+    }
+  });
+
+  Object.keys(newTypeMap).forEach((typeName) => {
+    if (!typeName.startsWith('__') && oldTypeMap[typeName] == null) {
+      addChange(
+        SchemaChangeType.TYPE_ADDED,
+        SAFE,
+        typeName,
+        `Type "${typeName}" was added.`,
+      );
+    }
+  });
+}
+
+function diffInterfaces(
+  oldType: GraphQLObjectType,
+  newType: GraphQLObjectType,
+  addChange: ChangeCollector,
+): void {
+  const oldInterfaceNames = oldType.getInterfaces().map((iface) => iface.name);
+  const newInterfaceNames = newType.getInterfaces().map((iface) => iface.name);
+
+  oldInterfaceNames.forEach((interfaceName) => {
+    if (!newInterfaceNames.includes(interfaceName)) {
+      addChange(
+        SchemaChangeType.INTERFACE_IMPLEMENTATION_REMOVED,
+        BREAKING,
+        oldType.name,
+        `Type "${oldType.name}" no longer implements interface "${interfaceName}".`,
+      );
+    }
+  });
+
+  newInterfaceNames.forEach((interfaceName) => {
+    if (!oldInterfaceNames.includes(interfaceName)) {
+      addChange(
+        SchemaChangeType.INTERFACE_IMPLEMENTATION_ADDED,
+        DANGEROUS,
+        newType.name,
+        `Type "${newType.name}" now implements interface "${interfaceName}".`,
+      );
+    }
+  });
+}
+
+function diffFields(
+  oldType: GraphQLObjectType | GraphQLInterfaceType,
+  newType: GraphQLObjectType | GraphQLInterfaceType,
+  addChange: ChangeCollector,
+): void {
+  const oldFields = oldType.getFields();
+  const newFields = newType.getFields();
+
+  Object.keys(oldFields).forEach((fieldName) => {
+    const oldField = oldFields[fieldName];
+    const newField = newFields[fieldName];
+    const path = `${oldType.name}.${fieldName}`;
+
+    if (newField == null) {
+      addChange(
+        SchemaChangeType.FIELD_REMOVED,
+        BREAKING,
+        path,
+        `Field "${path}" was removed.`,
+      );
+      return;
+    }
+
+    if (String(oldField.type) !== String(newField.type)) {
+      addChange(
+        SchemaChangeType.FIELD_TYPE_CHANGED,
+        isSafeOutputTypeChange(oldField.type, newField.type) ? SAFE : BREAKING,
+        path,
+        `Field "${path}" changed type from "${String(
+          oldField.type,
+        )}" to "${String(newField.type)}".`,
+      );
+    }
+
+    diffDescriptionAndDeprecation(
+      oldField,
+      newField,
+      SchemaChangeType.FIELD_DESCRIPTION_CHANGED,
+      SchemaChangeType.FIELD_DEPRECATION_CHANGED,
+      `field "${path}"`,
+      path,
+      addChange,
+    );
+
+    diffArgs(oldField, newField, path, `field "${path}"`, addChange);
+  });
+
+  Object.keys(newFields).forEach((fieldName) => {
+    if (oldFields[fieldName] == null) {
+      const path = `${newType.name}.${fieldName}`;
+      addChange(
+        SchemaChangeType.FIELD_ADDED,
+        SAFE,
+        path,
+        `Field "${path}" was added.`,
+      );
+    }
+  });
+}
+
+function diffInputFields(
+  oldType: GraphQLInputObjectType,
+  newType: GraphQLInputObjectType,
+  addChange: ChangeCollector,
+): void {
+  const oldFields = oldType.getFields();
+  const newFields = newType.getFields();
+
+  Object.keys(oldFields).forEach((fieldName) => {
+    const oldField = oldFields[fieldName];
+    const newField = newFields[fieldName];
+    const path = `${oldType.name}.${fieldName}`;
+
+    if (newField == null) {
+      addChange(
+        SchemaChangeType.FIELD_REMOVED,
+        BREAKING,
+        path,
+        `Input field "${path}" was removed.`,
+      );
+      return;
+    }
+
+    diffInputValue(
+      oldField,
+      newField,
+      SchemaChangeType.FIELD_TYPE_CHANGED,
+      SchemaChangeType.FIELD_DEFAULT_VALUE_CHANGED,
+      SchemaChangeType.FIELD_DESCRIPTION_CHANGED,
+      `input field "${path}"`,
+      path,
+      addChange,
+    );
+  });
+
+  Object.keys(newFields).forEach((fieldName) => {
+    if (oldFields[fieldName] == null) {
+      const path = `${newType.name}.${fieldName}`;
+      const required = isRequiredInputValue(newFields[fieldName]);
+      addChange(
+        SchemaChangeType.FIELD_ADDED,
+        required ? BREAKING : DANGEROUS,
+        path,
+        `${
+          required ? 'Required' : 'Optional'
+        } input field "${path}" was added.`,
+      );
+    }
+  });
+}
+
+function diffArgs(
+  oldParent: GraphQLField<any, any> | GraphQLDirective,
+  newParent: GraphQLField<any, any> | GraphQLDirective,
+  parentPath: string,
+  parentDescription: string,
+  addChange: ChangeCollector,
+  optionalArgCriticality: SchemaChangeCriticality = DANGEROUS,
+): void {
+  oldParent.args.forEach((oldArg) => {
+    const newArg = newParent.args.find((arg) => arg.name === oldArg.name);
+    const path = `${parentPath}.${oldArg.name}`;
+
+    if (newArg == null) {
+      addChange(
+        SchemaChangeType.ARG_REMOVED,
+        BREAKING,
+        path,
+        `Argument "${oldArg.name}" was removed from ${parentDescription}.`,
+      );
+      return;
+    }
+
+    diffInputValue(
+      oldArg,
+      newArg,
+      SchemaChangeType.ARG_TYPE_CHANGED,
+      SchemaChangeType.ARG_DEFAULT_VALUE_CHANGED,
+      SchemaChangeType.ARG_DESCRIPTION_CHANGED,
+      `argument "${oldArg.name}" of ${parentDescription}`,
+      path,
+      addChange,
+    );
+  });
+
+  newParent.args.forEach((newArg) => {
+    if (!oldParent.args.some((arg) => arg.name === newArg.name)) {
+      const required = isRequiredInputValue(newArg);
+      addChange(
+        SchemaChangeType.ARG_ADDED,
+        required ? BREAKING : optionalArgCriticality,
+        `${parentPath}.${newArg.name}`,
+        `${required ? 'Required' : 'Optional'} argument "${
+          newArg.name
+        }" was added to ${parentDescription}.`,
+      );
+    }
+  });
+}
+
+function diffInputValue(
+  oldValue: GraphQLArgument | GraphQLInputField,
+  newValue: GraphQLArgument | GraphQLInputField,
+  typeChangeType: SchemaChangeType,
+  defaultValueChangeType: SchemaChangeType,
+  descriptionChangeType: SchemaChangeType,
+  description: string,
+  path: string,
+  addChange: ChangeCollector,
+): void {
+  if (String(oldValue.type) !== String(newValue.type)) {
+    addChange(
+      typeChangeType,
+      isSafeInputTypeChange(oldValue.type, newValue.type) ? SAFE : BREAKING,
+      path,
+      `Type of ${description} changed from "${String(
+        oldValue.type,
+      )}" to "${String(newValue.type)}".`,
+    );
+  }
+
+  const oldDefaultValue = printDefaultValue(oldValue);
+  const newDefaultValue = printDefaultValue(newValue);
+  if (oldDefaultValue !== newDefaultValue) {
+    addChange(
+      defaultValueChangeType,
+      DANGEROUS,
+      path,
+      `Default value of ${description} changed from ${describeName(
+        oldDefaultValue,
+      )} to ${describeName(newDefaultValue)}.`,
+    );
+  }
+
+  if (descriptionChanged(oldValue.description, newValue.description)) {
+    addChange(
+      descriptionChangeType,
+      SAFE,
+      path,
+      `Description of ${description} changed.`,
+    );
+  }
+}
+
+function diffUnionMembers(
+  oldType: GraphQLUnionType,
+  newType: GraphQLUnionType,
+  addChange: ChangeCollector,
+): void {
+  const oldMemberNames = oldType.getTypes().map((type) => type.name);
+  const newMemberNames = newType.getTypes().map((type) => type.name);
+
+  oldMemberNames.forEach((memberName) => {
+    if (!newMemberNames.includes(memberName)) {
+      addChange(
+        SchemaChangeType.UNION_MEMBER_REMOVED,
+        BREAKING,
+        oldType.name,
+        `Type "${memberName}" was removed from union "${oldType.name}".`,
+      );
+    }
+  });
+
+  newMemberNames.forEach((memberName) => {
+    if (!oldMemberNames.includes(memberName)) {
+      addChange(
+        SchemaChangeType.UNION_MEMBER_ADDED,
+        DANGEROUS,
+        newType.name,
+        `Type "${memberName}" was added to union "${newType.name}".`,
+      );
+    }
+  });
+}
+
+function diffEnumValues(
+  oldType: GraphQLEnumType,
+  newType: GraphQLEnumType,
+  addChange: ChangeCollector,
+): void {
+  const oldValues = oldType.getValues();
+  const newValues = newType.getValues();
+
+  oldValues.forEach((oldValue) => {
+    const newValue = newValues.find((value) => value.name === oldValue.name);
+    const path = `${oldType.name}.${oldValue.name}`;
+
+    if (newValue == null) {
+      addChange(
+        SchemaChangeType.ENUM_VALUE_REMOVED,
+        BREAKING,
+        path,
+        `Enum value "${path}" was removed.`,
+      );
+      return;
+    }
+
+    diffDescriptionAndDeprecation(
+      oldValue,
+      newValue,
+      SchemaChangeType.ENUM_VALUE_DESCRIPTION_CHANGED,
+      SchemaChangeType.ENUM_VALUE_DEPRECATION_CHANGED,
+      `enum value "${path}"`,
+      path,
+      addChange,
+    );
+  });
+
+  newValues.forEach((newValue) => {
+    if (!oldValues.some((value) => value.name === newValue.name)) {
+      const path = `${newType.name}.${newValue.name}`;
+      addChange(
+        SchemaChangeType.ENUM_VALUE_ADDED,
+        DANGEROUS,
+        path,
+        `Enum value "${path}" was added.`,
+      );
+    }
+  });
+}
+
+function diffDirectives(
+  oldSchema: GraphQLSchema,
+  newSchema: GraphQLSchema,
+  addChange: ChangeCollector,
+): void {
+  const oldDirectives = oldSchema.getDirectives();
+  const newDirectives = newSchema.getDirectives();
+
+  oldDirectives.forEach((oldDirective) => {
+    const newDirective = newDirectives.find(
+      (directive) => directive.name === oldDirective.name,
+    );
+    const path = `@${oldDirective.name}`;
+
+    if (newDirective == null) {
+      addChange(
+        SchemaChangeType.DIRECTIVE_REMOVED,
+        BREAKING,
+        path,
+        `Directive "${path}" was removed.`,
+      );
+      return;
+    }
+
+    oldDirective.locations.forEach((location) => {
+      if (!newDirective.locations.includes(location)) {
+        addChange(
+          SchemaChangeType.DIRECTIVE_LOCATION_REMOVED,
+          BREAKING,
+          path,
+          `Location "${location}" was removed from directive "${path}".`,
+        );
+      }
+    });
+
+    newDirective.locations.forEach((location) => {
+      if (!oldDirective.locations.includes(location)) {
+        addChange(
+          SchemaChangeType.DIRECTIVE_LOCATION_ADDED,
+          SAFE,
+          path,
+          `Location "${location}" was added to directive "${path}".`,
+        );
+      }
+    });
+
+    diffArgs(
+      oldDirective,
+      newDirective,
+      path,
+      `directive "${path}"`,
+      addChange,
+      SAFE,
+    );
+  });
+
+  newDirectives.forEach((newDirective) => {
+    if (
+      !oldDirectives.some((directive) => directive.name === newDirective.name)
+    ) {
+      addChange(
+        SchemaChangeType.DIRECTIVE_ADDED,
+        SAFE,
+        `@${newDirective.name}`,
+        `Directive "@${newDirective.name}" was added.`,
+      );
+    }
+  });
+}
+
+function diffDescriptionAndDeprecation(
+  oldElement: {
+    description?: string | null;
+    isDeprecated?: boolean;
+    deprecationReason?: string | null;
+  },
+  newElement: {
+    description?: string | null;
+    isDeprecated?: boolean;
+    deprecationReason?: string | null;
+  },
+  descriptionChangeType: SchemaChangeType,
+  deprecationChangeType: SchemaChangeType,
+  description: string,
+  path: string,
+  addChange: ChangeCollector,
+): void {
+  if (descriptionChanged(oldElement.description, newElement.description)) {
+    addChange(
+      descriptionChangeType,
+      SAFE,
+      path,
+      `Description of ${description} changed.`,
+    );
+  }
+
+  if (
+    Boolean(oldElement.isDeprecated) !== Boolean(newElement.isDeprecated) ||
+    descriptionChanged(
+      oldElement.deprecationReason,
+      newElement.deprecationReason,
+    )
+  ) {
+    addChange(
+      deprecationChangeType,
+      SAFE,
+      path,
+      newElement.isDeprecated
+        ? `${capitalize(description)} was deprecated.`
+        : `${capitalize(description)} is no longer deprecated.`,
+    );
+  }
+}
+
+// Output types may become more specific: a nullable type may become
+// non-nullable.
+function isSafeOutputTypeChange(
+  oldType: GraphQLType,
+  newType: GraphQLType,
+): boolean {
+  if (isListType(oldType)) {
+    return (
+      (isListType(newType) &&
+        isSafeOutputTypeChange(oldType.ofType, newType.ofType)) ||
+      (isNonNullType(newType) &&
+        isSafeOutputTypeChange(oldType, newType.ofType))
+    );
+  } else if (isNonNullType(oldType)) {
+    return (
+      isNonNullType(newType) &&
+      isSafeOutputTypeChange(oldType.ofType, newType.ofType)
+    );
+  }
+
+  return (
+    (isNamedType(newType) && oldType.name === newType.name) ||
+    (isNonNullType(newType) && isSafeOutputTypeChange(oldType, newType.ofType))
+  );
+}
+
+// Input types may become less specific: a non-nullable type may become
+// nullable.
+function isSafeInputTypeChange(
+  oldType: GraphQLInputType,
+  newType: GraphQLInputType,
+): boolean {
+  if (isListType(oldType)) {
+    return (
+      isListType(newType) &&
+      isSafeInputTypeChange(oldType.ofType, newType.ofType)
+    );
+  } else if (isNonNullType(oldType)) {
+    return isNonNullType(newType)
+      ? isSafeInputTypeChange(oldType.ofType, newType.ofType)
+      : isSafeInputTypeChange(oldType.ofType, newType);
+  }
+
+  return isNamedType(newType) && oldType.name === newType.name;
+}
+
+function isRequiredInputValue(
+  value: GraphQLArgument | GraphQLInputField,
+): boolean {
+  return isNonNullType(value.type) && value.defaultValue === undefined;
+}
+
+function printDefaultValue(value: GraphQLArgument | GraphQLInputField): string {
+  if (value.defaultValue === undefined) {
+    return undefined;
+  }
+
+  const ast = astFromValue(value.defaultValue, value.type);
+  return ast != null ? print(ast) : undefined;
+}
+
+function getTypeKind(type: GraphQLNamedType): string {
+  if (isObjectType(type)) {
+    return 'an object type';
+  } else if (isInterfaceType(type)) {
+    return 'an interface type';
+  } else if (isUnionType(type)) {
+    return 'a union type';
+  } else if (isEnumType(type)) {
+    return 'an enum type';
+  } else if (isInputObjectType(type)) {
+    return 'an input object type';
+  } else if (isScalarType(type)) {
+    return 'a scalar type';
+  }
+}
+
+function descriptionChanged(
+  oldDescription: string | null | undefined,
+  newDescription: string | null | undefined,
+): boolean {
+  // descriptions obtained via introspection may be empty rather than missing
+  return (
+    (oldDescription != null && oldDescription !== ''
+      ? oldDescription
+      : null) !==
+    (newDescription != null && newDescription !== '' ? newDescription : null)
+  );
+}
+
+function describeName(name: string): string {
+  return name != null ? `"${name}"` : 'none';
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
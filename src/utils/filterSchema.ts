@@ -26,11 +26,13 @@ export default function filterSchema({
   rootFieldFilter = () => true,
   typeFilter = () => true,
   fieldFilter = () => true,
+  interfaceFieldFilter = () => true,
 }: {
   schema: GraphQLSchemaWithTransforms;
   rootFieldFilter?: RootFieldFilter;
   typeFilter?: (typeName: string, type: GraphQLType) => boolean;
   fieldFilter?: (typeName: string, fieldName: string) => boolean;
+  interfaceFieldFilter?: (typeName: string, fieldName: string) => boolean;
 }): GraphQLSchemaWithTransforms {
   const filteredSchema: GraphQLSchemaWithTransforms = mapSchema(schema, {
     [MapperKind.QUERY]: (type: GraphQLObjectType) =>
@@ -44,7 +46,9 @@ export default function filterSchema({
         ? filterObjectFields(type, fieldFilter)
         : null,
     [MapperKind.INTERFACE_TYPE]: (type: GraphQLInterfaceType) =>
-      typeFilter(type.name, type) ? undefined : null,
+      typeFilter(type.name, type)
+        ? filterInterfaceFields(type, interfaceFieldFilter)
+        : null,
     [MapperKind.UNION_TYPE]: (type: GraphQLUnionType) =>
       typeFilter(type.name, type) ? undefined : null,
     [MapperKind.INPUT_OBJECT_TYPE]: (type: GraphQLInputObjectType) =>
@@ -86,3 +90,16 @@ function filterObjectFields(
   });
   return new GraphQLObjectType(config);
 }
+
+function filterInterfaceFields(
+  type: GraphQLInterfaceType,
+  fieldFilter: (typeName: string, fieldName: string) => boolean,
+): GraphQLInterfaceType {
+  const config = toConfig(type);
+  Object.keys(config.fields).forEach((fieldName) => {
+    if (!fieldFilter(type.name, fieldName)) {
+      delete config.fields[fieldName];
+    }
+  });
+  return new GraphQLInterfaceType(config);
+}
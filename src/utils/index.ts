@@ -29,3 +29,4 @@ export { appendFields, removeFields } from './fields';
 export { createNamedStub } from './stub';
 export { graphqlVersion } from './graphqlVersion';
 export { mapSchema } from './map';
+export { diffSchemas } from './diffSchemas';
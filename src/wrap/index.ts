@@ -291,6 +291,19 @@
  *     })
  * ```
  *
+ * ### Error Masking
+ *
+ * * `MaskErrors(policy: ErrorPolicy)` - replace errors from the subschema whose `code` extension is not within `policy.allowedCodes` by errors with a generic message and a `correlationId` extension, passing the original errors to `policy.logger`. This applies to errors at any path, including those on nested fields. The same policy may be set as the `errorPolicy` of a subschema configuration object.
+ *
+ * ```
+ * transforms: [
+ *   new MaskErrors({
+ *     allowedCodes: ['UNAUTHENTICATED', 'FORBIDDEN'],
+ *     logger: { log: error => console.error(error) },
+ *   }),
+ * ],
+ * ```
+ *
  * ## delegateToSchema (delegation) transforms
  *
  * The following transforms are automatically applied by `delegateToSchema` during schema delegation, to translate between source and target types and fields:
@@ -9,7 +9,7 @@ import {
 } from 'graphql';
 
 import { addResolversToSchema } from '../generate/index';
-import { Fetcher, Operation } from '../Interfaces';
+import { Delegator, Fetcher, Operation } from '../Interfaces';
 import { cloneSchema } from '../utils/index';
 import { buildSchema } from '../polyfills/index';
 import { addTypenameToAbstract } from '../delegate/addTypenameToAbstract';
@@ -26,7 +26,7 @@ export type ResolverFn = (
   args?: any,
   context?: any,
   info?: GraphQLResolveInfo,
-) => AsyncIterator<any>;
+) => AsyncIterator<any> | Promise<AsyncIterator<any>>;
 
 /**
  * It can be valuable to be able to treat remote GraphQL endpoints as if they were local executable schemas. This is especially useful for [schema stitching](/schema-stitching/), but there may be other use cases.
@@ -259,6 +259,19 @@ export type ResolverFn = (
  * });
  * ```
  *
+ * Subscriptions are proxied through the link, unless a `subscriber` is passed. `createWebSocketSubscriber` creates a subscriber for servers speaking the `graphql-ws` or `subscriptions-transport-ws` protocol, reconnecting when the connection is lost:
+ * ```
+ * const schema = makeRemoteExecutableSchema({
+ *   schema,
+ *   fetcher,
+ *   subscriber: createWebSocketSubscriber({
+ *     url: 'ws://api.githunt.com/graphql',
+ *     webSocketImpl: WebSocket, // e.g. from the ws package
+ *     connectionParams: (context) => ({ authorization: context.authorization }),
+ *   }),
+ * });
+ * ```
+ *
  * ### introspectSchema(fetcher, [context])
  *
  * Use `link` to build a client schema using introspection query. This function makes it easier to use `makeRemoteExecutableSchema`. As a result, you get a promise to a non-executable GraphQL.js schema object. Accepts optional second argument `context`, which is passed to the link; see the docs about links above for more details.
@@ -278,12 +291,14 @@ export default function makeRemoteExecutableSchema({
   schema: schemaOrTypeDefs,
   link,
   fetcher,
+  subscriber,
   createResolver: customCreateResolver = createResolver,
   buildSchemaOptions,
 }: {
   schema: GraphQLSchema | string;
   link?: ApolloLink;
   fetcher?: Fetcher;
+  subscriber?: Delegator;
   createResolver?: (fetcher: Fetcher) => GraphQLFieldResolver<any, any>;
   buildSchemaOptions?: BuildSchemaOptions;
 }): GraphQLSchema {
@@ -309,7 +324,7 @@ export default function makeRemoteExecutableSchema({
     if (operation === 'query' || operation === 'mutation') {
       return customCreateResolver(finalFetcher);
     }
-    return createSubscriptionResolver(link);
+    return createSubscriptionResolver(link, subscriber);
   }
 
   addResolversToSchema({
@@ -349,7 +364,10 @@ export function createResolver(
   };
 }
 
-function createSubscriptionResolver(link: ApolloLink): ResolverFn {
+function createSubscriptionResolver(
+  link: ApolloLink,
+  subscriber: Delegator,
+): ResolverFn {
   return (_root, _args, context, info) => {
     const fragments = Object.keys(info.fragments).map(
       (fragment) => info.fragments[fragment],
@@ -361,6 +379,21 @@ function createSubscriptionResolver(link: ApolloLink): ResolverFn {
 
     query = addTypenameToAbstract(info.schema, query);
 
+    const mapResults = (originalAsyncIterator: AsyncIterator<any>) =>
+      mapAsyncIterator(originalAsyncIterator, (result) => ({
+        [info.fieldName]: checkResultAndHandleErrors(result, context, info),
+      }));
+
+    if (subscriber != null) {
+      return Promise.resolve(
+        subscriber({
+          document: query,
+          context,
+          variables: info.variableValues,
+        }),
+      ).then(mapResults);
+    }
+
     const operation = {
       query,
       variables: info.variableValues,
@@ -368,9 +401,6 @@ function createSubscriptionResolver(link: ApolloLink): ResolverFn {
     };
 
     const observable = execute(link, operation);
-    const originalAsyncIterator = observableToAsyncIterable(observable);
-    return mapAsyncIterator(originalAsyncIterator, (result) => ({
-      [info.fieldName]: checkResultAndHandleErrors(result, context, info),
-    }));
+    return mapResults(observableToAsyncIterable(observable));
   };
 }
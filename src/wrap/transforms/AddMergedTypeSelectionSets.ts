@@ -5,6 +5,7 @@ import {
   Kind,
   SelectionSetNode,
   TypeInfo,
+  isAbstractType,
   visit,
   visitWithTypeInfo,
 } from 'graphql';
@@ -52,7 +53,11 @@ function addMergedTypeSelectionSets(
           | GraphQLType
           | null
           | undefined = typeInfo.getParentType();
-        if (parentType != null) {
+        // a subscription must select exactly one root field
+        if (
+          parentType != null &&
+          parentType !== targetSchema.getSubscriptionType()
+        ) {
           const parentTypeName = parentType.name;
           let selections = node.selections;
 
@@ -61,6 +66,25 @@ function addMergedTypeSelectionSets(
             if (selectionSet != null) {
               selections = selections.concat(selectionSet.selections);
             }
+          } else if (isAbstractType(parentType)) {
+            targetSchema
+              .getPossibleTypes(parentType)
+              .forEach((possibleType) => {
+                const mergedTypeInfo = mapping[possibleType.name];
+                if (mergedTypeInfo != null) {
+                  selections = selections.concat({
+                    kind: Kind.INLINE_FRAGMENT,
+                    typeCondition: {
+                      kind: Kind.NAMED_TYPE,
+                      name: {
+                        kind: Kind.NAME,
+                        value: possibleType.name,
+                      },
+                    },
+                    selectionSet: mergedTypeInfo.selectionSet,
+                  });
+                }
+              });
           }
 
           if (selections !== node.selections) {
@@ -0,0 +1,79 @@
+import { GraphQLError } from 'graphql';
+import { v4 as uuid } from 'uuid';
+
+import { Transform, Result, ErrorPolicy } from '../../Interfaces';
+import { AggregateGraphQLError } from '../../stitch/errors';
+
+export default class MaskErrors implements Transform {
+  private readonly policy: ErrorPolicy;
+  private readonly subschemaName?: string;
+
+  constructor(policy: ErrorPolicy, subschemaName?: string) {
+    this.policy = policy;
+    this.subschemaName = subschemaName;
+  }
+
+  public transformResult(result: Result): Result {
+    if (result.errors == null) {
+      return result;
+    }
+
+    return {
+      ...result,
+      errors: result.errors.map((error) => this.maskError(error)),
+    };
+  }
+
+  // errors thrown instead of being returned within results, e.g. network
+  // errors, are masked as well, as are each of the errors of aggregates
+  public maskError(error: Error | GraphQLError): GraphQLError {
+    if (error instanceof AggregateGraphQLError) {
+      return new AggregateGraphQLError(
+        error.errors.map((originalError) => this.maskError(originalError)),
+      );
+    }
+
+    const {
+      allowedCodes = [],
+      message = 'Internal server error',
+      code = 'INTERNAL_SERVER_ERROR',
+      logger,
+      createCorrelationId = uuid,
+    } = this.policy;
+
+    const graphQLError = error as GraphQLError;
+    const extensions =
+      graphQLError.extensions != null ? graphQLError.extensions : {};
+    if (allowedCodes.includes(extensions.code)) {
+      return graphQLError;
+    }
+
+    const correlationId = createCorrelationId();
+
+    if (logger != null) {
+      logger.log(
+        new GraphQLError(
+          error.message,
+          graphQLError.nodes,
+          graphQLError.source,
+          graphQLError.positions,
+          graphQLError.path,
+          error instanceof GraphQLError || !(error instanceof Error)
+            ? graphQLError.originalError
+            : error,
+          { ...extensions, correlationId, subschema: this.subschemaName },
+        ),
+      );
+    }
+
+    return new GraphQLError(
+      message,
+      graphQLError.nodes,
+      graphQLError.source,
+      graphQLError.positions,
+      graphQLError.path,
+      undefined,
+      { code, correlationId },
+    );
+  }
+}
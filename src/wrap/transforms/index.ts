@@ -26,6 +26,7 @@ export { default as WrapType } from './WrapType';
 export { default as WrapFields } from './WrapFields';
 export { default as HoistField } from './HoistField';
 export { default as MapFields } from './MapFields';
+export { default as MaskErrors } from './MaskErrors';
 
 // superseded by AddReplacementFragments
 export { default as ReplaceFieldWithFragment } from './ReplaceFieldWithFragment';